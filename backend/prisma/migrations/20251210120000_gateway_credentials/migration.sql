@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "GatewayCredential" (
+    "id" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+
+    CONSTRAINT "GatewayCredential_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GatewayNonce" (
+    "id" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GatewayNonce_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GatewayCredential_deviceId_key" ON "GatewayCredential"("deviceId");
+
+-- CreateIndex
+CREATE INDEX "GatewayNonce_createdAt_idx" ON "GatewayNonce"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GatewayNonce_deviceId_nonce_key" ON "GatewayNonce"("deviceId", "nonce");
+
+-- AddForeignKey
+ALTER TABLE "GatewayCredential" ADD CONSTRAINT "GatewayCredential_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GatewayNonce" ADD CONSTRAINT "GatewayNonce_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
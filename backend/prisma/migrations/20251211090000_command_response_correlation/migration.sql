@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Command" ADD COLUMN     "latencyMs" INTEGER,
+ADD COLUMN     "responseTelemetryId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Command_messageId_idx" ON "Command"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "Command" ADD CONSTRAINT "Command_responseTelemetryId_fkey" FOREIGN KEY ("responseTelemetryId") REFERENCES "Telemetry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Telemetry" ADD COLUMN     "receivedById" TEXT;
+
+-- CreateTable
+CREATE TABLE "DeviceLink" (
+    "id" TEXT NOT NULL,
+    "baseStationId" TEXT NOT NULL,
+    "fieldUnitId" TEXT NOT NULL,
+    "rssi" INTEGER,
+    "snr" DOUBLE PRECISION,
+    "messageCount" INTEGER NOT NULL DEFAULT 1,
+    "firstHeardAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastHeardAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeviceLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Telemetry_receivedById_idx" ON "Telemetry"("receivedById");
+
+-- CreateIndex
+CREATE INDEX "DeviceLink_fieldUnitId_idx" ON "DeviceLink"("fieldUnitId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeviceLink_baseStationId_fieldUnitId_key" ON "DeviceLink"("baseStationId", "fieldUnitId");
+
+-- AddForeignKey
+ALTER TABLE "Telemetry" ADD CONSTRAINT "Telemetry_receivedById_fkey" FOREIGN KEY ("receivedById") REFERENCES "Device"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeviceLink" ADD CONSTRAINT "DeviceLink_baseStationId_fkey" FOREIGN KEY ("baseStationId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeviceLink" ADD CONSTRAINT "DeviceLink_fieldUnitId_fkey" FOREIGN KEY ("fieldUnitId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
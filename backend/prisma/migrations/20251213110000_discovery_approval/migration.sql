@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "DeviceApproval" AS ENUM ('PENDING', 'APPROVED');
+
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "approval" "DeviceApproval" NOT NULL DEFAULT 'APPROVED',
+ADD COLUMN     "approvedAt" TIMESTAMP(3);
+
+-- Existing auto-discovered devices go into the approval inbox
+UPDATE "Device" SET "approval" = 'PENDING' WHERE "status" = 'DISCOVERED' AND "deviceType" = 'FIELD_UNIT';
+
+-- CreateTable
+CREATE TABLE "BlockedBoard" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "boardId" TEXT NOT NULL,
+    "reason" TEXT,
+    "blockedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlockedBoard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Device_approval_idx" ON "Device"("approval");
+
+-- CreateIndex
+CREATE INDEX "BlockedBoard_networkId_idx" ON "BlockedBoard"("networkId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlockedBoard_networkId_boardId_key" ON "BlockedBoard"("networkId", "boardId");
+
+-- AddForeignKey
+ALTER TABLE "BlockedBoard" ADD CONSTRAINT "BlockedBoard_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "Network"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BlockedBoard" ADD CONSTRAINT "BlockedBoard_blockedById_fkey" FOREIGN KEY ("blockedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
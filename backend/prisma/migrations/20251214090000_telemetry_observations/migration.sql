@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "TelemetryObservation" (
+    "id" TEXT NOT NULL,
+    "telemetryId" TEXT NOT NULL,
+    "baseStationId" TEXT NOT NULL,
+    "rssi" INTEGER,
+    "snr" DOUBLE PRECISION,
+    "receivedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TelemetryObservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Telemetry_deviceId_messageId_idx" ON "Telemetry"("deviceId", "messageId");
+
+-- CreateIndex
+CREATE INDEX "TelemetryObservation_baseStationId_idx" ON "TelemetryObservation"("baseStationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TelemetryObservation_telemetryId_baseStationId_key" ON "TelemetryObservation"("telemetryId", "baseStationId");
+
+-- AddForeignKey
+ALTER TABLE "TelemetryObservation" ADD CONSTRAINT "TelemetryObservation_telemetryId_fkey" FOREIGN KEY ("telemetryId") REFERENCES "Telemetry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TelemetryObservation" ADD CONSTRAINT "TelemetryObservation_baseStationId_fkey" FOREIGN KEY ("baseStationId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
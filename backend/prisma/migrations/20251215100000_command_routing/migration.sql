@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Command" ADD COLUMN     "routeReason" TEXT,
+ADD COLUMN     "routedAt" TIMESTAMP(3);
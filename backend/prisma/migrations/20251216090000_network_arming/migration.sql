@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "ArmState" AS ENUM ('SAFE', 'ARMING', 'ARMED', 'FIRING');
+
+-- AlterTable
+ALTER TABLE "Network" ADD COLUMN     "armExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "armRequestedById" TEXT,
+ADD COLUMN     "armState" "ArmState" NOT NULL DEFAULT 'SAFE',
+ADD COLUMN     "armStateChangedAt" TIMESTAMP(3),
+ADD COLUMN     "requireSecondArmer" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ArmTransition" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "fromState" "ArmState" NOT NULL,
+    "toState" "ArmState" NOT NULL,
+    "userId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ArmTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Network_armState_idx" ON "Network"("armState");
+
+-- CreateIndex
+CREATE INDEX "ArmTransition_networkId_createdAt_idx" ON "ArmTransition"("networkId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ArmTransition" ADD CONSTRAINT "ArmTransition_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "Network"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ArmTransition" ADD CONSTRAINT "ArmTransition_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
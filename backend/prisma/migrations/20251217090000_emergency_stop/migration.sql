@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "GuestPermission" ADD VALUE 'SAFETY_OFFICER';
+
+-- AlterEnum
+ALTER TYPE "CommandStatus" ADD VALUE 'CANCELLED';
+ALTER TYPE "CommandStatus" ADD VALUE 'ABORTED';
+
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "stopRequestedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Network" ADD COLUMN     "emergencyStopAt" TIMESTAMP(3),
+ADD COLUMN     "emergencyStopById" TEXT;
@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "ShowStatus" AS ENUM ('DRAFT', 'RUNNING', 'PAUSED', 'COMPLETED', 'ABORTED');
+
+-- CreateTable
+CREATE TABLE "Show" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "status" "ShowStatus" NOT NULL DEFAULT 'DRAFT',
+    "startedAt" TIMESTAMP(3),
+    "startedById" TEXT,
+    "pausedAt" TIMESTAMP(3),
+    "pausedMs" INTEGER NOT NULL DEFAULT 0,
+    "completedAt" TIMESTAMP(3),
+    "abortReason" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Show_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ShowCue" (
+    "id" TEXT NOT NULL,
+    "showId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "targetDeviceId" TEXT NOT NULL,
+    "channel" INTEGER NOT NULL DEFAULT 1,
+    "offsetMs" INTEGER NOT NULL,
+    "notes" TEXT,
+    "queuedAt" TIMESTAMP(3),
+    "commandId" TEXT,
+    "errorMessage" TEXT,
+
+    CONSTRAINT "ShowCue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Show_networkId_idx" ON "Show"("networkId");
+
+-- CreateIndex
+CREATE INDEX "Show_status_idx" ON "Show"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShowCue_commandId_key" ON "ShowCue"("commandId");
+
+-- CreateIndex
+CREATE INDEX "ShowCue_showId_offsetMs_idx" ON "ShowCue"("showId", "offsetMs");
+
+-- AddForeignKey
+ALTER TABLE "Show" ADD CONSTRAINT "Show_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "Network"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Show" ADD CONSTRAINT "Show_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShowCue" ADD CONSTRAINT "ShowCue_showId_fkey" FOREIGN KEY ("showId") REFERENCES "Show"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShowCue" ADD CONSTRAINT "ShowCue_targetDeviceId_fkey" FOREIGN KEY ("targetDeviceId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShowCue" ADD CONSTRAINT "ShowCue_commandId_fkey" FOREIGN KEY ("commandId") REFERENCES "Command"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "gpsUpdatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Network" ADD COLUMN     "interlockMaxGpsAgeSeconds" INTEGER DEFAULT 600,
+ADD COLUMN     "interlockMaxLastSeenSeconds" INTEGER DEFAULT 60;
+
+-- CreateTable
+CREATE TABLE "AudienceZone" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "polygon" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AudienceZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InterlockOverride" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "commandId" TEXT,
+    "check" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "justification" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InterlockOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AudienceZone_networkId_idx" ON "AudienceZone"("networkId");
+
+-- CreateIndex
+CREATE INDEX "InterlockOverride_networkId_createdAt_idx" ON "InterlockOverride"("networkId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AudienceZone" ADD CONSTRAINT "AudienceZone_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "Network"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterlockOverride" ADD CONSTRAINT "InterlockOverride_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "Network"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterlockOverride" ADD CONSTRAINT "InterlockOverride_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterlockOverride" ADD CONSTRAINT "InterlockOverride_commandId_fkey" FOREIGN KEY ("commandId") REFERENCES "Command"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterlockOverride" ADD CONSTRAINT "InterlockOverride_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
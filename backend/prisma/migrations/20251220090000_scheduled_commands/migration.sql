@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Command" ADD COLUMN     "fireAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "clockOffsetAt" TIMESTAMP(3),
+ADD COLUMN     "clockOffsetMs" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Command_fireAt_idx" ON "Command"("fireAt");
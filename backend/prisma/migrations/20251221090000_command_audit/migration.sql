@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "CommandAuditAction" AS ENUM ('CANCELLED', 'REPRIORITISED');
+
+-- CreateTable
+CREATE TABLE "CommandAudit" (
+    "id" TEXT NOT NULL,
+    "commandId" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "action" "CommandAuditAction" NOT NULL,
+    "fromValue" TEXT,
+    "toValue" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CommandAudit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CommandAudit_commandId_idx" ON "CommandAudit"("commandId");
+
+-- CreateIndex
+CREATE INDEX "CommandAudit_networkId_createdAt_idx" ON "CommandAudit"("networkId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CommandAudit" ADD CONSTRAINT "CommandAudit_commandId_fkey" FOREIGN KEY ("commandId") REFERENCES "Command"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommandAudit" ADD CONSTRAINT "CommandAudit_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "CommandTargetType" AS ENUM ('ALL', 'DEVICES');
+
+-- CreateEnum
+CREATE TYPE "CommandBatchMode" AS ENUM ('FANOUT', 'BROADCAST');
+
+-- AlterTable
+ALTER TABLE "Command" ADD COLUMN     "batchId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "capabilities" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "CommandBatch" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "messageType" "MessageType" NOT NULL,
+    "priority" "CommandPriority" NOT NULL,
+    "payload" JSONB,
+    "targetType" "CommandTargetType" NOT NULL,
+    "targetDeviceIds" TEXT[],
+    "mode" "CommandBatchMode" NOT NULL,
+    "messageId" TEXT,
+    "rejections" JSONB,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CommandBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Command_batchId_idx" ON "Command"("batchId");
+
+-- CreateIndex
+CREATE INDEX "CommandBatch_networkId_createdAt_idx" ON "CommandBatch"("networkId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Command" ADD CONSTRAINT "Command_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "CommandBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommandBatch" ADD CONSTRAINT "CommandBatch_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "Network"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommandBatch" ADD CONSTRAINT "CommandBatch_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,61 @@
+-- AlterEnum
+ALTER TYPE "CommandTargetType" ADD VALUE 'GROUP';
+
+-- AlterTable
+ALTER TABLE "CommandBatch" ADD COLUMN     "targetGroupId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "groupId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ShowCue" ADD COLUMN     "groupId" TEXT;
+
+-- CreateTable
+CREATE TABLE "DeviceGroup" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeviceGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "NetworkGuestGroup" (
+    "guestId" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+
+    CONSTRAINT "NetworkGuestGroup_pkey" PRIMARY KEY ("guestId","groupId")
+);
+
+-- CreateIndex
+CREATE INDEX "Device_groupId_idx" ON "Device"("groupId");
+
+-- CreateIndex
+CREATE INDEX "DeviceGroup_networkId_idx" ON "DeviceGroup"("networkId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeviceGroup_networkId_name_key" ON "DeviceGroup"("networkId", "name");
+
+-- CreateIndex
+CREATE INDEX "NetworkGuestGroup_groupId_idx" ON "NetworkGuestGroup"("groupId");
+
+-- AddForeignKey
+ALTER TABLE "Device" ADD CONSTRAINT "Device_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "DeviceGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShowCue" ADD CONSTRAINT "ShowCue_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "DeviceGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommandBatch" ADD CONSTRAINT "CommandBatch_targetGroupId_fkey" FOREIGN KEY ("targetGroupId") REFERENCES "DeviceGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DeviceGroup" ADD CONSTRAINT "DeviceGroup_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "Network"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NetworkGuestGroup" ADD CONSTRAINT "NetworkGuestGroup_guestId_fkey" FOREIGN KEY ("guestId") REFERENCES "NetworkGuest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NetworkGuestGroup" ADD CONSTRAINT "NetworkGuestGroup_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "DeviceGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "channelCount" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "DeviceChannel" (
+    "id" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "label" TEXT,
+    "load" TEXT,
+    "firedAt" TIMESTAMP(3),
+    "firedCommandId" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeviceChannel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeviceChannel_deviceId_number_key" ON "DeviceChannel"("deviceId", "number");
+
+-- AddForeignKey
+ALTER TABLE "DeviceChannel" ADD CONSTRAINT "DeviceChannel_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
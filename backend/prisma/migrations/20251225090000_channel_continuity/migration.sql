@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "MessageType" ADD VALUE 'MSG_TYPE_CONT';
+
+-- AlterTable
+ALTER TABLE "DeviceChannel" ADD COLUMN     "continuityOk" BOOLEAN,
+ADD COLUMN     "continuityTestedAt" TIMESTAMP(3);
@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "CosignKind" AS ENUM ('IGNITE', 'SHOW_START');
+
+-- CreateEnum
+CREATE TYPE "CosignStatus" AS ENUM ('PENDING', 'APPROVED', 'DENIED', 'EXPIRED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "CommandStatus" ADD VALUE 'AWAITING_COSIGN' BEFORE 'PENDING';
+
+-- AlterEnum
+ALTER TYPE "ShowStatus" ADD VALUE 'AWAITING_COSIGN' BEFORE 'RUNNING';
+
+-- AlterTable
+ALTER TABLE "Network" ADD COLUMN     "requireCosign" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Command" ADD COLUMN     "cosignRequestId" TEXT,
+ADD COLUMN     "queuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing commands were queued when they were created
+UPDATE "Command" SET "queuedAt" = "createdAt";
+
+-- CreateTable
+CREATE TABLE "CosignRequest" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "kind" "CosignKind" NOT NULL,
+    "status" "CosignStatus" NOT NULL DEFAULT 'PENDING',
+    "summary" TEXT NOT NULL,
+    "showId" TEXT,
+    "requestedById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "decidedById" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CosignRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Command_cosignRequestId_idx" ON "Command"("cosignRequestId");
+
+-- CreateIndex
+CREATE INDEX "CosignRequest_networkId_status_idx" ON "CosignRequest"("networkId", "status");
+
+-- CreateIndex
+CREATE INDEX "CosignRequest_status_expiresAt_idx" ON "CosignRequest"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "Command" ADD CONSTRAINT "Command_cosignRequestId_fkey" FOREIGN KEY ("cosignRequestId") REFERENCES "CosignRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CosignRequest" ADD CONSTRAINT "CosignRequest_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "Network"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CosignRequest" ADD CONSTRAINT "CosignRequest_showId_fkey" FOREIGN KEY ("showId") REFERENCES "Show"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CosignRequest" ADD CONSTRAINT "CosignRequest_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CosignRequest" ADD CONSTRAINT "CosignRequest_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "StepUpMethod" AS ENUM ('PIN', 'PASSWORD');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "firingPinHash" TEXT;
+
+-- CreateTable
+CREATE TABLE "StepUpAttempt" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "method" "StepUpMethod" NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StepUpAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StepUpAttempt_userId_createdAt_idx" ON "StepUpAttempt"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "StepUpAttempt" ADD CONSTRAINT "StepUpAttempt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "CommandEventActor" AS ENUM ('USER', 'BASE_STATION', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "CommandEvent" (
+    "id" TEXT NOT NULL,
+    "commandId" TEXT NOT NULL,
+    "fromStatus" "CommandStatus",
+    "toStatus" "CommandStatus" NOT NULL,
+    "actor" "CommandEventActor" NOT NULL,
+    "userId" TEXT,
+    "baseStationId" TEXT,
+    "message" TEXT,
+    "data" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CommandEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CommandEvent_commandId_createdAt_idx" ON "CommandEvent"("commandId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CommandEvent" ADD CONSTRAINT "CommandEvent_commandId_fkey" FOREIGN KEY ("commandId") REFERENCES "Command"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommandEvent" ADD CONSTRAINT "CommandEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommandEvent" ADD CONSTRAINT "CommandEvent_baseStationId_fkey" FOREIGN KEY ("baseStationId") REFERENCES "Device"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "DiagnosticSchedule" (
+    "id" TEXT NOT NULL,
+    "networkId" TEXT NOT NULL,
+    "messageType" "MessageType" NOT NULL,
+    "priority" "CommandPriority" NOT NULL DEFAULT 'LOW',
+    "intervalSeconds" INTEGER NOT NULL,
+    "groupId" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT NOT NULL,
+    "lastRunAt" TIMESTAMP(3),
+    "lastResult" TEXT,
+    "lastBatchId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DiagnosticSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DiagnosticSchedule_networkId_idx" ON "DiagnosticSchedule"("networkId");
+
+-- CreateIndex
+CREATE INDEX "DiagnosticSchedule_enabled_lastRunAt_idx" ON "DiagnosticSchedule"("enabled", "lastRunAt");
+
+-- AddForeignKey
+ALTER TABLE "DiagnosticSchedule" ADD CONSTRAINT "DiagnosticSchedule_networkId_fkey" FOREIGN KEY ("networkId") REFERENCES "Network"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiagnosticSchedule" ADD CONSTRAINT "DiagnosticSchedule_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "DeviceGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiagnosticSchedule" ADD CONSTRAINT "DiagnosticSchedule_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
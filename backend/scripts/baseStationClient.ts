@@ -0,0 +1,191 @@
+/// <reference types="node" />
+import 'dotenv/config';
+import crypto from 'crypto';
+import { buildStringToSign, signGatewayRequest } from '../src/utils/gatewaySignature';
+
+/**
+ * Reference base station client for local testing.
+ *
+ * Holds a long-poll request open on /api/gateway/poll/wait, acknowledges each
+ * command it receives and, with --respond, sends the field unit's reply
+ * telemetry (PONG/BATT/COORD) so response correlation can be exercised.
+ * The clock is synced against /api/gateway/time at startup so scheduled
+ * (fire-at) commands can be timed against the server clock.
+ *
+ * Usage:
+ *   BOARD_ID=000000BASE001 GATEWAY_SECRET=... npm run gateway:client
+ *   npm run gateway:client -- --fallback   # classic /poll loop instead of long-poll
+ *   npm run gateway:client -- --respond    # imitate field unit responses
+ */
+
+const API_BASE = process.env.API_BASE ?? 'http://localhost:3000/api';
+const BOARD_ID = process.env.BOARD_ID ?? '000000BASE001';
+const GATEWAY_SECRET = process.env.GATEWAY_SECRET;
+const LONG_POLL_TIMEOUT_SECONDS = 25;
+const POLL_INTERVAL_MS = parseInt(process.env.POLL_INTERVAL_MS || '') || 1000;
+const RADIO_DELAY_MS = 200; // Simulated LoRa round trip
+const CLOCK_SYNC_INTERVAL_MS = 10 * 60 * 1000;
+const CAPABILITIES = process.env.CAPABILITIES ?? 'LORA_BROADCAST'; // Reported firmware features
+
+const useFallback = process.argv.includes('--fallback');
+const respond = process.argv.includes('--respond');
+
+interface GatewayCommand {
+  commandId: string;
+  targetBoardId?: string;
+  messageType: string;
+  messageId: string | null;
+  payload: unknown;
+  fireAt: number | null;
+}
+
+interface StopInstruction {
+  instruction: 'STOP';
+  stopRequestedAt: string;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Server clock minus local clock, from the last sync
+let clockOffsetMs = 0;
+let lastClockSync = 0;
+
+const serverNow = () => Date.now() + clockOffsetMs;
+
+// NTP-style sync: assume the reply was generated halfway through the round trip
+async function syncClock() {
+  const t0 = Date.now();
+  const res = await fetch(`${API_BASE}/gateway/time?t0=${t0}`);
+  const t3 = Date.now();
+  if (!res.ok) {
+    throw new Error(`Clock sync failed: ${res.status}`);
+  }
+
+  const { serverTime } = (await res.json()) as { serverTime: number };
+  clockOffsetMs = Math.round(serverTime - (t0 + t3) / 2);
+  lastClockSync = t3;
+  console.log(`🕒 Clock synced: offset ${clockOffsetMs} ms, round trip ${t3 - t0} ms`);
+}
+
+async function signedFetch(method: 'GET' | 'POST', path: string, body?: unknown) {
+  const rawBody = body === undefined ? '' : JSON.stringify(body);
+  const timestamp = Math.floor(serverNow() / 1000).toString();
+  const nonce = crypto.randomBytes(12).toString('hex');
+  const url = new URL(`${API_BASE}${path}`);
+  const requestPath = url.pathname + url.search;
+  const signature = signGatewayRequest(
+    GATEWAY_SECRET!,
+    buildStringToSign(method, requestPath, timestamp, nonce, rawBody)
+  );
+
+  return fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Board-Id': BOARD_ID,
+      'X-Timestamp': timestamp,
+      'X-Nonce': nonce,
+      'X-Signature': signature,
+    },
+    body: body === undefined ? undefined : rawBody,
+  });
+}
+
+async function fetchCommand(): Promise<GatewayCommand | StopInstruction | null> {
+  // clientTime lets the server track how far this station's clock drifts
+  const query = `clientTime=${serverNow()}&capabilities=${encodeURIComponent(CAPABILITIES)}`;
+  const path = useFallback
+    ? `/gateway/poll?${query}`
+    : `/gateway/poll/wait?timeout=${LONG_POLL_TIMEOUT_SECONDS}&${query}`;
+  const res = await signedFetch('GET', path);
+
+  if (res.status === 204) {
+    return null;
+  }
+  if (!res.ok) {
+    throw new Error(`Poll failed: ${res.status} ${await res.text()}`);
+  }
+  return (await res.json()) as GatewayCommand | StopInstruction;
+}
+
+// Reply a field unit would send for the request types that expect one
+function buildResponseTelemetry(command: GatewayCommand) {
+  if (!command.targetBoardId || !command.messageId) {
+    return null;
+  }
+
+  const base = {
+    boardId: command.targetBoardId,
+    messageId: command.messageId,
+    rssi: -70 - Math.round(Math.random() * 30),
+    snr: Math.round(Math.random() * 100) / 10,
+    deviceTime: serverNow(),
+  };
+
+  switch (command.messageType) {
+    case 'MSG_TYPE_PING':
+      return { ...base, messageType: 'MSG_TYPE_PONG' };
+    case 'MSG_TYPE_BATT':
+      return { ...base, messageType: 'MSG_TYPE_BATT', batteryVoltage: 3.9 };
+    case 'MSG_TYPE_GPS':
+      return { ...base, messageType: 'MSG_TYPE_COORD', latitude: 48.9152, longitude: 37.7918 };
+    default:
+      return null;
+  }
+}
+
+async function handleCommand(command: GatewayCommand) {
+  console.log(`📥 ${command.messageType} → ${command.targetBoardId ?? 'broadcast'} (${command.commandId})`);
+  if (command.fireAt !== null) {
+    console.log(`   fire at ${new Date(command.fireAt).toISOString()} (in ${command.fireAt - serverNow()} ms)`);
+  }
+  await sleep(RADIO_DELAY_MS);
+
+  const ack = await signedFetch('POST', '/gateway/ack', { commandId: command.commandId, success: true });
+  console.log(`   ack: ${ack.status}`);
+
+  const telemetry = respond ? buildResponseTelemetry(command) : null;
+  if (telemetry) {
+    const res = await signedFetch('POST', '/gateway/telemetry', telemetry);
+    console.log(`   ${telemetry.messageType} telemetry: ${res.status}`);
+  }
+}
+
+async function handleStop(stop: StopInstruction) {
+  console.log(`🛑 Emergency stop issued at ${stop.stopRequestedAt} - dropping queued radio traffic`);
+  const res = await signedFetch('POST', '/gateway/stop/ack', { stopRequestedAt: stop.stopRequestedAt });
+  console.log(`   stop ack: ${res.status}`);
+}
+
+async function main() {
+  if (!GATEWAY_SECRET) {
+    throw new Error('GATEWAY_SECRET is required (printed by scenario:setup or when rotating credentials)');
+  }
+
+  console.log(`📡 Base station ${BOARD_ID} connected to ${API_BASE} (${useFallback ? 'poll' : 'long-poll'})`);
+
+  while (true) {
+    try {
+      if (Date.now() - lastClockSync > CLOCK_SYNC_INTERVAL_MS) {
+        await syncClock();
+      }
+
+      const command = await fetchCommand();
+      if (command && 'instruction' in command) {
+        await handleStop(command);
+      } else if (command) {
+        await handleCommand(command);
+      } else if (useFallback) {
+        await sleep(POLL_INTERVAL_MS);
+      }
+    } catch (error) {
+      console.error(error);
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -3,6 +3,7 @@ import 'dotenv/config';
 import { PrismaClient, DeviceStatus, DeviceType, UserRole } from '@prisma/client';
 import type { Prisma } from '@prisma/client';
 import { hashPassword } from '../src/utils/password';
+import { generateGatewaySecret } from '../src/utils/gatewaySignature';
 
 const prisma = new PrismaClient();
 
@@ -115,6 +116,25 @@ async function upsertDevice(params: {
   return device;
 }
 
+async function ensureGatewayCredential(deviceId: string) {
+  const existing = await prisma.gatewayCredential.findUnique({ where: { deviceId } });
+
+  if (existing && !existing.revokedAt) {
+    console.log('Gateway credential already issued for base station');
+    return existing;
+  }
+
+  const secret = generateGatewaySecret();
+  const credential = await prisma.gatewayCredential.upsert({
+    where: { deviceId },
+    update: { secret, issuedAt: new Date(), revokedAt: null, lastUsedAt: null },
+    create: { deviceId, secret },
+  });
+
+  console.log('Issued new gateway credential for base station');
+  return credential;
+}
+
 async function main() {
   try {
     const user = await ensureTestUser();
@@ -133,6 +153,8 @@ async function main() {
       batteryVoltage: 4.95,
     });
 
+    const gatewayCredential = await ensureGatewayCredential(baseStation.id);
+
     const fieldUnit = await upsertDevice({
       networkId: network.id,
       boardId: FIELD_UNIT_BOARD_ID,
@@ -151,6 +173,7 @@ async function main() {
     console.log(`- User: ${user.email}`);
     console.log(`- Network: ${network.name}`);
     console.log(`- Base Station: ${baseStation.boardId}`);
+    console.log(`- Gateway Secret: ${gatewayCredential.secret}`);
     console.log(`- Field Unit: ${fieldUnit.boardId}`);
   } catch (error) {
     console.error('Setup script failed:', error);
@@ -0,0 +1,486 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import prisma from '../utils/prisma';
+import {
+  getArmConfirmWindowMs,
+  getArmInactivityTimeoutMs,
+  transitionArmState,
+} from '../utils/armState';
+import { notifyCommandQueued } from '../utils/commandNotifier';
+import { abortRunningShow } from '../utils/shows';
+import { getContinuityReadiness } from '../utils/deviceChannels';
+import { closeCosignRequest } from '../utils/cosign';
+import { checkStepUp } from '../utils/stepUp';
+import { transitionCommands } from '../utils/commandEvents';
+import { loadNetworkWithAccess } from '../utils/networkAccess';
+
+// Every stopped command is logged individually, which can take a while on a busy network
+const EMERGENCY_STOP_TRANSACTION_TIMEOUT_MS = 30000;
+
+const armPolicySchema = z
+  .object({
+    requireSecondArmer: z.boolean().optional(),
+    requireCosign: z.boolean().optional(), // IGNITE and show start need a second person's approval
+  })
+  .refine(data => data.requireSecondArmer !== undefined || data.requireCosign !== undefined, 'Nothing to update');
+
+const confirmArmSchema = z.object({
+  // Owner-only: arm even though loaded channels failed their continuity test
+  continuityOverride: z
+    .object({
+      justification: z.string().trim().min(10, 'Justification must be at least 10 characters'),
+    })
+    .optional(),
+});
+
+const disarmSchema = z.object({
+  reason: z.string().max(200).optional(),
+});
+
+const emergencyStopSchema = z.object({
+  reason: z.string().max(200).optional(),
+});
+
+const armStatusSelect = {
+  id: true,
+  armState: true,
+  armStateChangedAt: true,
+  armRequestedById: true,
+  armExpiresAt: true,
+  requireSecondArmer: true,
+  requireCosign: true,
+  emergencyStopAt: true,
+} as const;
+
+/**
+ * Get the arm state and recent transitions of a network
+ */
+export const getArmStatus = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { network, canView } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!canView) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const [status, transitions] = await Promise.all([
+      prisma.network.findUnique({ where: { id: networkId }, select: armStatusSelect }),
+      prisma.armTransition.findMany({
+        where: { networkId },
+        include: { user: { select: { id: true, name: true, email: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: 50,
+      }),
+    ]);
+
+    res.json({ ...status, transitions });
+  } catch (error) {
+    console.error('Get arm status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Pre-show readiness: continuity of every channel of every field unit, and whether
+ * any loaded channel would block arming
+ */
+export const getArmReadiness = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { network, canView } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!canView) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    res.json(await getContinuityReadiness(networkId));
+  } catch (error) {
+    console.error('Get arm readiness error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Request arming: SAFE → ARMING. Must be confirmed within the confirmation window.
+ */
+export const armNetwork = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { network, canCommand } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!canCommand) {
+      return res.status(403).json({ error: 'Insufficient permissions to arm this network' });
+    }
+
+    if (network.emergencyStopAt) {
+      return res.status(409).json({ error: 'Emergency stop is active, the owner must reset it before arming' });
+    }
+
+    const stepUp = await checkStepUp(req);
+    if (!stepUp.ok) {
+      return res.status(stepUp.status).json({ error: stepUp.error, ...stepUp.details });
+    }
+
+    const previous = await transitionArmState(prisma, networkId, ['SAFE'], 'ARMING', {
+      userId: req.user.userId,
+      reason: 'Arm requested',
+      data: {
+        armRequestedById: req.user.userId,
+        armExpiresAt: new Date(Date.now() + getArmConfirmWindowMs()),
+      },
+    });
+
+    if (!previous) {
+      return res.status(409).json({ error: `Network is ${network.armState}, arming must start from SAFE` });
+    }
+
+    const status = await prisma.network.findUnique({ where: { id: networkId }, select: armStatusSelect });
+    res.json(status);
+  } catch (error) {
+    console.error('Arm network error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Confirm arming: ARMING → ARMED. With requireSecondArmer the confirmation must
+ * come from someone other than the person who requested it. Refused while any loaded
+ * channel failed its continuity test, unless the owner overrides it; overrides are
+ * logged with the interlock overrides.
+ */
+export const confirmArm = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { continuityOverride } = confirmArmSchema.parse(req.body ?? {});
+    const { network, canCommand, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!canCommand) {
+      return res.status(403).json({ error: 'Insufficient permissions to arm this network' });
+    }
+
+    if (continuityOverride && !isOwner) {
+      return res.status(403).json({ error: 'Only the network owner can override the continuity check' });
+    }
+
+    if (network.armState !== 'ARMING') {
+      return res.status(409).json({ error: `Network is ${network.armState}, nothing to confirm` });
+    }
+
+    if (network.requireSecondArmer && network.armRequestedById === req.user.userId) {
+      return res.status(403).json({ error: 'Arming must be confirmed by a second person' });
+    }
+
+    const stepUp = await checkStepUp(req);
+    if (!stepUp.ok) {
+      return res.status(stepUp.status).json({ error: stepUp.error, ...stepUp.details });
+    }
+
+    const { failures } = await getContinuityReadiness(networkId);
+
+    if (failures.length > 0 && !continuityOverride) {
+      return res.status(409).json({
+        error: `Continuity test failed on ${failures.length} loaded channel(s): ${failures
+          .map(f => `${f.deviceName} CH${f.channel}`)
+          .join(', ')}`,
+        code: 'CONTINUITY_FAILED',
+        failures,
+      });
+    }
+
+    const userId = req.user.userId;
+    const reason = network.requireSecondArmer ? 'Arm confirmed by second person' : 'Arm confirmed';
+
+    const previous = await prisma.$transaction(async tx => {
+      const transitioned = await transitionArmState(tx, networkId, ['ARMING'], 'ARMED', {
+        userId,
+        reason: failures.length > 0 ? `${reason}, continuity failures overridden` : reason,
+        data: {
+          armExpiresAt: new Date(Date.now() + getArmInactivityTimeoutMs()),
+        },
+      });
+
+      if (transitioned && failures.length > 0 && continuityOverride) {
+        await tx.interlockOverride.createMany({
+          data: failures.map(failure => ({
+            networkId,
+            deviceId: failure.deviceId,
+            check: 'CONTINUITY_FAILED',
+            message: `Channel ${failure.channel} (${failure.load}) failed continuity`,
+            justification: continuityOverride.justification,
+            userId,
+          })),
+        });
+      }
+
+      return transitioned;
+    });
+
+    if (!previous) {
+      return res.status(409).json({ error: 'Arm state changed, please retry' });
+    }
+
+    const status = await prisma.network.findUnique({ where: { id: networkId }, select: armStatusSelect });
+    res.json(status);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Confirm arm error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Disarm: any state → SAFE
+ */
+export const disarmNetwork = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { reason } = disarmSchema.parse(req.body ?? {});
+    const { network, canStop } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!canStop) {
+      return res.status(403).json({ error: 'Insufficient permissions to disarm this network' });
+    }
+
+    const userId = req.user.userId;
+    await prisma.$transaction(tx =>
+      transitionArmState(tx, networkId, ['ARMING', 'ARMED', 'FIRING'], 'SAFE', {
+        userId,
+        reason: reason || 'Disarmed',
+      })
+    );
+
+    const status = await prisma.network.findUnique({ where: { id: networkId }, select: armStatusSelect });
+    res.json(status);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Disarm network error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Set whether arming, and ignition and show start, need a second person (owner only)
+ */
+export const updateArmPolicy = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const policy = armPolicySchema.parse(req.body);
+    const { network, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the owner can change the arming policy' });
+    }
+
+    const status = await prisma.network.update({
+      where: { id: networkId },
+      data: policy,
+      select: armStatusSelect,
+    });
+
+    res.json(status);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Update arm policy error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Emergency stop: in one transaction cancel every PENDING command and pending co-sign
+ * request, abort every PROCESSING command, disarm the network and queue a STOP
+ * instruction for each base station
+ */
+export const emergencyStop = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { reason } = emergencyStopSchema.parse(req.body ?? {});
+    const { network, canStop } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!canStop) {
+      return res.status(403).json({ error: 'Insufficient permissions to trigger emergency stop' });
+    }
+
+    const userId = req.user.userId;
+    const now = new Date();
+    const message = `Emergency stop${reason ? `: ${reason}` : ''}`;
+
+    const result = await prisma.$transaction(async tx => {
+      const cancelled = await transitionCommands(
+        tx,
+        { networkId, status: 'PENDING' },
+        { status: 'CANCELLED', completedAt: now, errorMessage: message },
+        { actor: 'USER', userId }
+      );
+
+      const aborted = await transitionCommands(
+        tx,
+        { networkId, status: 'PROCESSING' },
+        { status: 'ABORTED', completedAt: now, errorMessage: message },
+        { actor: 'USER', userId }
+      );
+
+      const pendingCosigns = await tx.cosignRequest.findMany({
+        where: { networkId, status: 'PENDING' },
+        select: { id: true },
+      });
+      for (const request of pendingCosigns) {
+        await closeCosignRequest(tx, request.id, 'CANCELLED', message, userId);
+      }
+
+      await transitionArmState(tx, networkId, ['ARMING', 'ARMED', 'FIRING'], 'SAFE', {
+        userId,
+        reason: message,
+      });
+
+      const activeShows = await tx.show.findMany({
+        where: { networkId, status: { in: ['RUNNING', 'PAUSED'] } },
+        select: { id: true },
+      });
+      for (const show of activeShows) {
+        await abortRunningShow(tx, show.id, message, userId);
+      }
+
+      const stopped = await tx.device.updateMany({
+        where: { networkId, deviceType: 'BASE_STATION' },
+        data: { stopRequestedAt: now },
+      });
+
+      await tx.network.update({
+        where: { id: networkId },
+        data: { emergencyStopAt: now, emergencyStopById: userId },
+      });
+
+      return {
+        cancelledCommands: cancelled,
+        abortedCommands: aborted,
+        baseStationsNotified: stopped.count,
+        abortedShows: activeShows.length,
+        cancelledCosignRequests: pendingCosigns.length,
+      };
+    }, { timeout: EMERGENCY_STOP_TRANSACTION_TIMEOUT_MS });
+
+    // Release held long-poll requests so the STOP goes out immediately
+    notifyCommandQueued(networkId);
+
+    console.warn(`🛑 Emergency stop on network ${networkId} by ${userId}`, result);
+
+    res.json({ success: true, stoppedAt: now, ...result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Emergency stop error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Clear a latched emergency stop (owner only). The network stays SAFE and has to be re-armed.
+ */
+export const resetEmergencyStop = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { network, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the owner can reset an emergency stop' });
+    }
+
+    const { count } = await prisma.network.updateMany({
+      where: { id: networkId, emergencyStopAt: { not: null } },
+      data: { emergencyStopAt: null, emergencyStopById: null },
+    });
+
+    if (count === 0) {
+      return res.status(409).json({ error: 'No emergency stop is active' });
+    }
+
+    await prisma.armTransition.create({
+      data: {
+        networkId,
+        fromState: network.armState,
+        toState: network.armState,
+        userId: req.user.userId,
+        reason: 'Emergency stop reset',
+      },
+    });
+
+    const status = await prisma.network.findUnique({ where: { id: networkId }, select: armStatusSelect });
+    res.json(status);
+  } catch (error) {
+    console.error('Reset emergency stop error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,8 +1,10 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
 import prisma from '../utils/prisma';
 import { hashPassword, comparePassword } from '../utils/password';
-import { generateToken } from '../utils/jwt';
+import { generateStepUpToken, generateToken } from '../utils/jwt';
+import { getStepUpLockout, getStepUpWindowMs, recordStepUpAttempt } from '../utils/stepUp';
 
 const loginSchema = z.object({
   email: z.string().email(),
@@ -16,6 +18,18 @@ const registerSchema = z.object({
   role: z.enum(['USER', 'GUEST']).optional(),
 });
 
+const firingPinSchema = z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits');
+
+const stepUpSchema = z.union([
+  z.object({ pin: firingPinSchema }).strict(),
+  z.object({ password: z.string().min(1) }).strict(),
+]);
+
+const setFiringPinSchema = z.object({
+  password: z.string().min(1),
+  pin: firingPinSchema.nullable(), // null removes the PIN
+});
+
 export const login = async (req: Request, res: Response) => {
   try {
     const { email, password } = loginSchema.parse(req.body);
@@ -46,6 +60,7 @@ export const login = async (req: Request, res: Response) => {
         email: user.email,
         name: user.name,
         role: user.role,
+        hasFiringPin: !!user.firingPinHash,
       },
     });
   } catch (error) {
@@ -97,3 +112,101 @@ export const register = async (req: Request, res: Response) => {
     res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+/**
+ * Prove presence again with the firing PIN or the password. Returns a short-lived token
+ * for the X-Step-Up-Token header of critical actions. Failed attempts are logged and
+ * lock step-up for a while once there are too many.
+ */
+export const stepUp = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const input = stepUpSchema.parse(req.body);
+
+    const retryAfter = await getStepUpLockout(req.user.userId);
+    if (retryAfter) {
+      return res.status(429).json({ error: 'Too many failed attempts, try again later', code: 'STEP_UP_LOCKED', retryAfter });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user.userId } });
+    if (!user || !user.isActive) {
+      return res.status(403).json({ error: 'Account is not active' });
+    }
+
+    if ('pin' in input && !user.firingPinHash) {
+      return res.status(400).json({ error: 'No firing PIN is set, use your password' });
+    }
+
+    const method = 'pin' in input ? 'PIN' : 'PASSWORD';
+    const valid =
+      'pin' in input
+        ? await comparePassword(input.pin, user.firingPinHash!)
+        : await comparePassword(input.password, user.password);
+
+    await recordStepUpAttempt(req, method, valid);
+
+    // 403, not 401: a wrong PIN must not end the session
+    if (!valid) {
+      return res.status(403).json({ error: method === 'PIN' ? 'Incorrect PIN' : 'Incorrect password' });
+    }
+
+    const windowMs = getStepUpWindowMs();
+    res.json({
+      stepUpToken: generateStepUpToken({ userId: user.id }, windowMs),
+      expiresAt: new Date(Date.now() + windowMs).toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Step-up error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Set, change or remove the firing PIN. Needs the current password, which counts as a
+ * step-up attempt.
+ */
+export const setFiringPin = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { password, pin } = setFiringPinSchema.parse(req.body);
+
+    const retryAfter = await getStepUpLockout(req.user.userId);
+    if (retryAfter) {
+      return res.status(429).json({ error: 'Too many failed attempts, try again later', code: 'STEP_UP_LOCKED', retryAfter });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user.userId } });
+    if (!user || !user.isActive) {
+      return res.status(403).json({ error: 'Account is not active' });
+    }
+
+    const valid = await comparePassword(password, user.password);
+    await recordStepUpAttempt(req, 'PASSWORD', valid);
+
+    if (!valid) {
+      return res.status(403).json({ error: 'Incorrect password' });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { firingPinHash: pin ? await hashPassword(pin) : null },
+    });
+
+    res.json({ hasFiringPin: !!pin });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Set firing PIN error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
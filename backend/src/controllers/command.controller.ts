@@ -1,26 +1,164 @@
 import { Response } from 'express';
+import { MessageType, Network } from '@prisma/client';
 import { z } from 'zod';
 import { AuthRequest } from '../middleware/auth';
 import prisma from '../utils/prisma';
+import { getSchedulePolicy, isIgnitionCommand } from '../utils/commandPolicy';
+import { checkStepUp } from '../utils/stepUp';
+import { enqueueCommand } from '../utils/commandQueue';
+import { createCommandBatch, getBatchReport, resolveBatchTargets } from '../utils/commandBatch';
+import { GuestWithGroups, getGuestGroupScope, guestsWithGroups, isInGroupScope } from '../utils/deviceGroups';
+import { notifyCommandQueued } from '../utils/commandNotifier';
+import { createCosignRequest } from '../utils/cosign';
+import { getPayloadChannel } from '../utils/deviceChannels';
+import { transitionCommands } from '../utils/commandEvents';
+import { MESSAGE_DEFINITIONS, checkMessageFields } from '../utils/messageSchemas';
 
-const createCommandSchema = z.object({
-  targetDeviceId: z.string(),
-  messageType: z.enum([
-    'MSG_TYPE_POSA',
-    'MSG_TYPE_BATT',
-    'MSG_TYPE_GPS',
-    'MSG_TYPE_COORD',
-    'MSG_TYPE_PING',
-    'MSG_TYPE_PONG',
-    'MSG_TYPE_SET_R',
-    'MSG_TYPE_RES_ID',
-    'MSG_TYPE_MSG',
-    'MSG_TYPE_IGNITE',
-  ]),
-  priority: z.enum(['CRITICAL', 'HIGH', 'NORMAL', 'LOW']).optional(),
-  payload: z.record(z.any()).optional(),
+const messageTypeSchema = z.enum([
+  'MSG_TYPE_POSA',
+  'MSG_TYPE_BATT',
+  'MSG_TYPE_GPS',
+  'MSG_TYPE_COORD',
+  'MSG_TYPE_PING',
+  'MSG_TYPE_PONG',
+  'MSG_TYPE_SET_R',
+  'MSG_TYPE_RES_ID',
+  'MSG_TYPE_MSG',
+  'MSG_TYPE_IGNITE',
+  'MSG_TYPE_CONT',
+]);
+
+const createCommandSchema = z
+  .object({
+    targetDeviceId: z.string(),
+    messageType: messageTypeSchema,
+    priority: z.enum(['CRITICAL', 'HIGH', 'NORMAL', 'LOW']).optional(),
+    payload: z.record(z.any()).optional(),
+    fireAt: z.string().datetime().optional(), // Scheduled execution time (server clock)
+    // Owner-only: fire despite these failed interlock checks
+    overrides: z
+      .array(
+        z.object({
+          check: z.enum([
+            'TARGET_OFFLINE',
+            'TARGET_LOW_BATTERY',
+            'TARGET_STALE',
+            'GPS_STALE',
+            'POSITION_UNKNOWN',
+            'IN_AUDIENCE_ZONE',
+          ]),
+          justification: z.string().trim().min(10, 'Justification must be at least 10 characters'),
+        })
+      )
+      .optional(),
+  })
+  .superRefine((value, ctx) => checkMessageFields(ctx, 'payload', value.messageType, value.payload));
+
+const createBatchSchema = z
+  .object({
+    networkId: z.string(),
+    target: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('ALL') }),
+      z.object({ type: z.literal('DEVICES'), deviceIds: z.array(z.string()).min(1).max(500) }),
+      z.object({ type: z.literal('GROUP'), groupId: z.string() }),
+    ]),
+    messageType: messageTypeSchema,
+    priority: z.enum(['CRITICAL', 'HIGH', 'NORMAL', 'LOW']).optional(),
+    payload: z.record(z.any()).optional(),
+    fireAt: z.string().datetime().optional(),
+    mode: z.enum(['AUTO', 'FANOUT', 'BROADCAST']).default('AUTO'),
+  })
+  .superRefine((value, ctx) => checkMessageFields(ctx, 'payload', value.messageType, value.payload));
+
+const commandListQuerySchema = z.object({
+  status: z
+    .enum(['AWAITING_COSIGN', 'PENDING', 'PROCESSING', 'COMPLETED', 'FAILED', 'TIMEOUT', 'CANCELLED', 'ABORTED'])
+    .optional(),
+});
+
+const commandListInclude = {
+  targetDevice: true,
+  sourceDevice: true,
+  creator: {
+    select: { id: true, name: true, email: true },
+  },
+  audits: {
+    include: { user: { select: { id: true, name: true, email: true } } },
+    orderBy: { createdAt: 'asc' },
+  },
+} as const;
+
+const cancelCommandSchema = z.object({
+  reason: z.string().max(200).optional(),
+});
+
+const reprioritiseCommandSchema = z.object({
+  priority: z.enum(['CRITICAL', 'HIGH', 'NORMAL', 'LOW']),
 });
 
+/**
+ * Who may send (and therefore cancel or edit) a command of this type:
+ * IGNITE needs OWNER or COMMANDER permission, anything else needs access to the network.
+ * A COMMANDER limited to device groups may only fire into those groups, so
+ * `targetGroupIds` lists the group of every unit about to be fired.
+ */
+const checkCommandPermission = (
+  req: AuthRequest,
+  network: Network & { guests: GuestWithGroups[] },
+  messageType: MessageType,
+  targetGroupIds: (string | null)[]
+) => {
+  const isOwner = network.ownerId === req.user!.userId;
+  const guestAccess = network.guests.find(g => g.userId === req.user!.userId);
+  const isMegaAdmin = req.user!.role === 'MEGA_ADMIN';
+
+  if (isIgnitionCommand(messageType)) {
+    if (!isOwner && guestAccess?.permission !== 'COMMANDER' && !isMegaAdmin) {
+      return { isOwner, error: 'Insufficient permissions for IGNITE command' };
+    }
+    if (!isOwner && !isMegaAdmin) {
+      const scope = getGuestGroupScope(guestAccess);
+      if (targetGroupIds.some(groupId => !isInGroupScope(scope, groupId))) {
+        return { isOwner, error: 'IGNITE is limited to your assigned device groups' };
+      }
+    }
+  } else if (!isOwner && !guestAccess && !isMegaAdmin) {
+    return { isOwner, error: 'Access denied' };
+  }
+
+  return { isOwner, error: null };
+};
+
+/**
+ * Parse a requested fire-at time; returns an error message if it is outside the allowed scheduling range
+ */
+const parseFireAt = (fireAt: string | undefined): { fireAt?: Date; error?: string } => {
+  if (!fireAt) {
+    return {};
+  }
+
+  const { minLeadMs, maxAheadMs } = getSchedulePolicy();
+  const date = new Date(fireAt);
+  const aheadMs = date.getTime() - Date.now();
+  if (aheadMs < minLeadMs || aheadMs > maxAheadMs) {
+    return { error: `fireAt must be between ${minLeadMs}ms and ${maxAheadMs}ms from now` };
+  }
+  return { fireAt: date };
+};
+
+/**
+ * Load a command with its network and its target's group for cancel/edit
+ */
+const findCommandForUpdate = (commandId: string) => {
+  return prisma.command.findUnique({
+    where: { id: commandId },
+    include: {
+      network: { include: guestsWithGroups },
+      targetDevice: { select: { groupId: true } },
+    },
+  });
+};
+
 /**
  * Create a new command
  */
@@ -30,16 +168,19 @@ export const createCommand = async (req: AuthRequest, res: Response) => {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    const { targetDeviceId, messageType, priority, payload } = createCommandSchema.parse(req.body);
+    const { targetDeviceId, messageType, priority, payload, fireAt, overrides } = createCommandSchema.parse(req.body);
+
+    const { fireAt: fireAtDate, error: fireAtError } = parseFireAt(fireAt);
+    if (fireAtError) {
+      return res.status(400).json({ error: fireAtError, serverTime: new Date().toISOString() });
+    }
 
     // Get target device and verify access
     const targetDevice = await prisma.device.findUnique({
       where: { id: targetDeviceId },
       include: {
         network: {
-          include: {
-            guests: true,
-          },
+          include: guestsWithGroups,
         },
       },
     });
@@ -48,68 +189,392 @@ export const createCommand = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: 'Target device not found' });
     }
 
+    if (targetDevice.approval !== 'APPROVED') {
+      return res.status(400).json({ error: 'Target device is awaiting approval' });
+    }
+
     // Check permissions
-    const isOwner = targetDevice.network.ownerId === req.user.userId;
-    const guestAccess = targetDevice.network.guests.find(g => g.userId === req.user!.userId);
-    const isCommander = guestAccess?.permission === 'COMMANDER';
-
-    // IGNITE commands require OWNER or COMMANDER permission
-    if (messageType === 'MSG_TYPE_IGNITE' || messageType === 'MSG_TYPE_SET_R') {
-      if (!isOwner && !isCommander && req.user.role !== 'MEGA_ADMIN') {
-        return res.status(403).json({ error: 'Insufficient permissions for IGNITE command' });
+    const { isOwner, error: permissionError } = checkCommandPermission(req, targetDevice.network, messageType, [
+      targetDevice.groupId,
+    ]);
+    if (permissionError) {
+      return res.status(403).json({ error: permissionError });
+    }
+
+    if (overrides?.length && !isOwner && req.user.role !== 'MEGA_ADMIN') {
+      return res.status(403).json({ error: 'Only the network owner can override interlocks' });
+    }
+
+    if (isIgnitionCommand(messageType)) {
+      const stepUp = await checkStepUp(req);
+      if (!stepUp.ok) {
+        return res.status(stepUp.status).json({ error: stepUp.error, ...stepUp.details });
       }
-    } else {
-      // Other commands require at least VIEW_ONLY access
-      if (!isOwner && !guestAccess && req.user.role !== 'MEGA_ADMIN') {
-        return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const input = {
+      targetDevice,
+      messageType,
+      priority,
+      payload,
+      createdBy: req.user.userId,
+      fireAt: fireAtDate,
+      overrides,
+    };
+
+    if (isIgnitionCommand(messageType) && targetDevice.network.requireCosign) {
+      const userId = req.user.userId;
+      // A held command without its request would never be approved or expired
+      const held = await prisma.$transaction(async tx => {
+        const result = await enqueueCommand({ ...input, awaitingCosign: true, db: tx });
+        if (!result.ok) {
+          return result;
+        }
+
+        const { command } = result;
+        const request = await createCosignRequest(tx, {
+          networkId: command.networkId,
+          kind: 'IGNITE',
+          summary:
+            `${messageType} ${targetDevice.name || targetDevice.boardId} channel ${getPayloadChannel(command.payload)}` +
+            (command.fireAt ? ` at ${command.fireAt.toISOString()}` : ''),
+          requestedById: userId,
+          commandWhere: { id: command.id },
+        });
+        return { ...result, command: { ...command, cosignRequestId: request.id } };
+      });
+
+      if (!held.ok) {
+        return res.status(held.status).json({ error: held.error, ...held.details });
       }
+      return res.status(202).json(held.command);
     }
 
-    // Find a base station in the same network to send the command
-    const baseStation = await prisma.device.findFirst({
-      where: {
-        networkId: targetDevice.networkId,
-        deviceType: 'BASE_STATION',
-        status: 'ONLINE',
-      },
+    const result = await enqueueCommand(input);
+
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, ...result.details });
+    }
+
+    res.status(201).json(result.command);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Create command error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Send one command to every field unit in the network, in a device group or in a list
+ */
+export const createBatchCommand = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { networkId, target, messageType, priority, payload, fireAt, mode } = createBatchSchema.parse(req.body);
+
+    const { fireAt: fireAtDate, error: fireAtError } = parseFireAt(fireAt);
+    if (fireAtError) {
+      return res.status(400).json({ error: fireAtError, serverTime: new Date().toISOString() });
+    }
+
+    const network = await prisma.network.findUnique({
+      where: { id: networkId },
+      include: guestsWithGroups,
     });
 
-    if (!baseStation) {
-      return res.status(400).json({ error: 'No online base station available in this network' });
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
     }
 
-    // Determine priority
-    let commandPriority = priority || 'NORMAL';
-    if (messageType === 'MSG_TYPE_IGNITE' || messageType === 'MSG_TYPE_SET_R') {
-      commandPriority = 'CRITICAL';
+    // Group-limited commanders: every unit the batch would fire must be in scope
+    const targetGroupIds = isIgnitionCommand(messageType)
+      ? (await resolveBatchTargets(networkId, target)).devices.map(d => d.groupId)
+      : [];
+
+    const { error: permissionError } = checkCommandPermission(req, network, messageType, targetGroupIds);
+    if (permissionError) {
+      return res.status(403).json({ error: permissionError });
     }
 
-    // Generate a 5-character message ID
-    const messageId = Math.random().toString(36).substring(2, 7).toUpperCase();
+    if (isIgnitionCommand(messageType)) {
+      const stepUp = await checkStepUp(req);
+      if (!stepUp.ok) {
+        return res.status(stepUp.status).json({ error: stepUp.error, ...stepUp.details });
+      }
+    }
 
-    const command = await prisma.command.create({
-      data: {
-        networkId: targetDevice.networkId,
-        sourceDeviceId: baseStation.id,
-        targetDeviceId,
-        messageType,
-        priority: commandPriority,
-        payload,
-        messageId,
-        createdBy: req.user.userId,
-      },
-      include: {
-        targetDevice: true,
-        sourceDevice: true,
-      },
+    const awaitingCosign = isIgnitionCommand(messageType) && network.requireCosign;
+
+    const result = await createCommandBatch({
+      network,
+      target,
+      messageType,
+      priority,
+      payload,
+      fireAt: fireAtDate,
+      mode,
+      createdBy: req.user.userId,
+      awaitingCosign,
     });
 
-    res.status(201).json(command);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, ...result.details });
+    }
+
+    res.status(result.cosignRequestId ? 202 : 201).json(await getBatchReport(result.batch));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid input', details: error.errors });
     }
-    console.error('Create command error:', error);
+    console.error('Create batch command error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Get per-target results of a batch command
+ */
+export const getBatchCommand = async (req: AuthRequest, res: Response) => {
+  try {
+    const { batchId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const batch = await prisma.commandBatch.findUnique({
+      where: { id: batchId },
+      include: { network: { include: { guests: true } } },
+    });
+
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const { network, ...batchData } = batch;
+    const hasAccess =
+      req.user.role === 'MEGA_ADMIN' ||
+      network.ownerId === req.user.userId ||
+      network.guests.some(g => g.userId === req.user!.userId);
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    res.json(await getBatchReport(batchData));
+  } catch (error) {
+    console.error('Get batch command error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Cancel a command that no base station has picked up yet
+ */
+export const cancelCommand = async (req: AuthRequest, res: Response) => {
+  try {
+    const { commandId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { reason } = cancelCommandSchema.parse(req.body ?? {});
+    const command = await findCommandForUpdate(commandId);
+
+    if (!command) {
+      return res.status(404).json({ error: 'Command not found' });
+    }
+
+    const { error: permissionError } = checkCommandPermission(
+      req,
+      command.network,
+      command.messageType,
+      command.targetDevice ? [command.targetDevice.groupId] : []
+    );
+    if (permissionError) {
+      return res.status(403).json({ error: permissionError });
+    }
+
+    const now = new Date();
+    const cancelled = await prisma.$transaction(async tx => {
+      // Conditional on PENDING: a base station claiming it at the same moment wins
+      const count = await transitionCommands(
+        tx,
+        { id: commandId, status: 'PENDING' },
+        {
+          status: 'CANCELLED',
+          completedAt: now,
+          errorMessage: `Cancelled${reason ? `: ${reason}` : ''}`,
+        },
+        { actor: 'USER', userId: req.user!.userId }
+      );
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.commandAudit.create({
+        data: {
+          commandId,
+          networkId: command.networkId,
+          userId: req.user!.userId,
+          action: 'CANCELLED',
+          fromValue: 'PENDING',
+          toValue: 'CANCELLED',
+          reason,
+        },
+      });
+      return true;
+    });
+
+    if (!cancelled) {
+      const current = await prisma.command.findUnique({ where: { id: commandId }, select: { status: true } });
+      return res.status(409).json({
+        error: `Command is ${current?.status}, only PENDING commands can be cancelled`,
+        status: current?.status,
+      });
+    }
+
+    const updated = await prisma.command.findUnique({
+      where: { id: commandId },
+      include: commandListInclude,
+    });
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Cancel command error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Change the priority of a command that no base station has picked up yet.
+ * Ignition commands always stay CRITICAL.
+ */
+export const reprioritiseCommand = async (req: AuthRequest, res: Response) => {
+  try {
+    const { commandId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { priority } = reprioritiseCommandSchema.parse(req.body);
+    const command = await findCommandForUpdate(commandId);
+
+    if (!command) {
+      return res.status(404).json({ error: 'Command not found' });
+    }
+
+    const { error: permissionError } = checkCommandPermission(
+      req,
+      command.network,
+      command.messageType,
+      command.targetDevice ? [command.targetDevice.groupId] : []
+    );
+    if (permissionError) {
+      return res.status(403).json({ error: permissionError });
+    }
+
+    if (isIgnitionCommand(command.messageType)) {
+      return res.status(400).json({ error: 'Ignition commands are always CRITICAL' });
+    }
+
+    if (command.priority === priority) {
+      return res.status(400).json({ error: `Command is already ${priority}` });
+    }
+
+    const updated = await prisma.$transaction(async tx => {
+      const { count } = await tx.command.updateMany({
+        where: { id: commandId, status: 'PENDING', priority: command.priority },
+        data: { priority },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.commandAudit.create({
+        data: {
+          commandId,
+          networkId: command.networkId,
+          userId: req.user!.userId,
+          action: 'REPRIORITISED',
+          fromValue: command.priority,
+          toValue: priority,
+        },
+      });
+      return true;
+    });
+
+    if (!updated) {
+      return res.status(409).json({ error: 'Command is no longer PENDING or was changed meanwhile, reload and retry' });
+    }
+
+    // Re-check queue order for held long-polls
+    notifyCommandQueued(command.networkId);
+
+    const result = await prisma.command.findUnique({
+      where: { id: commandId },
+      include: commandListInclude,
+    });
+
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Reprioritise command error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Timeline of a command: every state change in order, with who or what caused it
+ */
+export const getCommandEvents = async (req: AuthRequest, res: Response) => {
+  try {
+    const { commandId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const command = await prisma.command.findUnique({
+      where: { id: commandId },
+      include: { network: { include: { guests: true } } },
+    });
+
+    if (!command) {
+      return res.status(404).json({ error: 'Command not found' });
+    }
+
+    const hasAccess =
+      req.user.role === 'MEGA_ADMIN' ||
+      command.network.ownerId === req.user.userId ||
+      command.network.guests.some(g => g.userId === req.user!.userId);
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const events = await prisma.commandEvent.findMany({
+      where: { commandId },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        baseStation: { select: { id: true, boardId: true, name: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(events);
+  } catch (error) {
+    console.error('Get command events error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
@@ -143,21 +608,20 @@ export const getCommands = async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    const { status } = commandListQuerySchema.parse(req.query);
+
     const commands = await prisma.command.findMany({
-      where: { networkId },
-      include: {
-        targetDevice: true,
-        sourceDevice: true,
-        creator: {
-          select: { id: true, name: true, email: true },
-        },
-      },
+      where: { networkId, status },
+      include: commandListInclude,
       orderBy: { createdAt: 'desc' },
       take: 100, // Limit to last 100 commands
     });
 
     res.json(commands);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
     console.error('Get commands error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -200,6 +664,14 @@ export const getTelemetry = async (req: AuthRequest, res: Response) => {
 
     const telemetry = await prisma.telemetry.findMany({
       where: { deviceId },
+      include: {
+        observations: {
+          include: {
+            baseStation: { select: { id: true, boardId: true, name: true } },
+          },
+          orderBy: { receivedAt: 'asc' },
+        },
+      },
       orderBy: { receivedAt: 'desc' },
       take: parseInt(limit as string),
     });
@@ -210,3 +682,14 @@ export const getTelemetry = async (req: AuthRequest, res: Response) => {
     res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+/**
+ * Payload and telemetry data fields of every message type, for building forms and displays
+ */
+export const getMessageTypes = async (req: AuthRequest, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+
+  res.json(MESSAGE_DEFINITIONS);
+};
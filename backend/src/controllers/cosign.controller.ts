@@ -0,0 +1,276 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import prisma from '../utils/prisma';
+import { isArmed } from '../utils/armState';
+import { canCosign, closeCosignRequest } from '../utils/cosign';
+import { markNetworkFiring } from '../utils/commandQueue';
+import { notifyCommandQueued } from '../utils/commandNotifier';
+import { getGuestGroupScope, guestsWithGroups, isInGroupScope } from '../utils/deviceGroups';
+import { beginShow, findCueTargetsOutsideScope, findSpentCueChannels } from '../utils/shows';
+import { checkStepUp } from '../utils/stepUp';
+import { transitionCommands } from '../utils/commandEvents';
+
+const cosignListQuerySchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'DENIED', 'EXPIRED', 'CANCELLED']).optional(),
+});
+
+const denySchema = z.object({
+  reason: z.string().max(200).optional(),
+});
+
+const cosignInclude = {
+  requestedBy: { select: { id: true, name: true, email: true } },
+  decidedBy: { select: { id: true, name: true, email: true } },
+  show: { select: { id: true, name: true, status: true } },
+  commands: {
+    select: {
+      id: true,
+      messageType: true,
+      payload: true,
+      fireAt: true,
+      status: true,
+      targetDevice: { select: { id: true, boardId: true, name: true, groupId: true } },
+    },
+  },
+} as const;
+
+/**
+ * Load a co-sign request with its network and the user's part in it
+ */
+const loadCosignRequest = async (req: AuthRequest, requestId: string) => {
+  const request = await prisma.cosignRequest.findUnique({
+    where: { id: requestId },
+    include: { ...cosignInclude, network: { include: guestsWithGroups } },
+  });
+
+  if (!request) {
+    return { request: null, canApprove: false, isRequester: false, groupScope: null };
+  }
+
+  const { network } = request;
+  const isOwner = req.user!.role === 'MEGA_ADMIN' || network.ownerId === req.user!.userId;
+  const guest = network.guests.find(g => g.userId === req.user!.userId);
+
+  return {
+    request,
+    canApprove: canCosign(network, req.user!),
+    isRequester: request.requestedById === req.user!.userId,
+    groupScope: isOwner ? null : getGuestGroupScope(guest),
+  };
+};
+
+/**
+ * Get the co-sign requests of a network, pending ones by default
+ */
+export const getCosignRequests = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { status } = cosignListQuerySchema.parse(req.query);
+
+    const network = await prisma.network.findUnique({
+      where: { id: networkId },
+      include: { guests: true },
+    });
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    const hasAccess =
+      req.user.role === 'MEGA_ADMIN' ||
+      network.ownerId === req.user.userId ||
+      network.guests.some(g => g.userId === req.user!.userId);
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const requests = await prisma.cosignRequest.findMany({
+      where: { networkId, status: status ?? 'PENDING' },
+      include: cosignInclude,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    res.json(requests);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Get co-sign requests error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Approve a pending request as the second person: held ignitions enter the dispatch
+ * queue, a held show starts with T0 now. The network must still be armed, and a
+ * group-limited approver may only release units in their groups.
+ */
+export const approveCosignRequest = async (req: AuthRequest, res: Response) => {
+  try {
+    const { requestId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { request, canApprove, isRequester, groupScope } = await loadCosignRequest(req, requestId);
+
+    if (!request) {
+      return res.status(404).json({ error: 'Co-sign request not found' });
+    }
+
+    if (!canApprove) {
+      return res.status(403).json({ error: 'Only the owner or a COMMANDER can co-sign' });
+    }
+
+    if (isRequester) {
+      return res.status(403).json({ error: 'A second person must approve this request' });
+    }
+
+    if (request.status !== 'PENDING') {
+      return res.status(409).json({ error: `Request is already ${request.status}` });
+    }
+
+    const now = new Date();
+    if (request.expiresAt <= now) {
+      return res.status(409).json({ error: 'Co-sign window has expired' });
+    }
+
+    if (!isArmed(request.network.armState)) {
+      return res.status(409).json({
+        error: 'Network must be ARMED to approve',
+        armState: request.network.armState,
+      });
+    }
+
+    const outOfScope =
+      request.kind === 'SHOW_START'
+        ? await findCueTargetsOutsideScope(request.showId!, groupScope)
+        : request.commands
+            .filter(c => c.targetDevice && !isInGroupScope(groupScope, c.targetDevice.groupId))
+            .map(c => c.targetDevice!.id);
+    if (outOfScope.length > 0) {
+      return res.status(403).json({ error: 'Request fires units outside your assigned device groups', deviceIds: outOfScope });
+    }
+
+    if (request.kind === 'SHOW_START') {
+      const spentChannels = await findSpentCueChannels({ showId: request.showId! });
+      if (spentChannels.length > 0) {
+        return res.status(409).json({ error: 'Some cue channels have already fired, reload them first', spentChannels });
+      }
+    }
+
+    const stepUp = await checkStepUp(req);
+    if (!stepUp.ok) {
+      return res.status(stepUp.status).json({ error: stepUp.error, ...stepUp.details });
+    }
+
+    const userId = req.user.userId;
+    const lastFireAt = request.commands.reduce<Date | null>(
+      (latest, c) => (c.fireAt && (!latest || c.fireAt > latest) ? c.fireAt : latest),
+      null
+    );
+
+    const outcome = await prisma.$transaction(async tx => {
+      if (request.kind === 'IGNITE') {
+        const firing = await markNetworkFiring(tx, request.networkId, userId, `Co-signed: ${request.summary}`, lastFireAt);
+        if (!firing) {
+          return 'NOT_ARMED';
+        }
+      }
+
+      const { count } = await tx.cosignRequest.updateMany({
+        where: { id: requestId, status: 'PENDING', expiresAt: { gt: now } },
+        data: { status: 'APPROVED', decidedById: userId, decidedAt: now },
+      });
+
+      if (count === 0) {
+        return 'NOT_PENDING';
+      }
+
+      if (request.kind === 'IGNITE') {
+        // The ignition window starts now, not when the command was requested
+        await transitionCommands(
+          tx,
+          { cosignRequestId: requestId, status: 'AWAITING_COSIGN' },
+          { status: 'PENDING', queuedAt: now },
+          { actor: 'USER', userId, message: 'Co-signed' }
+        );
+      } else {
+        // Cues are queued on behalf of the person who asked for the start
+        await beginShow(tx, request.showId!, ['AWAITING_COSIGN'], request.requestedById);
+      }
+
+      return 'APPROVED';
+    });
+
+    if (outcome === 'NOT_ARMED') {
+      return res.status(409).json({ error: 'Network was disarmed, nothing released' });
+    }
+
+    if (outcome === 'NOT_PENDING') {
+      return res.status(409).json({ error: 'Request was decided or expired meanwhile' });
+    }
+
+    if (request.kind === 'IGNITE') {
+      notifyCommandQueued(request.networkId);
+    }
+
+    const updated = await prisma.cosignRequest.findUnique({ where: { id: requestId }, include: cosignInclude });
+    res.json(updated);
+  } catch (error) {
+    console.error('Approve co-sign request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Deny a pending request, or withdraw it as the requester. Held ignitions are
+ * cancelled and a held show goes back to DRAFT.
+ */
+export const denyCosignRequest = async (req: AuthRequest, res: Response) => {
+  try {
+    const { requestId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { reason } = denySchema.parse(req.body ?? {});
+    const { request, canApprove, isRequester } = await loadCosignRequest(req, requestId);
+
+    if (!request) {
+      return res.status(404).json({ error: 'Co-sign request not found' });
+    }
+
+    if (!canApprove && !isRequester) {
+      return res.status(403).json({ error: 'Only the owner or a COMMANDER can deny co-sign requests' });
+    }
+
+    const message = isRequester
+      ? `Withdrawn by requester${reason ? `: ${reason}` : ''}`
+      : `Co-sign denied${reason ? `: ${reason}` : ''}`;
+
+    const closed = await prisma.$transaction(tx =>
+      closeCosignRequest(tx, requestId, 'DENIED', message, req.user!.userId)
+    );
+
+    if (!closed) {
+      return res.status(409).json({ error: `Request is already ${request.status}` });
+    }
+
+    const updated = await prisma.cosignRequest.findUnique({ where: { id: requestId }, include: cosignInclude });
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Deny co-sign request error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -2,6 +2,15 @@ import { Response } from 'express';
 import { z } from 'zod';
 import { AuthRequest } from '../middleware/auth';
 import prisma from '../utils/prisma';
+import { generateGatewaySecret } from '../utils/gatewaySignature';
+import { MAX_CHANNELS, getChannelGrid } from '../utils/deviceChannels';
+
+// Credential metadata that is safe to return (never the secret itself)
+const gatewayCredentialStatus = {
+  select: { issuedAt: true, revokedAt: true, lastUsedAt: true },
+};
+
+const linkedDeviceSummary = { id: true, boardId: true, name: true, status: true };
 
 const registerDeviceSchema = z.object({
   boardId: z.string().length(12),
@@ -9,9 +18,28 @@ const registerDeviceSchema = z.object({
   name: z.string().optional(),
 });
 
+const approveDeviceSchema = z.object({
+  name: z.string().min(1),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  altitude: z.number().optional(),
+});
+
+const rejectDeviceSchema = z.object({
+  block: z.boolean().optional(),
+  reason: z.string().max(500).optional(),
+});
+
 const updateDeviceSchema = z.object({
   name: z.string().optional(),
   status: z.enum(['ONLINE', 'OFFLINE', 'DISCOVERED', 'LOW_BATTERY']).optional(),
+  channelCount: z.number().int().min(1).max(MAX_CHANNELS).optional(), // Field units only
+});
+
+const updateChannelSchema = z.object({
+  label: z.string().trim().max(50).nullable().optional(),
+  load: z.string().trim().max(200).nullable().optional(),
+  reloaded: z.literal(true).optional(), // Clears the fired state and continuity result after the channel has been re-wired
 });
 
 /**
@@ -47,6 +75,7 @@ export const getDevices = async (req: AuthRequest, res: Response) => {
 
     const devices = await prisma.device.findMany({
       where: { networkId },
+      include: { gatewayCredential: gatewayCredentialStatus },
       orderBy: { createdAt: 'desc' },
     });
 
@@ -91,6 +120,9 @@ export const registerDevice = async (req: AuthRequest, res: Response) => {
       return res.status(409).json({ error: 'Device already registered' });
     }
 
+    // Base stations get an HMAC secret for the gateway API; it is only shown in this response
+    const gatewaySecret = deviceType === 'BASE_STATION' ? generateGatewaySecret() : undefined;
+
     const device = await prisma.device.create({
       data: {
         boardId,
@@ -98,10 +130,16 @@ export const registerDevice = async (req: AuthRequest, res: Response) => {
         networkId,
         name,
         status: 'OFFLINE',
+        ...(gatewaySecret && {
+          gatewayCredential: {
+            create: { secret: gatewaySecret },
+          },
+        }),
       },
+      include: { gatewayCredential: gatewayCredentialStatus },
     });
 
-    res.status(201).json(device);
+    res.status(201).json({ ...device, gatewaySecret });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid input', details: error.errors });
@@ -141,10 +179,20 @@ export const updateDevice = async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    const updated = await prisma.device.update({
-      where: { id: deviceId },
-      data: updateData,
-    });
+    if (updateData.channelCount !== undefined && device.deviceType !== 'FIELD_UNIT') {
+      return res.status(400).json({ error: 'Only field units have relay channels' });
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.device.update({
+        where: { id: deviceId },
+        data: updateData,
+      }),
+      // Forget labels and fired state of channels the unit no longer has
+      prisma.deviceChannel.deleteMany({
+        where: { deviceId, number: { gt: updateData.channelCount ?? MAX_CHANNELS } },
+      }),
+    ]);
 
     res.json(updated);
   } catch (error) {
@@ -174,6 +222,15 @@ export const getDevice = async (req: AuthRequest, res: Response) => {
             guests: true,
           },
         },
+        gatewayCredential: gatewayCredentialStatus,
+        heardByStations: {
+          include: { baseStation: { select: linkedDeviceSummary } },
+          orderBy: { lastHeardAt: 'desc' },
+        },
+        heardFieldUnits: {
+          include: { fieldUnit: { select: linkedDeviceSummary } },
+          orderBy: { lastHeardAt: 'desc' },
+        },
       },
     });
 
@@ -197,3 +254,420 @@ export const getDevice = async (req: AuthRequest, res: Response) => {
     res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+/**
+ * Get the relay channel grid of a field unit: label, load and fired state of every channel
+ */
+export const getDeviceChannels = async (req: AuthRequest, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id: deviceId },
+      include: { network: { include: { guests: true } } },
+    });
+
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    const hasAccess =
+      req.user.role === 'MEGA_ADMIN' ||
+      device.network.ownerId === req.user.userId ||
+      device.network.guests.some(g => g.userId === req.user!.userId);
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    res.json({ deviceId, channelCount: device.channelCount, channels: await getChannelGrid(device) });
+  } catch (error) {
+    console.error('Get device channels error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Label a relay channel, record what is loaded on it, or mark it reloaded after firing.
+ * Loading is crew work, so COMMANDER guests may do it as well as the owner.
+ */
+export const updateDeviceChannel = async (req: AuthRequest, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { label, load, reloaded } = updateChannelSchema.parse(req.body);
+    const number = parseInt(req.params.channel);
+
+    const device = await prisma.device.findUnique({
+      where: { id: deviceId },
+      include: { network: { include: { guests: true } } },
+    });
+
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    const canLoad =
+      req.user.role === 'MEGA_ADMIN' ||
+      device.network.ownerId === req.user.userId ||
+      device.network.guests.some(g => g.userId === req.user!.userId && g.permission === 'COMMANDER');
+
+    if (!canLoad) {
+      return res.status(403).json({ error: 'Insufficient permissions to change channels' });
+    }
+
+    if (device.deviceType !== 'FIELD_UNIT') {
+      return res.status(400).json({ error: 'Only field units have relay channels' });
+    }
+
+    if (!Number.isInteger(number) || number < 1 || number > device.channelCount) {
+      return res.status(400).json({ error: `Channel must be between 1 and ${device.channelCount}` });
+    }
+
+    await prisma.deviceChannel.upsert({
+      where: { deviceId_number: { deviceId, number } },
+      create: { deviceId, number, label, load },
+      update: {
+        label,
+        load,
+        ...(reloaded && { firedAt: null, firedCommandId: null, continuityOk: null, continuityTestedAt: null }),
+      },
+    });
+
+    res.json({ deviceId, channelCount: device.channelCount, channels: await getChannelGrid(device) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Update device channel error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Issue a new gateway secret for a base station, replacing (and re-enabling) any previous one
+ */
+export const rotateGatewayCredentials = async (req: AuthRequest, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id: deviceId },
+      include: { network: true },
+    });
+
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    if (device.network.ownerId !== req.user.userId && req.user.role !== 'MEGA_ADMIN') {
+      return res.status(403).json({ error: 'Only the owner can manage gateway credentials' });
+    }
+
+    if (device.deviceType !== 'BASE_STATION') {
+      return res.status(400).json({ error: 'Gateway credentials are only issued to base stations' });
+    }
+
+    const gatewaySecret = generateGatewaySecret();
+    const issuedAt = new Date();
+
+    const credential = await prisma.gatewayCredential.upsert({
+      where: { deviceId },
+      create: { deviceId, secret: gatewaySecret, issuedAt },
+      update: { secret: gatewaySecret, issuedAt, revokedAt: null, lastUsedAt: null },
+      select: gatewayCredentialStatus.select,
+    });
+
+    res.json({ deviceId, gatewaySecret, ...credential });
+  } catch (error) {
+    console.error('Rotate gateway credentials error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Revoke a base station's gateway secret; its requests are rejected until a new one is issued
+ */
+export const revokeGatewayCredentials = async (req: AuthRequest, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id: deviceId },
+      include: { network: true, gatewayCredential: true },
+    });
+
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    if (device.network.ownerId !== req.user.userId && req.user.role !== 'MEGA_ADMIN') {
+      return res.status(403).json({ error: 'Only the owner can manage gateway credentials' });
+    }
+
+    if (!device.gatewayCredential) {
+      return res.status(404).json({ error: 'No gateway credentials issued for this device' });
+    }
+
+    const credential = await prisma.gatewayCredential.update({
+      where: { deviceId },
+      data: { revokedAt: new Date() },
+      select: gatewayCredentialStatus.select,
+    });
+
+    res.json({ deviceId, ...credential });
+  } catch (error) {
+    console.error('Revoke gateway credentials error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Get auto-discovered devices waiting for approval in a network,
+ * with the first telemetry they sent and the base stations that heard them
+ */
+export const getDiscoveries = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const network = await prisma.network.findUnique({
+      where: { id: networkId },
+      include: { guests: true },
+    });
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    const hasAccess =
+      req.user.role === 'MEGA_ADMIN' ||
+      network.ownerId === req.user.userId ||
+      network.guests.some(g => g.userId === req.user!.userId);
+
+    if (!hasAccess) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const discoveries = await prisma.device.findMany({
+      where: { networkId, approval: 'PENDING' },
+      include: {
+        telemetry: {
+          orderBy: { receivedAt: 'asc' },
+          take: 1,
+        },
+        heardByStations: {
+          include: { baseStation: { select: linkedDeviceSummary } },
+          orderBy: { lastHeardAt: 'desc' },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(
+      discoveries.map(({ telemetry, ...device }) => ({
+        ...device,
+        firstTelemetry: telemetry[0] ?? null,
+      }))
+    );
+  } catch (error) {
+    console.error('Get discoveries error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Approve (claim) a discovered device, assigning its name and position
+ */
+export const approveDevice = async (req: AuthRequest, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { name, latitude, longitude, altitude } = approveDeviceSchema.parse(req.body);
+
+    const device = await prisma.device.findUnique({
+      where: { id: deviceId },
+      include: { network: true },
+    });
+
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    if (device.network.ownerId !== req.user.userId && req.user.role !== 'MEGA_ADMIN') {
+      return res.status(403).json({ error: 'Only the owner can approve devices' });
+    }
+
+    if (device.approval !== 'PENDING') {
+      return res.status(400).json({ error: 'Device is not awaiting approval' });
+    }
+
+    const updated = await prisma.device.update({
+      where: { id: deviceId },
+      data: {
+        name,
+        approval: 'APPROVED',
+        approvedAt: new Date(),
+        status: device.lastSeen ? 'ONLINE' : 'OFFLINE',
+        ...(latitude !== undefined && { latitude }),
+        ...(longitude !== undefined && { longitude }),
+        ...(altitude !== undefined && { altitude }),
+      },
+    });
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Approve device error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Reject a discovered device. With `block: true` its boardId is also blocked in
+ * the network so it is not discovered again.
+ */
+export const rejectDevice = async (req: AuthRequest, res: Response) => {
+  try {
+    const { deviceId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { block, reason } = rejectDeviceSchema.parse(req.body);
+
+    const device = await prisma.device.findUnique({
+      where: { id: deviceId },
+      include: { network: true },
+    });
+
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    if (device.network.ownerId !== req.user.userId && req.user.role !== 'MEGA_ADMIN') {
+      return res.status(403).json({ error: 'Only the owner can reject devices' });
+    }
+
+    if (device.approval !== 'PENDING') {
+      return res.status(400).json({ error: 'Device is not awaiting approval' });
+    }
+
+    await prisma.$transaction([
+      ...(block
+        ? [
+            prisma.blockedBoard.upsert({
+              where: { networkId_boardId: { networkId: device.networkId, boardId: device.boardId } },
+              create: {
+                networkId: device.networkId,
+                boardId: device.boardId,
+                reason,
+                blockedById: req.user.userId,
+              },
+              update: { reason, blockedById: req.user.userId },
+            }),
+          ]
+        : []),
+      prisma.device.delete({ where: { id: deviceId } }),
+    ]);
+
+    res.status(204).send();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Reject device error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Get blocked board IDs for a network
+ */
+export const getBlockedBoards = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const network = await prisma.network.findUnique({
+      where: { id: networkId },
+    });
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (network.ownerId !== req.user.userId && req.user.role !== 'MEGA_ADMIN') {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const blocked = await prisma.blockedBoard.findMany({
+      where: { networkId },
+      include: {
+        blockedBy: {
+          select: { id: true, name: true, email: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json(blocked);
+  } catch (error) {
+    console.error('Get blocked boards error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Unblock a board ID so it can be discovered again
+ */
+export const unblockBoard = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId, blockedId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const network = await prisma.network.findUnique({
+      where: { id: networkId },
+    });
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (network.ownerId !== req.user.userId && req.user.role !== 'MEGA_ADMIN') {
+      return res.status(403).json({ error: 'Only the owner can unblock devices' });
+    }
+
+    await prisma.blockedBoard.deleteMany({
+      where: { id: blockedId, networkId },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Unblock board error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
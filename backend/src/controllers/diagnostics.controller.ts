@@ -0,0 +1,192 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import prisma from '../utils/prisma';
+import { loadNetworkWithAccess } from '../utils/networkAccess';
+
+const MIN_INTERVAL_SECONDS = 30;
+const MAX_INTERVAL_SECONDS = 24 * 60 * 60;
+
+const scheduleSchema = z.object({
+  messageType: z.enum(['MSG_TYPE_PING', 'MSG_TYPE_BATT', 'MSG_TYPE_GPS', 'MSG_TYPE_CONT']), // Never ignition
+  intervalSeconds: z.number().int().min(MIN_INTERVAL_SECONDS).max(MAX_INTERVAL_SECONDS),
+  priority: z.enum(['LOW', 'NORMAL']).default('LOW'),
+  groupId: z.string().nullable().default(null), // null targets every approved field unit
+  enabled: z.boolean().default(true),
+});
+
+const updateScheduleSchema = z
+  .object({
+    intervalSeconds: z.number().int().min(MIN_INTERVAL_SECONDS).max(MAX_INTERVAL_SECONDS).optional(),
+    priority: z.enum(['LOW', 'NORMAL']).optional(),
+    groupId: z.string().nullable().optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine(data => Object.values(data).some(value => value !== undefined), 'Nothing to update');
+
+const scheduleInclude = {
+  group: { select: { id: true, name: true, color: true } },
+  createdBy: { select: { id: true, name: true, email: true } },
+} as const;
+
+const isGroupInNetwork = async (networkId: string, groupId: string) => {
+  const group = await prisma.deviceGroup.findFirst({ where: { id: groupId, networkId }, select: { id: true } });
+  return !!group;
+};
+
+/**
+ * Get the diagnostic schedules of a network
+ */
+export const getDiagnosticSchedules = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { network, canView } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!canView) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const schedules = await prisma.diagnosticSchedule.findMany({
+      where: { networkId },
+      include: scheduleInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(schedules);
+  } catch (error) {
+    console.error('Get diagnostic schedules error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Create a diagnostic schedule (owner only). The first round is queued on the next worker tick.
+ */
+export const createDiagnosticSchedule = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const data = scheduleSchema.parse(req.body);
+    const { network, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the owner can manage diagnostic schedules' });
+    }
+
+    if (data.groupId && !(await isGroupInNetwork(networkId, data.groupId))) {
+      return res.status(400).json({ error: 'Device group not found in this network' });
+    }
+
+    const schedule = await prisma.diagnosticSchedule.create({
+      data: { ...data, networkId, createdById: req.user.userId },
+      include: scheduleInclude,
+    });
+
+    res.status(201).json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Create diagnostic schedule error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Change the interval, priority, target group or enabled state of a schedule (owner only)
+ */
+export const updateDiagnosticSchedule = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId, scheduleId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const updateData = updateScheduleSchema.parse(req.body);
+    const { network, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the owner can manage diagnostic schedules' });
+    }
+
+    if (updateData.groupId && !(await isGroupInNetwork(networkId, updateData.groupId))) {
+      return res.status(400).json({ error: 'Device group not found in this network' });
+    }
+
+    const { count } = await prisma.diagnosticSchedule.updateMany({
+      where: { id: scheduleId, networkId },
+      data: updateData,
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Diagnostic schedule not found' });
+    }
+
+    const schedule = await prisma.diagnosticSchedule.findUnique({
+      where: { id: scheduleId },
+      include: scheduleInclude,
+    });
+
+    res.json(schedule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Update diagnostic schedule error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Delete a diagnostic schedule (owner only). Commands it already queued are left alone.
+ */
+export const deleteDiagnosticSchedule = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId, scheduleId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { network, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the owner can manage diagnostic schedules' });
+    }
+
+    const { count } = await prisma.diagnosticSchedule.deleteMany({
+      where: { id: scheduleId, networkId },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Diagnostic schedule not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete diagnostic schedule error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,12 +1,37 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
+import { Device, Prisma, Telemetry } from '@prisma/client';
 import { z } from 'zod';
+import { GatewayRequest } from '../middleware/gatewayAuth';
 import prisma from '../utils/prisma';
+import { waitForCommand } from '../utils/commandNotifier';
+import { claimNextCommand, getNextScheduledDispatchAt } from '../utils/commandDispatch';
+import { getRequestTypesAnsweredBy } from '../utils/commandPolicy';
+import { nextClockOffset } from '../utils/clockSync';
+import { markChannelFired, recordContinuityResults } from '../utils/deviceChannels';
+import { recordCommandEvent, transitionCommands } from '../utils/commandEvents';
+import { checkMessageFields } from '../utils/messageSchemas';
 
 const pollSchema = z.object({
-  boardId: z.string().length(12), // 12-digit base station ID
+  boardId: z.string().length(12).optional(), // 12-digit base station ID (legacy, must match X-Board-Id)
+  clientTime: z.coerce.number().int().positive().optional(), // Base station clock (epoch ms) when the request was sent
+  capabilities: z.string().max(200).optional(), // Comma-separated firmware features, e.g. LORA_BROADCAST
 });
 
-const telemetrySchema = z.object({
+const timeSchema = z.object({
+  t0: z.coerce.number().int().nonnegative().optional(), // Client clock (epoch ms) when the request was sent
+});
+
+const ackSchema = z.object({
+  commandId: z.string(),
+  success: z.boolean(),
+  responseData: z.record(z.any()).optional(),
+});
+
+const stopAckSchema = z.object({
+  stopRequestedAt: z.string().datetime().optional(), // Echo of the STOP instruction being confirmed
+});
+
+const telemetryFieldsSchema = z.object({
   boardId: z.string().length(12), // Source device ID
   messageType: z.enum([
     'MSG_TYPE_POSA',
@@ -18,6 +43,7 @@ const telemetrySchema = z.object({
     'MSG_TYPE_SET_R',
     'MSG_TYPE_RES_ID',
     'MSG_TYPE_MSG',
+    'MSG_TYPE_CONT',
   ]),
   messageId: z.string().length(5).optional(),
   data: z.record(z.any()).optional(),
@@ -27,84 +53,129 @@ const telemetrySchema = z.object({
   batteryVoltage: z.number().optional(),
   rssi: z.number().optional(),
   snr: z.number().optional(),
+  deviceTime: z.number().int().positive().optional(), // Field unit clock (epoch ms) when the packet was sent
+});
+
+// `data` has to match the telemetry fields of its message type
+const telemetrySchema = telemetryFieldsSchema.superRefine((value, ctx) =>
+  checkMessageFields(ctx, 'data', value.messageType, value.data)
+);
+
+const MAX_BATCH_SIZE = 100;
+const MAX_BATCH_FUTURE_SKEW_MS = 5 * 60 * 1000;
+
+// Batch records are checked individually so one bad message doesn't reject the whole buffer
+const telemetryBatchSchema = z.object({
+  records: z.array(z.unknown()).min(1).max(MAX_BATCH_SIZE),
+});
+
+const batchRecordSchema = telemetryFieldsSchema
+  .extend({
+    receivedAt: z.string().datetime().optional(), // When the base station originally heard the message
+  })
+  .superRefine((value, ctx) => checkMessageFields(ctx, 'data', value.messageType, value.data));
+
+type TelemetryBatchItemResult =
+  | { index: number; success: true; deviceId: string; telemetryId: string; duplicate: boolean }
+  | { index: number; success: false; error: string; details?: z.ZodIssue[] };
+
+const DEFAULT_LONG_POLL_TIMEOUT_SECONDS = 25;
+const MAX_LONG_POLL_TIMEOUT_SECONDS = 25; // Stay below BASE_STATION_OFFLINE_AFTER_MS
+const LONG_POLL_RECHECK_MS = 5000; // Catches commands queued by other server instances
+
+const longPollSchema = pollSchema.extend({
+  timeout: z.coerce.number().int().min(1).max(MAX_LONG_POLL_TIMEOUT_SECONDS).optional(), // Seconds to hold the request
 });
 
+type DispatchedCommand = {
+  commandId: string;
+  targetBoardId: string | undefined;
+  messageType: string;
+  messageId: string | null;
+  payload: Prisma.JsonValue;
+  fireAt: number | null; // Epoch ms (server clock) to execute at, also in payload.fireAt
+};
+
+// Sent instead of commands until the base station confirms it via /gateway/stop/ack
+type StopInstruction = {
+  instruction: 'STOP';
+  stopRequestedAt: Date;
+};
+
+const parseCapabilities = (capabilities: string) => {
+  return [...new Set(capabilities.split(',').map(c => c.trim().toUpperCase()).filter(Boolean))];
+};
+
+const markPolled = async (
+  baseStation: Device,
+  { clientTime, capabilities }: { clientTime?: number; capabilities?: string } = {}
+) => {
+  const now = new Date();
+  return prisma.device.update({
+    where: { id: baseStation.id },
+    data: {
+      lastPolled: now,
+      lastSeen: now,
+      status: 'ONLINE',
+      ...(clientTime !== undefined && nextClockOffset(baseStation, clientTime - now.getTime(), now)),
+      ...(capabilities !== undefined && { capabilities: parseCapabilities(capabilities) }),
+    },
+  });
+};
+
+/**
+ * Hand the next dispatchable command to the base station and mark it PROCESSING.
+ * A pending emergency stop takes precedence over everything else.
+ */
+const dispatchNextCommand = async (baseStation: Device): Promise<DispatchedCommand | StopInstruction | null> => {
+  if (baseStation.stopRequestedAt) {
+    return { instruction: 'STOP', stopRequestedAt: baseStation.stopRequestedAt };
+  }
+
+  const command = await claimNextCommand(prisma, baseStation);
+
+  if (!command) {
+    return null;
+  }
+
+  const fireAt = command.fireAt ? command.fireAt.getTime() : null;
+
+  return {
+    commandId: command.id,
+    targetBoardId: command.targetDevice?.boardId,
+    messageType: command.messageType,
+    messageId: command.messageId,
+    payload: fireAt !== null ? { ...(command.payload as Prisma.JsonObject | null), fireAt } : command.payload,
+    fireAt,
+  };
+};
+
 /**
  * Polling endpoint for Base Stations
  * GET /api/gateway/poll?boardId=123456789012
  */
-export const poll = async (req: Request, res: Response) => {
+export const poll = async (req: GatewayRequest, res: Response) => {
   try {
-    const { boardId } = pollSchema.parse(req.query);
+    const { boardId, clientTime, capabilities } = pollSchema.parse(req.query);
 
-    // Find the base station
-    const baseStation = await prisma.device.findFirst({
-      where: {
-        boardId,
-        deviceType: 'BASE_STATION',
-      },
-      include: {
-        network: true,
-      },
-    });
+    // Base station is resolved by authenticateGateway
+    const baseStation = req.baseStation!;
 
-    if (!baseStation) {
-      return res.status(404).json({ error: 'Base station not registered' });
+    if (boardId && boardId !== baseStation.boardId) {
+      return res.status(403).json({ error: 'boardId does not match signed base station', code: 'BOARD_MISMATCH' });
     }
 
-    // Update last polled timestamp and status
-    await prisma.device.update({
-      where: { id: baseStation.id },
-      data: {
-        lastPolled: new Date(),
-        lastSeen: new Date(),
-        status: 'ONLINE',
-      },
-    });
+    const polledStation = await markPolled(baseStation, { clientTime, capabilities });
 
-    // Find pending commands for this network
-    // Priority: CRITICAL > HIGH > NORMAL > LOW
-    // Send only ONE command per poll to prevent LoRa congestion
-    const pendingCommand = await prisma.command.findFirst({
-      where: {
-        networkId: baseStation.networkId,
-        status: 'PENDING',
-        OR: [
-          { sourceDeviceId: baseStation.id },
-          { sourceDeviceId: null }, // Broadcast commands
-        ],
-      },
-      orderBy: [
-        { priority: 'desc' },
-        { createdAt: 'asc' },
-      ],
-      include: {
-        targetDevice: true,
-      },
-    });
+    const command = await dispatchNextCommand(polledStation);
 
-    if (!pendingCommand) {
+    if (!command) {
       // No commands pending - return 204 No Content to save bandwidth
       return res.status(204).send();
     }
 
-    // Mark command as processing
-    await prisma.command.update({
-      where: { id: pendingCommand.id },
-      data: {
-        status: 'PROCESSING',
-        dispatchedAt: new Date(),
-      },
-    });
-
     // Return command to base station
-    res.json({
-      commandId: pendingCommand.id,
-      targetBoardId: pendingCommand.targetDevice?.boardId,
-      messageType: pendingCommand.messageType,
-      messageId: pendingCommand.messageId,
-      payload: pendingCommand.payload,
-    });
+    res.json(command);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid input', details: error.errors });
@@ -115,97 +186,380 @@ export const poll = async (req: Request, res: Response) => {
 };
 
 /**
- * Telemetry endpoint for Base Stations to POST received LoRa data
- * POST /api/gateway/telemetry
+ * Long-poll endpoint for Base Stations: the request is held open until a
+ * command is queued for this base station or the timeout elapses
+ * GET /api/gateway/poll/wait?timeout=25
  */
-export const receiveTelemetry = async (req: Request, res: Response) => {
+export const waitForCommands = async (req: GatewayRequest, res: Response) => {
   try {
-    const telemetryData = telemetrySchema.parse(req.body);
+    const { boardId, clientTime, capabilities, timeout } = longPollSchema.parse(req.query);
+    const baseStation = req.baseStation!;
+
+    if (boardId && boardId !== baseStation.boardId) {
+      return res.status(403).json({ error: 'boardId does not match signed base station', code: 'BOARD_MISMATCH' });
+    }
+
+    const deadline = Date.now() + (timeout ?? DEFAULT_LONG_POLL_TIMEOUT_SECONDS) * 1000;
 
-    // Find the device by boardId
-    let device = await prisma.device.findUnique({
-      where: { boardId: telemetryData.boardId },
-      include: { network: true },
+    let closed = false;
+    let pendingWait: { cancel: () => void } | null = null;
+    res.on('close', () => {
+      closed = true;
+      pendingWait?.cancel();
     });
 
-    // Auto-discovery: If device doesn't exist, create it
-    if (!device) {
-      // Find a base station in any network to associate this new field unit
-      // In production, you might want to associate it with the base station that received the signal
-      const anyBaseStation = await prisma.device.findFirst({
-        where: { deviceType: 'BASE_STATION' },
-        include: { network: true },
-      });
+    let firstPass = true;
+    while (!closed) {
+      // Keeps the station ONLINE for the health worker while the request is held
+      const polledStation = await markPolled(baseStation, firstPass ? { clientTime, capabilities } : {});
+      firstPass = false;
 
-      if (!anyBaseStation) {
-        return res.status(400).json({ error: 'No base station available for auto-discovery' });
+      const command = await dispatchNextCommand(polledStation);
+      if (command) {
+        // If the connection dropped meanwhile the ack timeout puts the command back in the queue
+        return res.json(command);
       }
 
-      device = await prisma.device.create({
-        data: {
-          boardId: telemetryData.boardId,
-          deviceType: 'FIELD_UNIT',
-          networkId: anyBaseStation.networkId,
-          status: 'DISCOVERED',
-          latitude: telemetryData.latitude,
-          longitude: telemetryData.longitude,
-          altitude: telemetryData.altitude,
-          batteryVoltage: telemetryData.batteryVoltage,
-          lastSeen: new Date(),
-        },
-        include: { network: true },
-      });
-    } else {
-      // Update existing device
-      const updateData: any = {
-        lastSeen: new Date(),
-        status: 'ONLINE',
-      };
-
-      if (telemetryData.latitude !== undefined) updateData.latitude = telemetryData.latitude;
-      if (telemetryData.longitude !== undefined) updateData.longitude = telemetryData.longitude;
-      if (telemetryData.altitude !== undefined) updateData.altitude = telemetryData.altitude;
-      if (telemetryData.batteryVoltage !== undefined) {
-        updateData.batteryVoltage = telemetryData.batteryVoltage;
-        // Simple battery percentage calculation (assuming 3.0V min, 4.2V max for Li-ion)
-        const minVoltage = 3.0;
-        const maxVoltage = 4.2;
-        const percentage = Math.round(
-          ((telemetryData.batteryVoltage - minVoltage) / (maxVoltage - minVoltage)) * 100
-        );
-        updateData.batteryPercent = Math.max(0, Math.min(100, percentage));
-
-        // Update status if battery is low
-        if (updateData.batteryPercent < 20) {
-          updateData.status = 'LOW_BATTERY';
-        }
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        break;
       }
 
-      await prisma.device.update({
-        where: { id: device.id },
-        data: updateData,
-      });
+      // Wake up in time to hand out the next scheduled command
+      const nextScheduled = await getNextScheduledDispatchAt(prisma, polledStation);
+      const untilScheduledMs = nextScheduled ? Math.max(0, nextScheduled.getTime() - Date.now()) : Infinity;
+
+      const wait = waitForCommand(
+        baseStation.networkId,
+        Math.min(remainingMs, LONG_POLL_RECHECK_MS, untilScheduledMs)
+      );
+      pendingWait = wait;
+      await wait.promise;
+      pendingWait = null;
     }
 
-    // Store telemetry data
-    await prisma.telemetry.create({
-      data: {
-        networkId: device.networkId,
+    if (!closed) {
+      res.status(204).send();
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Long poll error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+};
+
+type TelemetryInput = z.infer<typeof telemetrySchema>;
+
+type IngestResult =
+  | { ok: true; deviceId: string; telemetryId: string; duplicate: boolean }
+  | { ok: false; error: string };
+
+const DEFAULT_DEDUP_WINDOW_MS = 10000;
+
+const getDedupWindowMs = () => {
+  return parseInt(process.env.TELEMETRY_DEDUP_WINDOW_MS || '') || DEFAULT_DEDUP_WINDOW_MS;
+};
+
+/**
+ * Store one telemetry record and update (or auto-discover) its device.
+ * Must run inside a transaction: the per-board advisory lock serialises base
+ * stations relaying the same packet at the same time.
+ */
+const ingestTelemetry = async (
+  db: Prisma.TransactionClient,
+  baseStation: Device,
+  telemetryData: TelemetryInput,
+  receivedAt: Date
+): Promise<IngestResult> => {
+  await db.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`telemetry:${telemetryData.boardId}`}))`;
+
+  // Find the device by boardId
+  let device = await db.device.findUnique({
+    where: { boardId: telemetryData.boardId },
+  });
+
+  // Same LoRa packet already relayed by another base station: only keep this receiver's observation
+  if (device && telemetryData.messageId) {
+    const windowMs = getDedupWindowMs();
+    const canonical = await db.telemetry.findFirst({
+      where: {
         deviceId: device.id,
-        messageType: telemetryData.messageType,
         messageId: telemetryData.messageId,
-        data: telemetryData.data || {},
+        receivedAt: {
+          gte: new Date(receivedAt.getTime() - windowMs),
+          lte: new Date(receivedAt.getTime() + windowMs),
+        },
+      },
+      orderBy: { receivedAt: 'asc' },
+    });
+
+    if (canonical) {
+      await recordObservation(db, canonical.id, baseStation.id, telemetryData, receivedAt);
+      if (device.id !== baseStation.id) {
+        await recordDeviceLink(db, baseStation.id, device.id, telemetryData, receivedAt);
+      }
+      return { ok: true, deviceId: device.id, telemetryId: canonical.id, duplicate: true };
+    }
+  }
+
+  // Auto-discovery: If device doesn't exist, create it in the network of the base station that heard it
+  if (!device) {
+    const blocked = await db.blockedBoard.findUnique({
+      where: { networkId_boardId: { networkId: baseStation.networkId, boardId: telemetryData.boardId } },
+    });
+
+    if (blocked) {
+      return { ok: false, error: 'Board is blocked in this network' };
+    }
+
+    // New units wait in the network's discovery inbox until the owner approves them
+    device = await db.device.create({
+      data: {
+        boardId: telemetryData.boardId,
+        deviceType: 'FIELD_UNIT',
+        networkId: baseStation.networkId,
+        status: 'DISCOVERED',
+        approval: 'PENDING',
         latitude: telemetryData.latitude,
         longitude: telemetryData.longitude,
         altitude: telemetryData.altitude,
+        gpsUpdatedAt: telemetryData.latitude !== undefined && telemetryData.longitude !== undefined ? receivedAt : undefined,
         batteryVoltage: telemetryData.batteryVoltage,
+        lastSeen: receivedAt,
+        ...(telemetryData.deviceTime !== undefined && {
+          clockOffsetMs: telemetryData.deviceTime - receivedAt.getTime(),
+          clockOffsetAt: receivedAt,
+        }),
+      },
+    });
+  } else {
+    // Update existing device
+    const updateData: any = {
+      lastSeen: receivedAt,
+      status: 'ONLINE',
+    };
+
+    if (telemetryData.latitude !== undefined) updateData.latitude = telemetryData.latitude;
+    if (telemetryData.longitude !== undefined) updateData.longitude = telemetryData.longitude;
+    if (telemetryData.altitude !== undefined) updateData.altitude = telemetryData.altitude;
+    if (telemetryData.latitude !== undefined && telemetryData.longitude !== undefined) {
+      updateData.gpsUpdatedAt = receivedAt;
+    }
+    if (telemetryData.deviceTime !== undefined) {
+      Object.assign(updateData, nextClockOffset(device, telemetryData.deviceTime - receivedAt.getTime(), receivedAt));
+    }
+    if (telemetryData.batteryVoltage !== undefined) {
+      updateData.batteryVoltage = telemetryData.batteryVoltage;
+      // Simple battery percentage calculation (assuming 3.0V min, 4.2V max for Li-ion)
+      const minVoltage = 3.0;
+      const maxVoltage = 4.2;
+      const percentage = Math.round(
+        ((telemetryData.batteryVoltage - minVoltage) / (maxVoltage - minVoltage)) * 100
+      );
+      updateData.batteryPercent = Math.max(0, Math.min(100, percentage));
+
+      // Update status if battery is low
+      if (updateData.batteryPercent < 20) {
+        updateData.status = 'LOW_BATTERY';
+      }
+    }
+
+    // Unapproved units keep their DISCOVERED status until claimed
+    if (device.approval === 'PENDING') {
+      updateData.status = 'DISCOVERED';
+    }
+
+    await db.device.update({
+      where: { id: device.id },
+      data: updateData,
+    });
+  }
+
+  // Store telemetry data
+  const telemetry = await db.telemetry.create({
+    data: {
+      networkId: device.networkId,
+      deviceId: device.id,
+      messageType: telemetryData.messageType,
+      messageId: telemetryData.messageId,
+      data: telemetryData.data || {},
+      latitude: telemetryData.latitude,
+      longitude: telemetryData.longitude,
+      altitude: telemetryData.altitude,
+      batteryVoltage: telemetryData.batteryVoltage,
+      rssi: telemetryData.rssi,
+      snr: telemetryData.snr,
+      receivedById: baseStation.id,
+      receivedAt,
+    },
+  });
+
+  await recordObservation(db, telemetry.id, baseStation.id, telemetryData, receivedAt);
+
+  if (device.id !== baseStation.id) {
+    await recordDeviceLink(db, baseStation.id, device.id, telemetryData, receivedAt);
+  }
+
+  if (telemetryData.messageType === 'MSG_TYPE_CONT' && device.deviceType === 'FIELD_UNIT') {
+    await recordContinuityResults(db, device, telemetryData.data, receivedAt);
+  }
+
+  if (telemetryData.messageId) {
+    await completeCorrelatedCommand(db, device.id, telemetry, telemetryData);
+  }
+
+  return { ok: true, deviceId: device.id, telemetryId: telemetry.id, duplicate: false };
+};
+
+/**
+ * Keep the per-receiver link quality for a (canonical) telemetry record
+ */
+const recordObservation = async (
+  db: Prisma.TransactionClient,
+  telemetryId: string,
+  baseStationId: string,
+  telemetryData: TelemetryInput,
+  receivedAt: Date
+) => {
+  await db.telemetryObservation.createMany({
+    data: [
+      {
+        telemetryId,
+        baseStationId,
         rssi: telemetryData.rssi,
         snr: telemetryData.snr,
-        receivedAt: new Date(),
+        receivedAt,
       },
-    });
+    ],
+    skipDuplicates: true, // Same base station re-posting the same packet
+  });
+};
+
+/**
+ * Remember that this base station can hear the field unit, keeping the latest link quality
+ */
+const recordDeviceLink = async (
+  db: Prisma.TransactionClient,
+  baseStationId: string,
+  fieldUnitId: string,
+  telemetryData: TelemetryInput,
+  receivedAt: Date
+) => {
+  const link = await db.deviceLink.upsert({
+    where: { baseStationId_fieldUnitId: { baseStationId, fieldUnitId } },
+    create: {
+      baseStationId,
+      fieldUnitId,
+      rssi: telemetryData.rssi,
+      snr: telemetryData.snr,
+      firstHeardAt: receivedAt,
+      lastHeardAt: receivedAt,
+    },
+    update: {
+      messageCount: { increment: 1 },
+    },
+  });
+
+  // Buffered (older) messages must not overwrite newer link quality
+  await db.deviceLink.updateMany({
+    where: { id: link.id, lastHeardAt: { lt: receivedAt } },
+    data: {
+      lastHeardAt: receivedAt,
+      rssi: telemetryData.rssi,
+      snr: telemetryData.snr,
+    },
+  });
+};
+
+/**
+ * Complete the command a field unit response answers (same messageId and target device).
+ * Commands already re-queued by the timeout worker still count: the unit did respond.
+ */
+const completeCorrelatedCommand = async (
+  db: Prisma.TransactionClient,
+  deviceId: string,
+  telemetry: Telemetry,
+  telemetryData: TelemetryInput
+) => {
+  const requestTypes = getRequestTypesAnsweredBy(telemetryData.messageType);
+  if (requestTypes.length === 0) {
+    return;
+  }
+
+  const awaitingResponse: Prisma.CommandWhereInput = {
+    OR: [
+      { status: 'PROCESSING' },
+      { status: 'PENDING', retryCount: { gt: 0 } },
+    ],
+  };
+
+  const command = await db.command.findFirst({
+    where: {
+      messageId: telemetryData.messageId,
+      targetDeviceId: deviceId,
+      messageType: { in: requestTypes },
+      ...awaitingResponse,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!command) {
+    return;
+  }
+
+  const latencyMs = command.dispatchedAt
+    ? Math.max(0, telemetry.receivedAt.getTime() - command.dispatchedAt.getTime())
+    : null;
+
+  const responseData = {
+    messageType: telemetryData.messageType,
+    ...(telemetryData.data || {}),
+    ...(telemetryData.latitude !== undefined && { latitude: telemetryData.latitude }),
+    ...(telemetryData.longitude !== undefined && { longitude: telemetryData.longitude }),
+    ...(telemetryData.altitude !== undefined && { altitude: telemetryData.altitude }),
+    ...(telemetryData.batteryVoltage !== undefined && { batteryVoltage: telemetryData.batteryVoltage }),
+  };
+
+  await transitionCommands(
+    db,
+    { id: command.id, ...awaitingResponse },
+    {
+      status: 'COMPLETED',
+      completedAt: telemetry.receivedAt,
+      latencyMs,
+      responseTelemetryId: telemetry.id,
+      responseData,
+    },
+    {
+      actor: 'BASE_STATION',
+      baseStationId: telemetry.receivedById,
+      message: `Field unit responded with ${telemetryData.messageType}${latencyMs !== null ? ` after ${latencyMs}ms` : ''}`,
+      data: responseData,
+    }
+  );
+};
+
+/**
+ * Telemetry endpoint for Base Stations to POST received LoRa data
+ * POST /api/gateway/telemetry
+ */
+export const receiveTelemetry = async (req: GatewayRequest, res: Response) => {
+  try {
+    const telemetryData = telemetrySchema.parse(req.body);
+
+    const result = await prisma.$transaction(tx =>
+      ingestTelemetry(tx, req.baseStation!, telemetryData, new Date())
+    );
+
+    if (!result.ok) {
+      return res.status(400).json({ error: result.error });
+    }
 
-    res.status(201).json({ success: true, deviceId: device.id });
+    res.status(201).json({ success: true, deviceId: result.deviceId, duplicate: result.duplicate });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid input', details: error.errors });
@@ -215,13 +569,86 @@ export const receiveTelemetry = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Batch telemetry endpoint for messages buffered while the base station was offline
+ * POST /api/gateway/telemetry/batch
+ *
+ * Each record is validated and written on its own, so one failing record never
+ * loses the others. The response lists the outcome per index so the firmware
+ * knows which buffered messages it can drop and which to send again.
+ */
+export const receiveTelemetryBatch = async (req: GatewayRequest, res: Response) => {
+  try {
+    const { records } = telemetryBatchSchema.parse(req.body);
+    const baseStation = req.baseStation!;
+    const now = new Date();
+
+    const results: TelemetryBatchItemResult[] = new Array(records.length);
+    const valid: { index: number; data: TelemetryInput; receivedAt: Date }[] = [];
+
+    records.forEach((record, index) => {
+      const parsed = batchRecordSchema.safeParse(record);
+      if (!parsed.success) {
+        results[index] = { index, success: false, error: 'Invalid input', details: parsed.error.errors };
+        return;
+      }
+
+      const { receivedAt, ...data } = parsed.data;
+      const receivedAtDate = receivedAt ? new Date(receivedAt) : now;
+
+      if (receivedAtDate.getTime() > now.getTime() + MAX_BATCH_FUTURE_SKEW_MS) {
+        results[index] = { index, success: false, error: 'receivedAt is in the future' };
+        return;
+      }
+
+      valid.push({ index, data, receivedAt: receivedAtDate });
+    });
+
+    // Apply oldest first so device state ends up reflecting the newest message
+    valid.sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+
+    for (const item of valid) {
+      try {
+        const result = await prisma.$transaction(tx => ingestTelemetry(tx, baseStation, item.data, item.receivedAt));
+        results[item.index] = result.ok
+          ? {
+              index: item.index,
+              success: true,
+              deviceId: result.deviceId,
+              telemetryId: result.telemetryId,
+              duplicate: result.duplicate,
+            }
+          : { index: item.index, success: false, error: result.error };
+      } catch (error) {
+        console.error(`Telemetry batch record ${item.index} error:`, error);
+        results[item.index] = { index: item.index, success: false, error: 'Internal server error' };
+      }
+    }
+
+    const accepted = results.filter(r => r.success).length;
+
+    res.status(200).json({
+      accepted,
+      rejected: results.length - accepted,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Telemetry batch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
 /**
  * Acknowledge command completion
  * POST /api/gateway/ack
  */
-export const acknowledgeCommand = async (req: Request, res: Response) => {
+export const acknowledgeCommand = async (req: GatewayRequest, res: Response) => {
   try {
-    const { commandId, success, responseData } = req.body;
+    const { commandId, success, responseData } = ackSchema.parse(req.body);
+    const baseStation = req.baseStation!;
 
     const command = await prisma.command.findUnique({
       where: { id: commandId },
@@ -231,18 +658,141 @@ export const acknowledgeCommand = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Command not found' });
     }
 
-    await prisma.command.update({
-      where: { id: commandId },
-      data: {
-        status: success ? 'COMPLETED' : 'FAILED',
-        completedAt: new Date(),
-        responseData: responseData || {},
-      },
+    // Only the base station the command was dispatched through may acknowledge it
+    const isOwnCommand = command.networkId === baseStation.networkId && command.sourceDeviceId === baseStation.id;
+
+    if (!isOwnCommand) {
+      return res.status(403).json({ error: 'Command does not belong to this base station', code: 'FOREIGN_COMMAND' });
+    }
+
+    // Routed here but never claimed through a poll, so it cannot have been sent
+    if (command.status === 'PENDING' || command.status === 'AWAITING_COSIGN') {
+      return res.status(409).json({ error: 'Command has not been dispatched', code: 'NOT_DISPATCHED' });
+    }
+
+    // Already confirmed by the field unit's own response telemetry - keep that result
+    if (command.status === 'COMPLETED' && command.responseTelemetryId) {
+      return res.json({ success: true, confirmedByFieldUnit: true });
+    }
+
+    // Stopped while in flight - record what the base station reported but keep the status
+    if (command.status === 'ABORTED' || command.status === 'CANCELLED') {
+      const reportedAt = new Date();
+      await prisma.$transaction(async tx => {
+        await tx.command.update({
+          where: { id: commandId },
+          data: { responseData: { ...responseData, reportedSuccess: success } },
+        });
+        await recordCommandEvent(tx, commandId, command.status, command.status, {
+          actor: 'BASE_STATION',
+          baseStationId: baseStation.id,
+          message: `Base station reported ${success ? 'success' : 'failure'} after the command was stopped`,
+          data: responseData,
+        });
+
+        // The stop came too late: the relay fired anyway, so its channel is spent
+        if (success) {
+          await markChannelFired(tx, command, reportedAt);
+        }
+      });
+      return res.json({ success: true, status: command.status });
+    }
+
+    const completedAt = new Date();
+    const status = success ? 'COMPLETED' : 'FAILED';
+    const applied = await prisma.$transaction(async tx => {
+      // Only a command still in flight; the timeout worker may have timed it out or
+      // requeued it for a retry since it was read
+      const { count } = await tx.command.updateMany({
+        where: { id: commandId, status: 'PROCESSING' },
+        data: {
+          status,
+          completedAt,
+          responseData: responseData || {},
+        },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await recordCommandEvent(tx, commandId, 'PROCESSING', status, {
+        actor: 'BASE_STATION',
+        baseStationId: baseStation.id,
+        message: success ? 'Acknowledged' : 'Base station reported failure',
+        data: responseData,
+      });
+
+      // A confirmed ignition used up its relay channel
+      if (success) {
+        await markChannelFired(tx, command, completedAt);
+      }
+      return true;
     });
 
+    if (!applied) {
+      const current = await prisma.command.findUnique({ where: { id: commandId }, select: { status: true } });
+      return res.status(409).json({
+        error: 'Command is no longer in flight',
+        code: 'NOT_IN_FLIGHT',
+        status: current?.status,
+      });
+    }
+
     res.json({ success: true });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
     console.error('Acknowledge error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 };
+
+/**
+ * Base station confirms it received the emergency stop and is in a safe state
+ * POST /api/gateway/stop/ack
+ */
+export const acknowledgeStop = async (req: GatewayRequest, res: Response) => {
+  try {
+    const { stopRequestedAt } = stopAckSchema.parse(req.body ?? {});
+    const baseStation = req.baseStation!;
+
+    // Only clear the stop that was delivered; a newer emergency stop stays pending
+    const { count } = await prisma.device.updateMany({
+      where: {
+        id: baseStation.id,
+        stopRequestedAt: stopRequestedAt ? { lte: new Date(stopRequestedAt) } : { not: null },
+      },
+      data: { stopRequestedAt: null },
+    });
+
+    res.json({ success: true, cleared: count > 0 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Acknowledge stop error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Server clock for base station time sync. Unsigned on purpose: a base station
+ * whose clock is off cannot produce a valid request timestamp until it has synced.
+ * GET /api/gateway/time?t0=1700000000000
+ */
+export const getServerTime = async (req: GatewayRequest, res: Response) => {
+  try {
+    const { t0 } = timeSchema.parse(req.query);
+
+    // Offset on the client = serverTime - (t0 + t3) / 2, where t3 is when the reply arrived
+    res.json({ t0: t0 ?? null, serverTime: Date.now() });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Server time error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,263 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import prisma from '../utils/prisma';
+import { loadNetworkWithAccess } from '../utils/networkAccess';
+
+const groupSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colour must be #rrggbb'),
+});
+
+const updateGroupSchema = groupSchema.partial();
+
+const groupMembersSchema = z
+  .object({
+    add: z.array(z.string()).max(500).default([]),
+    remove: z.array(z.string()).max(500).default([]),
+  })
+  .refine(data => data.add.length > 0 || data.remove.length > 0, 'Nothing to add or remove');
+
+const groupInclude = {
+  _count: { select: { devices: true } },
+} as const;
+
+const findGroupByName = (networkId: string, name: string) => {
+  return prisma.deviceGroup.findUnique({
+    where: { networkId_name: { networkId, name } },
+  });
+};
+
+/**
+ * Get the device groups of a network
+ */
+export const getDeviceGroups = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { network, canView } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!canView) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const groups = await prisma.deviceGroup.findMany({
+      where: { networkId },
+      include: groupInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    res.json(groups);
+  } catch (error) {
+    console.error('Get device groups error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Create a device group (owner only)
+ */
+export const createDeviceGroup = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { name, color } = groupSchema.parse(req.body);
+    const { network, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the owner can manage device groups' });
+    }
+
+    if (await findGroupByName(networkId, name)) {
+      return res.status(409).json({ error: 'A group with this name already exists' });
+    }
+
+    const group = await prisma.deviceGroup.create({
+      data: { networkId, name, color },
+      include: groupInclude,
+    });
+
+    res.status(201).json(group);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Create device group error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Rename or recolour a device group (owner only)
+ */
+export const updateDeviceGroup = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId, groupId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const updateData = updateGroupSchema.parse(req.body);
+    const { network, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the owner can manage device groups' });
+    }
+
+    if (updateData.name) {
+      const existing = await findGroupByName(networkId, updateData.name);
+      if (existing && existing.id !== groupId) {
+        return res.status(409).json({ error: 'A group with this name already exists' });
+      }
+    }
+
+    const { count } = await prisma.deviceGroup.updateMany({
+      where: { id: groupId, networkId },
+      data: updateData,
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Device group not found' });
+    }
+
+    const group = await prisma.deviceGroup.findUnique({
+      where: { id: groupId },
+      include: groupInclude,
+    });
+
+    res.json(group);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Update device group error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Delete a device group (owner only). Its devices become ungrouped.
+ */
+export const deleteDeviceGroup = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId, groupId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { network, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the owner can manage device groups' });
+    }
+
+    // Dropping the group would silently widen those guests' ignition rights
+    const scopedGuests = await prisma.networkGuestGroup.count({ where: { groupId } });
+    if (scopedGuests > 0) {
+      return res.status(409).json({
+        error: 'Guests are limited to this group; change their permissions first',
+        scopedGuests,
+      });
+    }
+
+    const { count } = await prisma.deviceGroup.deleteMany({
+      where: { id: groupId, networkId },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Device group not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete device group error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Add and remove devices in one go (owner only). A device is in at most one
+ * group, so adding moves it out of its current group.
+ */
+export const updateGroupMembers = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId, groupId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { add, remove } = groupMembersSchema.parse(req.body);
+    const { network, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the owner can manage device groups' });
+    }
+
+    const group = await prisma.deviceGroup.findFirst({ where: { id: groupId, networkId } });
+    if (!group) {
+      return res.status(404).json({ error: 'Device group not found' });
+    }
+
+    const requestedIds = [...new Set([...add, ...remove])];
+    const devices = await prisma.device.findMany({
+      where: { id: { in: requestedIds }, networkId },
+      select: { id: true },
+    });
+    const found = new Set(devices.map(d => d.id));
+    const invalidDeviceIds = requestedIds.filter(id => !found.has(id));
+
+    if (invalidDeviceIds.length > 0) {
+      return res.status(400).json({ error: 'Some devices are not in this network', invalidDeviceIds });
+    }
+
+    const [added, removed] = await prisma.$transaction([
+      prisma.device.updateMany({
+        where: { id: { in: add }, networkId },
+        data: { groupId },
+      }),
+      prisma.device.updateMany({
+        where: { id: { in: remove.filter(id => !add.includes(id)) }, groupId },
+        data: { groupId: null },
+      }),
+    ]);
+
+    const updated = await prisma.deviceGroup.findUnique({
+      where: { id: groupId },
+      include: groupInclude,
+    });
+
+    res.json({ group: updated, added: added.count, removed: removed.count });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Update group members error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
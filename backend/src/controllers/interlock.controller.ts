@@ -0,0 +1,248 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import prisma from '../utils/prisma';
+import { loadNetworkWithAccess } from '../utils/networkAccess';
+import { evaluateInterlocks } from '../utils/interlocks';
+
+const interlockSettingsSchema = z.object({
+  maxLastSeenSeconds: z.number().int().min(1).max(86400).nullable(),
+  maxGpsAgeSeconds: z.number().int().min(1).max(86400).nullable(),
+});
+
+const audienceZoneSchema = z.object({
+  name: z.string().min(1).max(100),
+  polygon: z
+    .array(z.tuple([z.number().min(-90).max(90), z.number().min(-180).max(180)]))
+    .min(3, 'A zone needs at least 3 points')
+    .max(200),
+});
+
+const getInterlockSettings = async (networkId: string) => {
+  const [network, audienceZones] = await Promise.all([
+    prisma.network.findUniqueOrThrow({
+      where: { id: networkId },
+      select: { interlockMaxLastSeenSeconds: true, interlockMaxGpsAgeSeconds: true, emergencyStopAt: true },
+    }),
+    prisma.audienceZone.findMany({ where: { networkId }, orderBy: { createdAt: 'asc' } }),
+  ]);
+
+  return {
+    maxLastSeenSeconds: network.interlockMaxLastSeenSeconds,
+    maxGpsAgeSeconds: network.interlockMaxGpsAgeSeconds,
+    emergencyStopAt: network.emergencyStopAt,
+    audienceZones,
+  };
+};
+
+/**
+ * Get interlock thresholds and audience zones of a network
+ */
+export const getInterlocks = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { network, canView } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!canView) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    res.json(await getInterlockSettings(networkId));
+  } catch (error) {
+    console.error('Get interlocks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Update interlock thresholds (owner only). null disables a check.
+ */
+export const updateInterlocks = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { maxLastSeenSeconds, maxGpsAgeSeconds } = interlockSettingsSchema.parse(req.body);
+    const { network, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the owner can change interlocks' });
+    }
+
+    await prisma.network.update({
+      where: { id: networkId },
+      data: {
+        interlockMaxLastSeenSeconds: maxLastSeenSeconds,
+        interlockMaxGpsAgeSeconds: maxGpsAgeSeconds,
+      },
+    });
+
+    res.json(await getInterlockSettings(networkId));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Update interlocks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Dry-run the interlocks for one field unit, so operators see problems before pressing fire
+ */
+export const checkDeviceInterlocks = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId, deviceId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { network, canView } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!canView) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const device = await prisma.device.findFirst({
+      where: { id: deviceId, networkId },
+      include: { network: true },
+    });
+
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    const audienceZones = await prisma.audienceZone.findMany({ where: { networkId } });
+    const failures = evaluateInterlocks(device, audienceZones);
+
+    res.json({ deviceId, passed: failures.length === 0, failures });
+  } catch (error) {
+    console.error('Check interlocks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Get the log of interlock overrides for a network
+ */
+export const getInterlockOverrides = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { network, canView } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!canView) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const overrides = await prisma.interlockOverride.findMany({
+      where: { networkId },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        device: { select: { id: true, boardId: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    res.json(overrides);
+  } catch (error) {
+    console.error('Get interlock overrides error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Add an audience zone (owner only)
+ */
+export const createAudienceZone = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { name, polygon } = audienceZoneSchema.parse(req.body);
+    const { network, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the owner can change audience zones' });
+    }
+
+    const zone = await prisma.audienceZone.create({
+      data: { networkId, name, polygon },
+    });
+
+    res.status(201).json(zone);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Create audience zone error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Remove an audience zone (owner only)
+ */
+export const deleteAudienceZone = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId, zoneId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { network, isOwner } = await loadNetworkWithAccess(req, networkId);
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ error: 'Only the owner can change audience zones' });
+    }
+
+    const { count } = await prisma.audienceZone.deleteMany({
+      where: { id: zoneId, networkId },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Audience zone not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete audience zone error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
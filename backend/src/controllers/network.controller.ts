@@ -2,6 +2,7 @@ import { Response } from 'express';
 import { z } from 'zod';
 import { AuthRequest } from '../middleware/auth';
 import prisma from '../utils/prisma';
+import { findForeignGroupIds } from '../utils/deviceGroups';
 
 const createNetworkSchema = z.object({
   name: z.string().min(3),
@@ -10,9 +11,19 @@ const createNetworkSchema = z.object({
 
 const addGuestSchema = z.object({
   userId: z.string(),
-  permission: z.enum(['VIEW_ONLY', 'COMMANDER']),
+  permission: z.enum(['VIEW_ONLY', 'COMMANDER', 'SAFETY_OFFICER']),
+  groupIds: z.array(z.string()).max(100).optional(), // Limit ignition rights to these device groups
 });
 
+const updateGuestSchema = addGuestSchema.omit({ userId: true }).partial();
+
+const guestInclude = {
+  user: {
+    select: { id: true, name: true, email: true },
+  },
+  groups: true,
+} as const;
+
 /**
  * Get all networks accessible by the current user
  */
@@ -97,13 +108,8 @@ export const getNetwork = async (req: AuthRequest, res: Response) => {
           select: { id: true, name: true, email: true },
         },
         devices: true,
-        guests: {
-          include: {
-            user: {
-              select: { id: true, name: true, email: true },
-            },
-          },
-        },
+        deviceGroups: { orderBy: { name: 'asc' } },
+        guests: { include: guestInclude },
       },
     });
 
@@ -172,7 +178,7 @@ export const addGuest = async (req: AuthRequest, res: Response) => {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
-    const { userId, permission } = addGuestSchema.parse(req.body);
+    const { userId, permission, groupIds = [] } = addGuestSchema.parse(req.body);
 
     // Verify ownership
     const network = await prisma.network.findUnique({
@@ -187,17 +193,21 @@ export const addGuest = async (req: AuthRequest, res: Response) => {
       return res.status(403).json({ error: 'Only the owner can add guests' });
     }
 
+    const invalidGroupIds = await findForeignGroupIds(networkId, groupIds);
+    if (invalidGroupIds.length > 0) {
+      return res.status(400).json({ error: 'Some groups are not in this network', invalidGroupIds });
+    }
+
     const guest = await prisma.networkGuest.create({
       data: {
         networkId,
         userId,
         permission,
-      },
-      include: {
-        user: {
-          select: { id: true, name: true, email: true },
+        groups: {
+          create: [...new Set(groupIds)].map(groupId => ({ groupId })),
         },
       },
+      include: guestInclude,
     });
 
     res.status(201).json(guest);
@@ -210,6 +220,71 @@ export const addGuest = async (req: AuthRequest, res: Response) => {
   }
 };
 
+/**
+ * Change a guest's permission or device group scope. An empty group list
+ * lifts the limit.
+ */
+export const updateGuest = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId, guestId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { permission, groupIds } = updateGuestSchema.parse(req.body);
+
+    // Verify ownership
+    const network = await prisma.network.findUnique({
+      where: { id: networkId },
+    });
+
+    if (!network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+
+    if (network.ownerId !== req.user.userId && req.user.role !== 'MEGA_ADMIN') {
+      return res.status(403).json({ error: 'Only the owner can change guests' });
+    }
+
+    const existing = await prisma.networkGuest.findFirst({
+      where: { id: guestId, networkId },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Guest not found' });
+    }
+
+    if (groupIds) {
+      const invalidGroupIds = await findForeignGroupIds(networkId, groupIds);
+      if (invalidGroupIds.length > 0) {
+        return res.status(400).json({ error: 'Some groups are not in this network', invalidGroupIds });
+      }
+    }
+
+    const guest = await prisma.networkGuest.update({
+      where: { id: guestId },
+      data: {
+        permission,
+        ...(groupIds && {
+          groups: {
+            deleteMany: {},
+            create: [...new Set(groupIds)].map(groupId => ({ groupId })),
+          },
+        }),
+      },
+      include: guestInclude,
+    });
+
+    res.json(guest);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Update guest error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
 /**
  * Remove a guest from a network
  */
@@ -0,0 +1,593 @@
+import { Response } from 'express';
+import { Show, ShowStatus } from '@prisma/client';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import prisma from '../utils/prisma';
+import { isArmed } from '../utils/armState';
+import {
+  abortRunningShow,
+  beginShow,
+  findCueTargetsOutsideScope,
+  findSpentCueChannels,
+  getShowElapsedMs,
+} from '../utils/shows';
+import { createCosignRequest } from '../utils/cosign';
+import { MAX_CHANNELS } from '../utils/deviceChannels';
+import { checkStepUp } from '../utils/stepUp';
+import { loadNetworkWithAccess } from '../utils/networkAccess';
+
+const MAX_SHOW_DURATION_MS = 24 * 60 * 60 * 1000;
+
+// A cue targets one field unit, or a device group that is expanded into one cue per unit on save
+const cueSchema = z
+  .object({
+    targetDeviceId: z.string().optional(),
+    groupId: z.string().optional(),
+    channel: z.number().int().min(1).max(MAX_CHANNELS).default(1),
+    offsetMs: z.number().int().min(0).max(MAX_SHOW_DURATION_MS),
+    notes: z.string().max(500).optional(),
+  })
+  .refine(cue => !!cue.targetDeviceId !== !!cue.groupId, 'A cue needs either targetDeviceId or groupId');
+
+const showSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  cues: z.array(cueSchema).max(1000),
+});
+
+const abortSchema = z.object({
+  reason: z.string().max(200).optional(),
+});
+
+const showInclude = {
+  cues: {
+    include: {
+      targetDevice: { select: { id: true, boardId: true, name: true, status: true, groupId: true } },
+      group: { select: { id: true, name: true, color: true } },
+      command: {
+        select: { id: true, status: true, dispatchedAt: true, completedAt: true, errorMessage: true },
+      },
+    },
+    orderBy: { position: 'asc' },
+  },
+  creator: { select: { id: true, name: true, email: true } },
+} as const;
+
+const withClock = <T extends Show>(show: T) => ({ ...show, elapsedMs: getShowElapsedMs(show) });
+
+type CueInput = z.infer<typeof cueSchema>;
+type ExpandedCue = Omit<CueInput, 'targetDeviceId'> & { targetDeviceId: string };
+
+/**
+ * Replace each group cue with one cue per approved field unit in the group,
+ * in board order, keeping the groupId so the editor can show where it came from
+ */
+const expandGroupCues = async (networkId: string, cues: CueInput[]) => {
+  const groupIds = [...new Set(cues.flatMap(c => (c.groupId ? [c.groupId] : [])))];
+  const groups = await prisma.deviceGroup.findMany({
+    where: { id: { in: groupIds }, networkId },
+    include: {
+      devices: {
+        where: { deviceType: 'FIELD_UNIT', approval: 'APPROVED' },
+        select: { id: true },
+        orderBy: { boardId: 'asc' },
+      },
+    },
+  });
+
+  const invalidGroups = groupIds.filter(id => !groups.some(g => g.id === id && g.devices.length > 0));
+  const expanded: ExpandedCue[] = cues.flatMap(cue => {
+    if (cue.targetDeviceId) {
+      return [{ ...cue, targetDeviceId: cue.targetDeviceId }];
+    }
+    const group = groups.find(g => g.id === cue.groupId);
+    return (group?.devices ?? []).map(device => ({ ...cue, targetDeviceId: device.id }));
+  });
+
+  return { expanded, invalidGroups };
+};
+
+/**
+ * Expand group cues and check every cue targets an approved field unit in the show's network.
+ * Sends a 400 and returns null if not.
+ */
+const prepareCues = async (res: Response, networkId: string, cues: CueInput[]) => {
+  const { expanded, invalidGroups } = await expandGroupCues(networkId, cues);
+  if (invalidGroups.length > 0) {
+    res.status(400).json({ error: 'Cue groups must be groups of this network with approved field units', invalidGroups });
+    return null;
+  }
+
+  const invalidTargets = await findInvalidCueTargets(networkId, expanded);
+  if (invalidTargets.length > 0) {
+    res.status(400).json({ error: 'Cues must target approved field units in this network', invalidTargets });
+    return null;
+  }
+
+  const invalidChannels = await findInvalidCueChannels(expanded);
+  if (invalidChannels.length > 0) {
+    res.status(400).json({
+      error: 'Each cue needs its own channel that exists on its field unit',
+      invalidChannels,
+    });
+    return null;
+  }
+
+  return expanded;
+};
+
+/**
+ * Cues addressing a channel the unit doesn't have, or a channel another cue already fires
+ */
+const findInvalidCueChannels = async (cues: ExpandedCue[]) => {
+  const devices = await prisma.device.findMany({
+    where: { id: { in: [...new Set(cues.map(c => c.targetDeviceId))] } },
+    select: { id: true, channelCount: true },
+  });
+
+  const used = new Set<string>();
+  const invalid: { position: number; targetDeviceId: string; channel: number; reason: string }[] = [];
+  cues.forEach((cue, position) => {
+    const channelCount = devices.find(d => d.id === cue.targetDeviceId)?.channelCount ?? 0;
+    const key = `${cue.targetDeviceId}:${cue.channel}`;
+    const reason =
+      cue.channel > channelCount
+        ? `Unit has ${channelCount} channel(s)`
+        : used.has(key)
+          ? 'Channel is fired by an earlier cue'
+          : null;
+    if (reason) {
+      invalid.push({ position, targetDeviceId: cue.targetDeviceId, channel: cue.channel, reason });
+    }
+    used.add(key);
+  });
+  return invalid;
+};
+
+/**
+ * Every cue must target an approved field unit in the show's network
+ */
+const findInvalidCueTargets = async (networkId: string, cues: ExpandedCue[]) => {
+  const targetIds = [...new Set(cues.map(c => c.targetDeviceId))];
+  const devices = await prisma.device.findMany({
+    where: {
+      id: { in: targetIds },
+      networkId,
+      deviceType: 'FIELD_UNIT',
+      approval: 'APPROVED',
+    },
+    select: { id: true },
+  });
+
+  const valid = new Set(devices.map(d => d.id));
+  return targetIds.filter(id => !valid.has(id));
+};
+
+const loadShow = async (req: AuthRequest, res: Response) => {
+  const show = await prisma.show.findUnique({ where: { id: req.params.showId } });
+
+  if (!show) {
+    res.status(404).json({ error: 'Show not found' });
+    return null;
+  }
+
+  const access = await loadNetworkWithAccess(req, show.networkId);
+  if (!access.network || !access.canView) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return { show, access };
+};
+
+const respondWithShow = async (res: Response, showId: string, status = 200) => {
+  const show = await prisma.show.findUnique({ where: { id: showId }, include: showInclude });
+  res.status(status).json(show && withClock(show));
+};
+
+/**
+ * Get shows for a network
+ */
+export const getShows = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const access = await loadNetworkWithAccess(req, networkId);
+    if (!access.network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+    if (!access.canView) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const shows = await prisma.show.findMany({
+      where: { networkId },
+      include: { _count: { select: { cues: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json(shows.map(withClock));
+  } catch (error) {
+    console.error('Get shows error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Get a show with its cues and their command status
+ */
+export const getShow = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const loaded = await loadShow(req, res);
+    if (!loaded) return;
+
+    await respondWithShow(res, loaded.show.id);
+  } catch (error) {
+    console.error('Get show error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Create a show script
+ */
+export const createShow = async (req: AuthRequest, res: Response) => {
+  try {
+    const { networkId } = req.params;
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { name, description, cues } = showSchema.parse(req.body);
+
+    const access = await loadNetworkWithAccess(req, networkId);
+    if (!access.network) {
+      return res.status(404).json({ error: 'Network not found' });
+    }
+    if (!access.canCommand) {
+      return res.status(403).json({ error: 'Insufficient permissions to create shows' });
+    }
+
+    const expandedCues = await prepareCues(res, networkId, cues);
+    if (!expandedCues) return;
+
+    const show = await prisma.show.create({
+      data: {
+        networkId,
+        name,
+        description,
+        createdBy: req.user.userId,
+        cues: {
+          create: expandedCues.map((cue, position) => ({ ...cue, position })),
+        },
+      },
+    });
+
+    await respondWithShow(res, show.id, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Create show error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Replace a show's details and cue list (not while it is running)
+ */
+export const updateShow = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { name, description, cues } = showSchema.parse(req.body);
+
+    const loaded = await loadShow(req, res);
+    if (!loaded) return;
+    const { show, access } = loaded;
+
+    if (!access.canCommand) {
+      return res.status(403).json({ error: 'Insufficient permissions to edit shows' });
+    }
+
+    if (show.status === 'RUNNING' || show.status === 'PAUSED') {
+      return res.status(409).json({ error: 'Abort the show before editing it' });
+    }
+
+    // The approver must see the script that will actually run
+    if (show.status === 'AWAITING_COSIGN') {
+      return res.status(409).json({ error: 'Withdraw the co-sign request before editing the show' });
+    }
+
+    const expandedCues = await prepareCues(res, show.networkId, cues);
+    if (!expandedCues) return;
+
+    await prisma.$transaction([
+      prisma.showCue.deleteMany({ where: { showId: show.id } }),
+      prisma.show.update({
+        where: { id: show.id },
+        data: {
+          name,
+          description,
+          status: 'DRAFT',
+          startedAt: null,
+          startedById: null,
+          pausedAt: null,
+          pausedMs: 0,
+          completedAt: null,
+          abortReason: null,
+          cues: {
+            create: expandedCues.map((cue, position) => ({ ...cue, position })),
+          },
+        },
+      }),
+    ]);
+
+    await respondWithShow(res, show.id);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Update show error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Delete a show (not while it is running)
+ */
+export const deleteShow = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const loaded = await loadShow(req, res);
+    if (!loaded) return;
+    const { show, access } = loaded;
+
+    if (!access.canCommand) {
+      return res.status(403).json({ error: 'Insufficient permissions to delete shows' });
+    }
+
+    if (show.status === 'RUNNING' || show.status === 'PAUSED') {
+      return res.status(409).json({ error: 'Abort the show before deleting it' });
+    }
+
+    await prisma.show.delete({ where: { id: show.id } });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete show error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Start a show: T0 is now. The network must be armed. Re-running a finished show resets its cues.
+ * With the network's co-sign policy the show waits as AWAITING_COSIGN and starts when a
+ * second person approves it.
+ */
+export const startShow = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const loaded = await loadShow(req, res);
+    if (!loaded) return;
+    const { show, access } = loaded;
+
+    if (!access.canCommand) {
+      return res.status(403).json({ error: 'Insufficient permissions to run shows' });
+    }
+
+    if (!isArmed(access.network.armState)) {
+      return res.status(409).json({
+        error: 'Network must be ARMED before a show can start',
+        armState: access.network.armState,
+      });
+    }
+
+    const cueCount = await prisma.showCue.count({ where: { showId: show.id } });
+    if (cueCount === 0) {
+      return res.status(400).json({ error: 'Show has no cues' });
+    }
+
+    const outOfScope = await findCueTargetsOutsideScope(show.id, access.groupScope);
+    if (outOfScope.length > 0) {
+      return res.status(403).json({ error: 'Show fires units outside your assigned device groups', deviceIds: outOfScope });
+    }
+
+    const spentChannels = await findSpentCueChannels({ showId: show.id });
+    if (spentChannels.length > 0) {
+      return res.status(409).json({ error: 'Some cue channels have already fired, reload them first', spentChannels });
+    }
+
+    const stepUp = await checkStepUp(req);
+    if (!stepUp.ok) {
+      return res.status(stepUp.status).json({ error: stepUp.error, ...stepUp.details });
+    }
+
+    const userId = req.user.userId;
+    const startable: ShowStatus[] = ['DRAFT', 'COMPLETED', 'ABORTED'];
+
+    if (access.network.requireCosign) {
+      const held = await prisma.$transaction(async tx => {
+        const { count } = await tx.show.updateMany({
+          where: { id: show.id, status: { in: startable } },
+          data: { status: 'AWAITING_COSIGN' },
+        });
+
+        if (count > 0) {
+          await createCosignRequest(tx, {
+            networkId: show.networkId,
+            kind: 'SHOW_START',
+            summary: `Start show "${show.name}" (${cueCount} cues)`,
+            requestedById: userId,
+            showId: show.id,
+          });
+        }
+
+        return count > 0;
+      });
+
+      if (!held) {
+        return res.status(409).json({ error: `Show is already ${show.status}` });
+      }
+
+      return respondWithShow(res, show.id, 202);
+    }
+
+    const started = await prisma.$transaction(tx => beginShow(tx, show.id, startable, userId));
+
+    if (!started) {
+      return res.status(409).json({ error: `Show is already ${show.status}` });
+    }
+
+    await respondWithShow(res, show.id);
+  } catch (error) {
+    console.error('Start show error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Pause a running show: the clock stops and no further cues are queued
+ */
+export const pauseShow = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const loaded = await loadShow(req, res);
+    if (!loaded) return;
+    const { show, access } = loaded;
+
+    if (!access.canStop) {
+      return res.status(403).json({ error: 'Insufficient permissions to pause shows' });
+    }
+
+    const { count } = await prisma.show.updateMany({
+      where: { id: show.id, status: 'RUNNING' },
+      data: { status: 'PAUSED', pausedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return res.status(409).json({ error: `Show is ${show.status}, only a running show can be paused` });
+    }
+
+    await respondWithShow(res, show.id);
+  } catch (error) {
+    console.error('Pause show error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Resume a paused show from where its clock stopped
+ */
+export const resumeShow = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const loaded = await loadShow(req, res);
+    if (!loaded) return;
+    const { show, access } = loaded;
+
+    if (!access.canCommand) {
+      return res.status(403).json({ error: 'Insufficient permissions to run shows' });
+    }
+
+    if (!isArmed(access.network.armState)) {
+      return res.status(409).json({
+        error: 'Network must be ARMED before a show can resume',
+        armState: access.network.armState,
+      });
+    }
+
+    if (show.status !== 'PAUSED' || !show.pausedAt) {
+      return res.status(409).json({ error: `Show is ${show.status}, only a paused show can be resumed` });
+    }
+
+    const outOfScope = await findCueTargetsOutsideScope(show.id, access.groupScope);
+    if (outOfScope.length > 0) {
+      return res.status(403).json({ error: 'Show fires units outside your assigned device groups', deviceIds: outOfScope });
+    }
+
+    const spentChannels = await findSpentCueChannels({ showId: show.id, queuedAt: null });
+    if (spentChannels.length > 0) {
+      return res.status(409).json({ error: 'Some remaining cue channels have already fired, reload them first', spentChannels });
+    }
+
+    const stepUp = await checkStepUp(req);
+    if (!stepUp.ok) {
+      return res.status(stepUp.status).json({ error: stepUp.error, ...stepUp.details });
+    }
+
+    const { count } = await prisma.show.updateMany({
+      where: { id: show.id, status: 'PAUSED', pausedAt: show.pausedAt },
+      data: {
+        status: 'RUNNING',
+        pausedAt: null,
+        pausedMs: show.pausedMs + (Date.now() - show.pausedAt.getTime()),
+      },
+    });
+
+    if (count === 0) {
+      return res.status(409).json({ error: 'Show state changed, please retry' });
+    }
+
+    await respondWithShow(res, show.id);
+  } catch (error) {
+    console.error('Resume show error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Abort a running or paused show. Cues not yet sent to a base station are cancelled.
+ */
+export const abortShow = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { reason } = abortSchema.parse(req.body ?? {});
+
+    const loaded = await loadShow(req, res);
+    if (!loaded) return;
+    const { show, access } = loaded;
+
+    if (!access.canStop) {
+      return res.status(403).json({ error: 'Insufficient permissions to abort shows' });
+    }
+
+    const aborted = await prisma.$transaction(tx => abortRunningShow(tx, show.id, reason || 'Aborted by operator', req.user!.userId));
+
+    if (!aborted) {
+      return res.status(409).json({ error: `Show is ${show.status}, nothing to abort` });
+    }
+
+    await respondWithShow(res, show.id);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Abort show error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -134,6 +134,7 @@ export const getCurrentUser = async (req: AuthRequest, res: Response) => {
         name: true,
         role: true,
         isActive: true,
+        firingPinHash: true,
       },
     });
 
@@ -141,7 +142,8 @@ export const getCurrentUser = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.json(user);
+    const { firingPinHash, ...profile } = user;
+    res.json({ ...profile, hasFiringPin: !!firingPinHash });
   } catch (error) {
     console.error('Get current user error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -2,6 +2,13 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import rateLimit from 'express-rate-limit';
+import { GatewayRequest } from './middleware/gatewayAuth';
+import { startCommandTimeoutWorker } from './workers/commandTimeout.worker';
+import { startBaseStationHealthWorker } from './workers/baseStationHealth.worker';
+import { startArmStateWorker } from './workers/armState.worker';
+import { startShowRunnerWorker } from './workers/showRunner.worker';
+import { startCosignWorker } from './workers/cosign.worker';
+import { startDiagnosticsWorker } from './workers/diagnostics.worker';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
@@ -10,6 +17,8 @@ import userRoutes from './routes/user.routes';
 import networkRoutes from './routes/network.routes';
 import deviceRoutes from './routes/device.routes';
 import commandRoutes from './routes/command.routes';
+import showRoutes from './routes/show.routes';
+import cosignRoutes from './routes/cosign.routes';
 
 // Load environment variables
 dotenv.config();
@@ -23,7 +32,12 @@ app.use(cors({
   credentials: true,
 }));
 
-app.use(express.json());
+// Keep the raw body so gateway request signatures can be verified
+app.use(express.json({
+  verify: (req, res, buf) => {
+    (req as GatewayRequest).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Rate limiting for API endpoints
@@ -52,6 +66,8 @@ app.use('/api/users', apiLimiter, userRoutes);
 app.use('/api/networks', apiLimiter, networkRoutes);
 app.use('/api/devices', apiLimiter, deviceRoutes);
 app.use('/api/commands', apiLimiter, commandRoutes);
+app.use('/api/shows', apiLimiter, showRoutes);
+app.use('/api/cosign', apiLimiter, cosignRoutes);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -68,7 +84,26 @@ app.use((req, res) => {
 app.listen(PORT, () => {
   console.log(`🚀 Server is running on port ${PORT}`);
   console.log(`📡 Gateway polling endpoint: http://localhost:${PORT}/api/gateway/poll`);
+  console.log(`📡 Gateway long-poll endpoint: http://localhost:${PORT}/api/gateway/poll/wait`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
+
+  startCommandTimeoutWorker();
+  console.log('⏱️ Command timeout worker started');
+
+  startBaseStationHealthWorker();
+  console.log('📶 Base station health worker started');
+
+  startArmStateWorker();
+  console.log('🔒 Arm state worker started');
+
+  startShowRunnerWorker();
+  console.log('🎆 Show runner started');
+
+  startCosignWorker();
+  console.log('✍️ Co-sign expiry worker started');
+
+  startDiagnosticsWorker();
+  console.log('🩺 Diagnostics scheduler started');
 });
 
 export default app;
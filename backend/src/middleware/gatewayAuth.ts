@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction } from 'express';
+import { Device, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { buildStringToSign, signGatewayRequest, signaturesMatch } from '../utils/gatewaySignature';
+
+const DEFAULT_MAX_CLOCK_SKEW_SECONDS = 300;
+const NONCE_CLEANUP_INTERVAL_MS = 60 * 1000;
+
+const getMaxClockSkewSeconds = () => {
+  return parseInt(process.env.GATEWAY_MAX_CLOCK_SKEW_SECONDS || '') || DEFAULT_MAX_CLOCK_SKEW_SECONDS;
+};
+
+export interface GatewayRequest extends Request {
+  baseStation?: Device;
+  rawBody?: Buffer;
+}
+
+// Error codes returned to firmware so it can decide whether to retry, resync its clock or stop
+const reject = (res: Response, status: 401 | 403, code: string, error: string) => {
+  return res.status(status).json({ error, code });
+};
+
+let lastNonceCleanup = 0;
+
+const cleanupExpiredNonces = async () => {
+  const now = Date.now();
+  if (now - lastNonceCleanup < NONCE_CLEANUP_INTERVAL_MS) {
+    return;
+  }
+  lastNonceCleanup = now;
+
+  await prisma.gatewayNonce.deleteMany({
+    where: { createdAt: { lt: new Date(now - getMaxClockSkewSeconds() * 2 * 1000) } },
+  });
+};
+
+/**
+ * Authenticate base stations with HMAC-signed requests.
+ *
+ * Required headers:
+ * - X-Board-Id:  12-digit base station ID
+ * - X-Timestamp: Unix time in seconds
+ * - X-Nonce:     Unique value per request (8-64 chars)
+ * - X-Signature: hex HMAC-SHA256 of METHOD\nPATH\nTIMESTAMP\nNONCE\nSHA256(BODY)
+ */
+export const authenticateGateway = async (req: GatewayRequest, res: Response, next: NextFunction) => {
+  try {
+    const boardId = req.header('x-board-id');
+    const timestamp = req.header('x-timestamp');
+    const nonce = req.header('x-nonce');
+    const signature = req.header('x-signature');
+
+    if (!boardId || !timestamp || !nonce || !signature) {
+      return reject(res, 401, 'MISSING_CREDENTIALS', 'Gateway signature headers required');
+    }
+
+    if (!/^\d+$/.test(timestamp) || !/^[A-Za-z0-9_-]{8,64}$/.test(nonce) || !/^[0-9a-f]+$/i.test(signature)) {
+      return reject(res, 401, 'MALFORMED_CREDENTIALS', 'Malformed gateway signature headers');
+    }
+
+    const skew = Math.abs(Math.floor(Date.now() / 1000) - parseInt(timestamp));
+    if (skew > getMaxClockSkewSeconds()) {
+      return reject(res, 401, 'STALE_TIMESTAMP', 'Request timestamp outside allowed window');
+    }
+
+    const baseStation = await prisma.device.findUnique({
+      where: { boardId },
+      include: { gatewayCredential: true },
+    });
+
+    if (!baseStation || baseStation.deviceType !== 'BASE_STATION') {
+      return reject(res, 401, 'UNKNOWN_DEVICE', 'Base station not registered');
+    }
+
+    const credential = baseStation.gatewayCredential;
+    if (!credential) {
+      return reject(res, 403, 'NOT_PROVISIONED', 'No gateway credentials issued for this base station');
+    }
+
+    if (credential.revokedAt) {
+      return reject(res, 403, 'CREDENTIALS_REVOKED', 'Gateway credentials have been revoked');
+    }
+
+    const stringToSign = buildStringToSign(
+      req.method,
+      req.originalUrl,
+      timestamp,
+      nonce,
+      req.rawBody ?? ''
+    );
+    const expected = signGatewayRequest(credential.secret, stringToSign);
+
+    if (!signaturesMatch(expected, signature)) {
+      return reject(res, 401, 'INVALID_SIGNATURE', 'Invalid request signature');
+    }
+
+    // Each nonce may only be used once; the unique index rejects replays across server instances
+    try {
+      await prisma.gatewayNonce.create({
+        data: { deviceId: baseStation.id, nonce },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return reject(res, 401, 'REPLAYED_NONCE', 'Nonce has already been used');
+      }
+      throw error;
+    }
+
+    await prisma.gatewayCredential.update({
+      where: { id: credential.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    cleanupExpiredNonces().catch(error => console.error('Nonce cleanup error:', error));
+
+    const { gatewayCredential, ...device } = baseStation;
+    req.baseStation = device;
+    next();
+  } catch (error) {
+    console.error('Gateway auth error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
@@ -1,9 +1,12 @@
 import { Router } from 'express';
-import { login, register } from '../controllers/auth.controller';
+import { authenticateToken } from '../middleware/auth';
+import { login, register, stepUp, setFiringPin } from '../controllers/auth.controller';
 
 const router = Router();
 
 router.post('/login', login);
 router.post('/register', register);
+router.post('/step-up', authenticateToken, stepUp);
+router.put('/firing-pin', authenticateToken, setFiringPin);
 
 export default router;
@@ -1,10 +1,26 @@
 import { Router } from 'express';
 import { authenticateToken } from '../middleware/auth';
-import { createCommand, getCommands, getTelemetry } from '../controllers/command.controller';
+import {
+  createCommand,
+  createBatchCommand,
+  getBatchCommand,
+  cancelCommand,
+  reprioritiseCommand,
+  getCommandEvents,
+  getCommands,
+  getMessageTypes,
+  getTelemetry,
+} from '../controllers/command.controller';
 
 const router = Router();
 
 router.post('/', authenticateToken, createCommand);
+router.post('/batch', authenticateToken, createBatchCommand);
+router.get('/batches/:batchId', authenticateToken, getBatchCommand);
+router.post('/:commandId/cancel', authenticateToken, cancelCommand);
+router.patch('/:commandId/priority', authenticateToken, reprioritiseCommand);
+router.get('/message-types', authenticateToken, getMessageTypes);
+router.get('/:commandId/events', authenticateToken, getCommandEvents);
 router.get('/network/:networkId', authenticateToken, getCommands);
 router.get('/telemetry/:deviceId', authenticateToken, getTelemetry);
 
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { getCosignRequests, approveCosignRequest, denyCosignRequest } from '../controllers/cosign.controller';
+
+const router = Router();
+
+router.get('/network/:networkId', authenticateToken, getCosignRequests);
+router.post('/:requestId/approve', authenticateToken, approveCosignRequest);
+router.post('/:requestId/deny', authenticateToken, denyCosignRequest);
+
+export default router;
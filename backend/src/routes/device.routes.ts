@@ -5,13 +5,31 @@ import {
   getDevice,
   registerDevice,
   updateDevice,
+  rotateGatewayCredentials,
+  revokeGatewayCredentials,
+  getDiscoveries,
+  approveDevice,
+  rejectDevice,
+  getBlockedBoards,
+  unblockBoard,
+  getDeviceChannels,
+  updateDeviceChannel,
 } from '../controllers/device.controller';
 
 const router = Router();
 
 router.get('/network/:networkId', authenticateToken, getDevices);
 router.post('/network/:networkId', authenticateToken, registerDevice);
+router.get('/network/:networkId/discoveries', authenticateToken, getDiscoveries);
+router.get('/network/:networkId/blocked', authenticateToken, getBlockedBoards);
+router.delete('/network/:networkId/blocked/:blockedId', authenticateToken, unblockBoard);
 router.get('/:deviceId', authenticateToken, getDevice);
 router.patch('/:deviceId', authenticateToken, updateDevice);
+router.post('/:deviceId/approve', authenticateToken, approveDevice);
+router.post('/:deviceId/reject', authenticateToken, rejectDevice);
+router.post('/:deviceId/credentials', authenticateToken, rotateGatewayCredentials);
+router.delete('/:deviceId/credentials', authenticateToken, revokeGatewayCredentials);
+router.get('/:deviceId/channels', authenticateToken, getDeviceChannels);
+router.patch('/:deviceId/channels/:channel', authenticateToken, updateDeviceChannel);
 
 export default router;
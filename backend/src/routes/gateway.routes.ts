@@ -1,12 +1,19 @@
 import { Router } from 'express';
-import { poll, receiveTelemetry, acknowledgeCommand } from '../controllers/gateway.controller';
+import { authenticateGateway } from '../middleware/gatewayAuth';
+import { poll, waitForCommands, receiveTelemetry, receiveTelemetryBatch, acknowledgeCommand, acknowledgeStop, getServerTime } from '../controllers/gateway.controller';
 
 const router = Router();
 
+// Clock sync, unsigned so a base station can fix its clock before signing anything
+router.get('/time', getServerTime);
+
 // These endpoints are called by base stations (NodeMCU)
-// No authentication required for gateway endpoints
-router.get('/poll', poll);
-router.post('/telemetry', receiveTelemetry);
-router.post('/ack', acknowledgeCommand);
+// Requests must be HMAC-signed with the base station's gateway secret
+router.get('/poll', authenticateGateway, poll);
+router.get('/poll/wait', authenticateGateway, waitForCommands); // Long-poll, preferred over /poll
+router.post('/telemetry', authenticateGateway, receiveTelemetry);
+router.post('/telemetry/batch', authenticateGateway, receiveTelemetryBatch);
+router.post('/ack', authenticateGateway, acknowledgeCommand);
+router.post('/stop/ack', authenticateGateway, acknowledgeStop);
 
 export default router;
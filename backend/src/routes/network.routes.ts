@@ -5,8 +5,40 @@ import {
   getNetwork,
   createNetwork,
   addGuest,
+  updateGuest,
   removeGuest,
 } from '../controllers/network.controller';
+import {
+  getArmStatus,
+  getArmReadiness,
+  armNetwork,
+  confirmArm,
+  disarmNetwork,
+  updateArmPolicy,
+  emergencyStop,
+  resetEmergencyStop,
+} from '../controllers/arm.controller';
+import {
+  getInterlocks,
+  updateInterlocks,
+  checkDeviceInterlocks,
+  getInterlockOverrides,
+  createAudienceZone,
+  deleteAudienceZone,
+} from '../controllers/interlock.controller';
+import {
+  getDeviceGroups,
+  createDeviceGroup,
+  updateDeviceGroup,
+  deleteDeviceGroup,
+  updateGroupMembers,
+} from '../controllers/group.controller';
+import {
+  getDiagnosticSchedules,
+  createDiagnosticSchedule,
+  updateDiagnosticSchedule,
+  deleteDiagnosticSchedule,
+} from '../controllers/diagnostics.controller';
 
 const router = Router();
 
@@ -14,6 +46,30 @@ router.get('/', authenticateToken, getNetworks);
 router.post('/', authenticateToken, createNetwork);
 router.get('/:networkId', authenticateToken, getNetwork);
 router.post('/:networkId/guests', authenticateToken, addGuest);
+router.patch('/:networkId/guests/:guestId', authenticateToken, updateGuest);
 router.delete('/:networkId/guests/:guestId', authenticateToken, removeGuest);
+router.get('/:networkId/arm', authenticateToken, getArmStatus);
+router.get('/:networkId/arm/readiness', authenticateToken, getArmReadiness);
+router.post('/:networkId/arm', authenticateToken, armNetwork);
+router.post('/:networkId/arm/confirm', authenticateToken, confirmArm);
+router.patch('/:networkId/arm/policy', authenticateToken, updateArmPolicy);
+router.post('/:networkId/disarm', authenticateToken, disarmNetwork);
+router.post('/:networkId/emergency-stop', authenticateToken, emergencyStop);
+router.post('/:networkId/emergency-stop/reset', authenticateToken, resetEmergencyStop);
+router.get('/:networkId/interlocks', authenticateToken, getInterlocks);
+router.put('/:networkId/interlocks', authenticateToken, updateInterlocks);
+router.get('/:networkId/interlocks/overrides', authenticateToken, getInterlockOverrides);
+router.get('/:networkId/interlocks/check/:deviceId', authenticateToken, checkDeviceInterlocks);
+router.post('/:networkId/audience-zones', authenticateToken, createAudienceZone);
+router.delete('/:networkId/audience-zones/:zoneId', authenticateToken, deleteAudienceZone);
+router.get('/:networkId/groups', authenticateToken, getDeviceGroups);
+router.post('/:networkId/groups', authenticateToken, createDeviceGroup);
+router.patch('/:networkId/groups/:groupId', authenticateToken, updateDeviceGroup);
+router.delete('/:networkId/groups/:groupId', authenticateToken, deleteDeviceGroup);
+router.post('/:networkId/groups/:groupId/members', authenticateToken, updateGroupMembers);
+router.get('/:networkId/diagnostics', authenticateToken, getDiagnosticSchedules);
+router.post('/:networkId/diagnostics', authenticateToken, createDiagnosticSchedule);
+router.patch('/:networkId/diagnostics/:scheduleId', authenticateToken, updateDiagnosticSchedule);
+router.delete('/:networkId/diagnostics/:scheduleId', authenticateToken, deleteDiagnosticSchedule);
 
 export default router;
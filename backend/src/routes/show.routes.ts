@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import {
+  getShows,
+  getShow,
+  createShow,
+  updateShow,
+  deleteShow,
+  startShow,
+  pauseShow,
+  resumeShow,
+  abortShow,
+} from '../controllers/show.controller';
+
+const router = Router();
+
+router.get('/network/:networkId', authenticateToken, getShows);
+router.post('/network/:networkId', authenticateToken, createShow);
+router.get('/:showId', authenticateToken, getShow);
+router.put('/:showId', authenticateToken, updateShow);
+router.delete('/:showId', authenticateToken, deleteShow);
+router.post('/:showId/start', authenticateToken, startShow);
+router.post('/:showId/pause', authenticateToken, pauseShow);
+router.post('/:showId/resume', authenticateToken, resumeShow);
+router.post('/:showId/abort', authenticateToken, abortShow);
+
+export default router;
@@ -0,0 +1,116 @@
+import { ArmState, Prisma } from '@prisma/client';
+import { IGNITION_MESSAGE_TYPES } from './commandPolicy';
+import { transitionCommands, userOrSystem } from './commandEvents';
+import { closeCosignRequest } from './cosign';
+
+const DEFAULT_ARM_CONFIRM_WINDOW_MS = 60 * 1000;
+const DEFAULT_ARM_INACTIVITY_TIMEOUT_MS = 10 * 60 * 1000;
+
+// States in which ignition commands are accepted and dispatched
+export const ARMED_STATES: ArmState[] = ['ARMED', 'FIRING'];
+
+export const isArmed = (state: ArmState) => ARMED_STATES.includes(state);
+
+export const getArmConfirmWindowMs = () => {
+  return parseInt(process.env.ARM_CONFIRM_WINDOW_MS || '') || DEFAULT_ARM_CONFIRM_WINDOW_MS;
+};
+
+export const getArmInactivityTimeoutMs = () => {
+  return parseInt(process.env.ARM_INACTIVITY_TIMEOUT_MS || '') || DEFAULT_ARM_INACTIVITY_TIMEOUT_MS;
+};
+
+interface TransitionOptions {
+  userId?: string | null; // Null/undefined for server-initiated transitions
+  reason?: string;
+  data?: Prisma.NetworkUpdateManyMutationInput;
+}
+
+/**
+ * Move a network to a new arm state if it is currently in one of `from`, and log it.
+ * The update is conditional on the state read, so concurrent transitions can't
+ * both succeed. Returns the previous state, or null if the transition didn't apply.
+ * Going to SAFE also cancels every queued or held ignition (see `cancelQueuedIgnitions`),
+ * so pass a transaction client to keep both in one commit.
+ */
+export const transitionArmState = async (
+  db: Prisma.TransactionClient,
+  networkId: string,
+  from: ArmState[],
+  to: ArmState,
+  { userId = null, reason, data = {} }: TransitionOptions = {}
+): Promise<ArmState | null> => {
+  const network = await db.network.findUnique({
+    where: { id: networkId },
+    select: { armState: true },
+  });
+
+  if (!network || !from.includes(network.armState)) {
+    return null;
+  }
+
+  const now = new Date();
+  const { count } = await db.network.updateMany({
+    where: { id: networkId, armState: network.armState },
+    data: {
+      ...data,
+      armState: to,
+      armStateChangedAt: now,
+      ...(to === 'SAFE' && { armRequestedById: null, armExpiresAt: null }),
+    },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  await db.armTransition.create({
+    data: {
+      networkId,
+      fromState: network.armState,
+      toState: to,
+      userId,
+      reason,
+      createdAt: now,
+    },
+  });
+
+  if (to === 'SAFE') {
+    await cancelQueuedIgnitions(db, networkId, reason ?? 'Network disarmed', userId);
+  }
+
+  return network.armState;
+};
+
+/**
+ * A scheduled ignition can be queued up to SCHEDULED_MAX_AHEAD_MS ahead; it must not
+ * survive a disarm and fire after the next arm. Pending ignition co-sign requests are
+ * closed, then every PENDING or AWAITING_COSIGN ignition left is cancelled.
+ */
+const cancelQueuedIgnitions = async (
+  db: Prisma.TransactionClient,
+  networkId: string,
+  reason: string,
+  userId: string | null
+) => {
+  const now = new Date();
+  const message = `Network disarmed: ${reason}`;
+
+  const pendingCosigns = await db.cosignRequest.findMany({
+    where: { networkId, kind: 'IGNITE', status: 'PENDING' },
+    select: { id: true },
+  });
+  for (const request of pendingCosigns) {
+    await closeCosignRequest(db, request.id, 'CANCELLED', message, userId);
+  }
+
+  await transitionCommands(
+    db,
+    {
+      networkId,
+      messageType: { in: IGNITION_MESSAGE_TYPES },
+      status: { in: ['PENDING', 'AWAITING_COSIGN'] },
+    },
+    { status: 'CANCELLED', completedAt: now, errorMessage: message },
+    userOrSystem(userId)
+  );
+};
@@ -0,0 +1,32 @@
+import { Device } from '@prisma/client';
+
+// Weight of a new sample; smoothing absorbs per-packet transit jitter
+const SMOOTHING = 0.2;
+
+// Start over from a fresh sample when the last measurement is older than this
+const DEFAULT_CLOCK_OFFSET_MAX_AGE_MS = 10 * 60 * 1000;
+
+const getClockOffsetMaxAgeMs = () => {
+  return parseInt(process.env.CLOCK_OFFSET_MAX_AGE_MS || '') || DEFAULT_CLOCK_OFFSET_MAX_AGE_MS;
+};
+
+/**
+ * Fold a new clock offset sample (device time minus server time at receipt)
+ * into the device's running estimate. Returns the fields to write on the device.
+ */
+export const nextClockOffset = (
+  device: Pick<Device, 'clockOffsetMs' | 'clockOffsetAt'>,
+  sampleMs: number,
+  now: Date = new Date()
+) => {
+  const isFresh =
+    device.clockOffsetMs !== null &&
+    device.clockOffsetAt !== null &&
+    now.getTime() - device.clockOffsetAt.getTime() <= getClockOffsetMaxAgeMs();
+
+  const clockOffsetMs = isFresh
+    ? Math.round(device.clockOffsetMs! * (1 - SMOOTHING) + sampleMs * SMOOTHING)
+    : Math.round(sampleMs);
+
+  return { clockOffsetMs, clockOffsetAt: now };
+};
@@ -0,0 +1,351 @@
+import {
+  CommandBatch,
+  CommandBatchMode,
+  CommandPriority,
+  CommandTargetType,
+  Device,
+  MessageType,
+  Network,
+  Prisma,
+} from '@prisma/client';
+import prisma from './prisma';
+import { enqueueCommand, generateMessageId } from './commandQueue';
+import { notifyCommandQueued } from './commandNotifier';
+import { createCosignRequest } from './cosign';
+import { getResponseTypes, isIgnitionCommand } from './commandPolicy';
+
+// Base station firmware feature: can transmit one LoRa packet to every field unit in range
+export const BROADCAST_CAPABILITY = 'LORA_BROADCAST';
+
+// Requests field units answer when addressed by broadcast; ignition is always per unit
+const BROADCASTABLE_TYPES: MessageType[] = ['MSG_TYPE_PING', 'MSG_TYPE_BATT', 'MSG_TYPE_GPS'];
+
+// How long after the last base station sent a broadcast replies are still expected
+const DEFAULT_BROADCAST_RESPONSE_WINDOW_MS = 30000;
+
+const getBroadcastResponseWindowMs = () => {
+  return parseInt(process.env.BROADCAST_RESPONSE_WINDOW_MS || '') || DEFAULT_BROADCAST_RESPONSE_WINDOW_MS;
+};
+
+export type BatchTarget =
+  | { type: 'ALL' }
+  | { type: 'DEVICES'; deviceIds: string[] }
+  | { type: 'GROUP'; groupId: string };
+
+export type BatchModeRequest = CommandBatchMode | 'AUTO';
+
+interface CreateBatchInput {
+  network: Network;
+  target: BatchTarget;
+  messageType: MessageType;
+  priority?: CommandPriority;
+  payload?: Prisma.InputJsonValue;
+  fireAt?: Date;
+  mode: BatchModeRequest;
+  createdBy: string;
+  awaitingCosign?: boolean; // Hold fanned-out ignitions for a second approval
+}
+
+// A fanned-out batch queues every unit's command (and any co-sign request) in one transaction
+const FANOUT_TRANSACTION_TIMEOUT_MS = 30000;
+
+type BatchRejection = { deviceId: string; error: string };
+
+export type CreateBatchResult =
+  | { ok: true; batch: CommandBatch; cosignRequestId: string | null }
+  | { ok: false; status: 400; error: string; details?: Record<string, unknown> };
+
+/**
+ * Field units a batch target resolves to. Unknown, foreign, unapproved or
+ * non-field-unit IDs in an explicit list are returned as `invalidIds`.
+ */
+export const resolveBatchTargets = async (networkId: string, target: BatchTarget) => {
+  const devices = await prisma.device.findMany({
+    where: {
+      networkId,
+      deviceType: 'FIELD_UNIT',
+      approval: 'APPROVED',
+      ...(target.type === 'DEVICES' && { id: { in: target.deviceIds } }),
+      ...(target.type === 'GROUP' && { groupId: target.groupId }),
+    },
+    include: { network: true },
+    orderBy: { boardId: 'asc' },
+  });
+
+  const found = new Set(devices.map(d => d.id));
+  const invalidIds = target.type === 'DEVICES' ? target.deviceIds.filter(id => !found.has(id)) : [];
+
+  return { devices, invalidIds };
+};
+
+/**
+ * Why a single LoRa broadcast can't be used for this batch, or null if it can
+ */
+const getBroadcastBlocker = (targetType: CommandTargetType, messageType: MessageType, stations: Device[]) => {
+  if (targetType !== 'ALL') {
+    return 'Broadcast only reaches every unit, not a selection';
+  }
+  if (!BROADCASTABLE_TYPES.includes(messageType)) {
+    return `${messageType} cannot be broadcast`;
+  }
+  if (stations.length === 0) {
+    return 'No online base station available in this network';
+  }
+  if (stations.some(s => !s.capabilities.includes(BROADCAST_CAPABILITY))) {
+    return `Not every online base station reports ${BROADCAST_CAPABILITY} support`;
+  }
+  return null;
+};
+
+/**
+ * Queue one command for many field units: as one broadcast per online base
+ * station when the firmware supports it, otherwise fanned out into a regular
+ * command per unit (each routed and, for ignition, interlock-checked on its own).
+ */
+export const createCommandBatch = async ({
+  network,
+  target,
+  messageType,
+  priority,
+  payload,
+  fireAt,
+  mode,
+  createdBy,
+  awaitingCosign,
+}: CreateBatchInput): Promise<CreateBatchResult> => {
+  if (target.type === 'GROUP') {
+    const group = await prisma.deviceGroup.findFirst({ where: { id: target.groupId, networkId: network.id } });
+    if (!group) {
+      return { ok: false, status: 400, error: 'Device group not found in this network' };
+    }
+  }
+
+  const { devices, invalidIds } = await resolveBatchTargets(network.id, target);
+
+  if (invalidIds.length > 0) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Some targets are not approved field units in this network',
+      details: { invalidDeviceIds: invalidIds },
+    };
+  }
+
+  if (devices.length === 0) {
+    return { ok: false, status: 400, error: 'No field units to target' };
+  }
+
+  const stations = await prisma.device.findMany({
+    where: { networkId: network.id, deviceType: 'BASE_STATION', status: 'ONLINE' },
+  });
+  const broadcastBlocker = getBroadcastBlocker(target.type, messageType, stations);
+
+  if (mode === 'BROADCAST' && broadcastBlocker) {
+    return { ok: false, status: 400, error: `Cannot broadcast: ${broadcastBlocker}` };
+  }
+
+  const batchMode: CommandBatchMode = mode === 'FANOUT' || broadcastBlocker ? 'FANOUT' : 'BROADCAST';
+  const commandPriority = isIgnitionCommand(messageType) ? 'CRITICAL' : priority || 'NORMAL';
+  const messageId = batchMode === 'BROADCAST' ? generateMessageId() : null;
+
+  // Each branch creates the batch in the same transaction as its commands, so a failure leaves neither
+  const createBatch = (db: Prisma.TransactionClient) => {
+    return db.commandBatch.create({
+      data: {
+        networkId: network.id,
+        messageType,
+        priority: commandPriority,
+        payload,
+        targetType: target.type,
+        targetGroupId: target.type === 'GROUP' ? target.groupId : null,
+        targetDeviceIds: devices.map(d => d.id),
+        mode: batchMode,
+        messageId,
+        createdBy,
+      },
+    });
+  };
+
+  if (batchMode === 'BROADCAST') {
+    const batch = await prisma.$transaction(async tx => {
+      const batch = await createBatch(tx);
+
+      await tx.command.createMany({
+        data: stations.map(station => ({
+          networkId: network.id,
+          sourceDeviceId: station.id,
+          targetDeviceId: null,
+          routeReason: 'Broadcast to every field unit in range',
+          routedAt: new Date(),
+          messageType,
+          priority: commandPriority,
+          payload,
+          fireAt,
+          batchId: batch.id,
+          messageId,
+          createdBy,
+        })),
+      });
+
+      const broadcasts = await tx.command.findMany({
+        where: { batchId: batch.id },
+        select: { id: true, status: true, sourceDeviceId: true },
+      });
+      await tx.commandEvent.createMany({
+        data: broadcasts.map(command => ({
+          commandId: command.id,
+          fromStatus: null,
+          toStatus: command.status,
+          actor: 'USER' as const,
+          userId: createdBy,
+          baseStationId: command.sourceDeviceId,
+          message: 'Broadcast to every field unit in range',
+        })),
+      });
+
+      return batch;
+    });
+    notifyCommandQueued(network.id);
+    return { ok: true, batch, cosignRequestId: null };
+  }
+
+  const { batch, cosignRequestId } = await prisma.$transaction(
+    async tx => {
+      const batch = await createBatch(tx);
+      const rejections: BatchRejection[] = [];
+      let queued = 0;
+
+      for (const device of devices) {
+        const result = await enqueueCommand({
+          targetDevice: device,
+          messageType,
+          priority: commandPriority,
+          payload,
+          fireAt,
+          batchId: batch.id,
+          createdBy,
+          awaitingCosign,
+          db: tx,
+        });
+        if (result.ok) {
+          queued++;
+        } else {
+          rejections.push({ deviceId: device.id, error: result.error });
+        }
+      }
+
+      // One approval releases every unit of the batch
+      let cosignRequestId: string | null = null;
+      if (awaitingCosign && queued > 0) {
+        const request = await createCosignRequest(tx, {
+          networkId: network.id,
+          kind: 'IGNITE',
+          summary: `${messageType} on ${queued} unit(s)${fireAt ? ` at ${fireAt.toISOString()}` : ''}`,
+          requestedById: createdBy,
+          commandWhere: { batchId: batch.id },
+        });
+        cosignRequestId = request.id;
+      }
+
+      if (rejections.length === 0) {
+        return { batch, cosignRequestId };
+      }
+
+      return {
+        batch: await tx.commandBatch.update({ where: { id: batch.id }, data: { rejections } }),
+        cosignRequestId,
+      };
+    },
+    { timeout: FANOUT_TRANSACTION_TIMEOUT_MS }
+  );
+
+  // Wake base stations holding a long-poll request
+  if (!awaitingCosign) {
+    notifyCommandQueued(network.id);
+  }
+
+  return { ok: true, batch, cosignRequestId };
+};
+
+/**
+ * Per-target results of a batch. Fan-out targets report their own command's
+ * status; broadcast targets report whether a reply carrying the broadcast's
+ * messageId has come back from them.
+ */
+export const getBatchReport = async (batch: CommandBatch) => {
+  const [devices, commands] = await Promise.all([
+    prisma.device.findMany({
+      where: { id: { in: batch.targetDeviceIds } },
+      select: { id: true, boardId: true, name: true },
+      orderBy: { boardId: 'asc' },
+    }),
+    prisma.command.findMany({
+      where: { batchId: batch.id },
+      include: { sourceDevice: { select: { id: true, boardId: true, name: true } } },
+    }),
+  ]);
+
+  const rejections = (batch.rejections as BatchRejection[] | null) ?? [];
+
+  let targets;
+  if (batch.mode === 'BROADCAST') {
+    const replies = await prisma.telemetry.findMany({
+      where: {
+        deviceId: { in: batch.targetDeviceIds },
+        messageId: batch.messageId,
+        messageType: { in: getResponseTypes(batch.messageType) },
+        receivedAt: { gte: batch.createdAt },
+      },
+      orderBy: { receivedAt: 'asc' },
+    });
+    const replyDeadline = Date.now() - getBroadcastResponseWindowMs();
+    const stillWaiting = commands.some(
+      c =>
+        c.status === 'PENDING' ||
+        c.status === 'PROCESSING' ||
+        (c.status === 'COMPLETED' && c.completedAt !== null && c.completedAt.getTime() > replyDeadline)
+    );
+
+    targets = devices.map(device => {
+      const reply = replies.find(r => r.deviceId === device.id);
+      return {
+        deviceId: device.id,
+        boardId: device.boardId,
+        name: device.name,
+        commandId: null,
+        status: reply ? 'RESPONDED' : stillWaiting ? 'AWAITING_RESPONSE' : 'NO_RESPONSE',
+        respondedAt: reply?.receivedAt ?? null,
+        error: null,
+      };
+    });
+  } else {
+    targets = devices.map(device => {
+      const command = commands.find(c => c.targetDeviceId === device.id);
+      const rejection = rejections.find(r => r.deviceId === device.id);
+      return {
+        deviceId: device.id,
+        boardId: device.boardId,
+        name: device.name,
+        commandId: command?.id ?? null,
+        status: command?.status ?? 'REJECTED',
+        respondedAt: command?.completedAt ?? null,
+        error: rejection?.error ?? command?.errorMessage ?? null,
+      };
+    });
+  }
+
+  const summary: Record<string, number> = {};
+  for (const target of targets) {
+    summary[target.status] = (summary[target.status] ?? 0) + 1;
+  }
+
+  return {
+    ...batch,
+    targets,
+    summary,
+    broadcasts:
+      batch.mode === 'BROADCAST'
+        ? commands.map(c => ({ commandId: c.id, baseStation: c.sourceDevice, status: c.status }))
+        : [],
+  };
+};
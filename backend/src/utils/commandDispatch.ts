@@ -0,0 +1,134 @@
+import { Device, PrismaClient } from '@prisma/client';
+import {
+  IGNITION_MESSAGE_TYPES,
+  getIgnitionDispatchCutoff,
+  getScheduledDispatchHorizon,
+  getSchedulePolicy,
+} from './commandPolicy';
+import { ARMED_STATES } from './armState';
+import { recordCommandEvent } from './commandEvents';
+
+const MAX_CLAIM_ATTEMPTS = 5;
+
+/**
+ * Atomically claim the next dispatchable command for a base station.
+ *
+ * The PENDING → PROCESSING switch is a conditional update, so when several base
+ * stations or server instances race for the same command exactly one of them
+ * wins; the others move on to the next candidate. Broadcast commands are bound
+ * to the claiming base station so only it may acknowledge them. The claim and its
+ * dispatch event are written in one transaction, so no command is PROCESSING unlogged.
+ *
+ * Scheduled commands are held back until their fire-at time is within the
+ * dispatch lead, and never handed out once it has passed.
+ */
+export const claimNextCommand = async (db: PrismaClient, baseStation: Device) => {
+  for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+    const now = new Date();
+    const claim = await db.$transaction(async tx => {
+      // Priority: CRITICAL > HIGH > NORMAL > LOW
+      // Send only ONE command per poll to prevent LoRa congestion
+      const candidate = await tx.command.findFirst({
+        where: {
+          networkId: baseStation.networkId,
+          status: 'PENDING',
+          AND: [
+            {
+              OR: [
+                { sourceDeviceId: baseStation.id },
+                { sourceDeviceId: null }, // Broadcast commands
+              ],
+            },
+            {
+              OR: [
+                { fireAt: null },
+                { fireAt: { gt: now, lte: getScheduledDispatchHorizon(now) } }, // Late ones are expired, never sent
+              ],
+            },
+            {
+              // Never hand out an ignition command past its firing window or once the network is disarmed
+              OR: [
+                { messageType: { notIn: IGNITION_MESSAGE_TYPES } },
+                {
+                  network: { armState: { in: ARMED_STATES } },
+                  OR: [
+                    { fireAt: null, queuedAt: { gte: getIgnitionDispatchCutoff(now) } },
+                    { fireAt: { gt: now } },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+        orderBy: [
+          { priority: 'desc' },
+          { createdAt: 'asc' },
+        ],
+        select: { id: true, sourceDeviceId: true },
+      });
+
+      if (!candidate) {
+        return null;
+      }
+
+      const { count } = await tx.command.updateMany({
+        where: {
+          id: candidate.id,
+          status: 'PENDING',
+          sourceDeviceId: candidate.sourceDeviceId, // Not rerouted to another station meanwhile
+        },
+        data: {
+          status: 'PROCESSING',
+          dispatchedAt: now,
+          sourceDeviceId: baseStation.id,
+        },
+      });
+
+      if (count === 1) {
+        await recordCommandEvent(tx, candidate.id, 'PENDING', 'PROCESSING', {
+          actor: 'BASE_STATION',
+          baseStationId: baseStation.id,
+          message: 'Dispatched',
+        });
+      }
+      return { id: candidate.id, claimed: count === 1 };
+    });
+
+    if (!claim) {
+      return null;
+    }
+
+    if (claim.claimed) {
+      return db.command.findUnique({
+        where: { id: claim.id },
+        include: { targetDevice: true },
+      });
+    }
+    // Lost the race - another claimer got it first, try the next one
+  }
+
+  return null;
+};
+
+/**
+ * When the next scheduled command for this base station becomes dispatchable,
+ * so a held long-poll can wake up for it. Null if nothing is scheduled.
+ */
+export const getNextScheduledDispatchAt = async (db: PrismaClient, baseStation: Device) => {
+  const next = await db.command.findFirst({
+    where: {
+      networkId: baseStation.networkId,
+      status: 'PENDING',
+      fireAt: { gt: getScheduledDispatchHorizon() },
+      OR: [{ sourceDeviceId: baseStation.id }, { sourceDeviceId: null }],
+    },
+    orderBy: { fireAt: 'asc' },
+    select: { fireAt: true },
+  });
+
+  if (!next?.fireAt) {
+    return null;
+  }
+
+  return new Date(next.fireAt.getTime() - getSchedulePolicy().dispatchLeadMs);
+};
@@ -0,0 +1,64 @@
+import { CommandEventActor, CommandStatus, Prisma } from '@prisma/client';
+
+export interface CommandEventInput {
+  actor: CommandEventActor;
+  userId?: string | null;
+  baseStationId?: string | null;
+  message?: string | null;
+  data?: Prisma.InputJsonValue;
+}
+
+type CommandTransitionData = Omit<Prisma.CommandUncheckedUpdateManyInput, 'status'> & { status?: CommandStatus };
+
+/**
+ * Actor for a change made by a user, or by a background worker when there is none
+ */
+export const userOrSystem = (userId: string | null | undefined): CommandEventInput =>
+  userId ? { actor: 'USER', userId } : { actor: 'SYSTEM' };
+
+/**
+ * Log one state change of a command
+ */
+export const recordCommandEvent = async (
+  db: Prisma.TransactionClient,
+  commandId: string,
+  fromStatus: CommandStatus | null,
+  toStatus: CommandStatus,
+  event: CommandEventInput
+) => {
+  await db.commandEvent.create({
+    data: { commandId, fromStatus, toStatus, ...event },
+  });
+};
+
+/**
+ * Conditional updateMany that logs an event for every command it changed. Each command is
+ * updated on its own under the caller's condition plus the status it was read with, so a
+ * concurrent change never gets an event it didn't make. The event message defaults to the
+ * errorMessage being written. Returns the number of commands changed.
+ */
+export const transitionCommands = async (
+  db: Prisma.TransactionClient,
+  where: Prisma.CommandWhereInput,
+  data: CommandTransitionData,
+  event: CommandEventInput
+) => {
+  const candidates = await db.command.findMany({ where, select: { id: true, status: true } });
+  const message = event.message ?? (typeof data.errorMessage === 'string' ? data.errorMessage : null);
+
+  let changed = 0;
+  for (const candidate of candidates) {
+    const { count } = await db.command.updateMany({
+      where: { AND: [where, { id: candidate.id, status: candidate.status }] },
+      data,
+    });
+    if (count === 0) {
+      continue;
+    }
+
+    await recordCommandEvent(db, candidate.id, candidate.status, data.status ?? candidate.status, { ...event, message });
+    changed++;
+  }
+
+  return changed;
+};
@@ -0,0 +1,34 @@
+import { EventEmitter } from 'events';
+
+/**
+ * In-process signal that a command became dispatchable in a network.
+ * Held long-poll requests wait on it instead of re-querying the database;
+ * they still re-check periodically for commands queued by other server instances.
+ */
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per held base station connection
+
+export const notifyCommandQueued = (networkId: string) => {
+  emitter.emit(networkId);
+};
+
+/**
+ * Resolve when a command is queued in the network or the timeout elapses.
+ * Returns a cancel function that releases the listener early.
+ */
+export const waitForCommand = (networkId: string, timeoutMs: number) => {
+  let cancel = () => {};
+
+  const promise = new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      emitter.off(networkId, done);
+      resolve();
+    };
+    const timer = setTimeout(done, timeoutMs);
+    emitter.on(networkId, done);
+    cancel = done;
+  });
+
+  return { promise, cancel: () => cancel() };
+};
@@ -0,0 +1,85 @@
+import { CommandPriority, MessageType } from '@prisma/client';
+
+// Message types that trigger pyrotechnics and must never fire late
+export const IGNITION_MESSAGE_TYPES: MessageType[] = ['MSG_TYPE_IGNITE', 'MSG_TYPE_SET_R'];
+
+const DEFAULT_ACK_TIMEOUTS_MS: Record<CommandPriority, number> = {
+  CRITICAL: 10000,
+  HIGH: 15000,
+  NORMAL: 30000,
+  LOW: 60000,
+};
+
+const readMs = (name: string, fallback: number): number => {
+  return parseInt(process.env[name] || '') || fallback;
+};
+
+export const isIgnitionCommand = (messageType: MessageType): boolean => {
+  return IGNITION_MESSAGE_TYPES.includes(messageType);
+};
+
+/**
+ * How long a PROCESSING command may wait for /ack before it is retried
+ * (COMMAND_TIMEOUT_<PRIORITY>_MS)
+ */
+export const getAckTimeoutMs = (priority: CommandPriority): number => {
+  return readMs(`COMMAND_TIMEOUT_${priority}_MS`, DEFAULT_ACK_TIMEOUTS_MS[priority]);
+};
+
+/**
+ * Stricter policy for ignition commands: a short ack timeout, and a hard
+ * maximum age after which the command is never dispatched again
+ */
+export const getIgnitionPolicy = () => ({
+  ackTimeoutMs: readMs('IGNITE_ACK_TIMEOUT_MS', 5000),
+  maxAgeMs: readMs('IGNITE_MAX_AGE_MS', 15000),
+});
+
+/**
+ * Ignition commands queued before this instant are too old to dispatch
+ */
+export const getIgnitionDispatchCutoff = (now: Date = new Date()): Date => {
+  return new Date(now.getTime() - getIgnitionPolicy().maxAgeMs);
+};
+
+/**
+ * Timing for commands with a fire-at time: they are handed to base stations
+ * `dispatchLeadMs` before firing, and must be scheduled between `minLeadMs`
+ * and `maxAheadMs` from now
+ */
+export const getSchedulePolicy = () => ({
+  dispatchLeadMs: readMs('SCHEDULED_DISPATCH_LEAD_MS', 5000),
+  minLeadMs: readMs('SCHEDULED_MIN_LEAD_MS', 1000),
+  maxAheadMs: readMs('SCHEDULED_MAX_AHEAD_MS', 24 * 60 * 60 * 1000),
+});
+
+/**
+ * Scheduled commands firing at or before this instant are due for dispatch
+ */
+export const getScheduledDispatchHorizon = (now: Date = new Date()): Date => {
+  return new Date(now.getTime() + getSchedulePolicy().dispatchLeadMs);
+};
+
+// Telemetry message types a field unit sends in reply to each request type
+const RESPONSE_TYPES: Partial<Record<MessageType, MessageType[]>> = {
+  MSG_TYPE_PING: ['MSG_TYPE_PONG'],
+  MSG_TYPE_BATT: ['MSG_TYPE_BATT'],
+  MSG_TYPE_GPS: ['MSG_TYPE_COORD', 'MSG_TYPE_GPS'],
+  MSG_TYPE_CONT: ['MSG_TYPE_CONT'],
+};
+
+/**
+ * Telemetry message types that answer a request of the given type
+ */
+export const getResponseTypes = (requestType: MessageType): MessageType[] => {
+  return RESPONSE_TYPES[requestType] ?? [];
+};
+
+/**
+ * Request message types that a telemetry message of the given type answers
+ */
+export const getRequestTypesAnsweredBy = (responseType: MessageType): MessageType[] => {
+  return (Object.keys(RESPONSE_TYPES) as MessageType[]).filter(requestType =>
+    RESPONSE_TYPES[requestType]!.includes(responseType)
+  );
+};
@@ -0,0 +1,215 @@
+import { CommandPriority, Device, MessageType, Network, Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { selectCommandRoute } from './commandRouting';
+import { notifyCommandQueued } from './commandNotifier';
+import { isIgnitionCommand } from './commandPolicy';
+import { getArmInactivityTimeoutMs, isArmed, transitionArmState } from './armState';
+import { applyInterlockOverrides, evaluateInterlocks, InterlockOverrideInput } from './interlocks';
+import { checkIgnitionChannel, lockIgnitionChannel } from './deviceChannels';
+import { recordCommandEvent } from './commandEvents';
+
+interface EnqueueCommandInput {
+  targetDevice: Device & { network: Network };
+  messageType: MessageType;
+  priority?: CommandPriority;
+  payload?: Prisma.InputJsonValue;
+  createdBy: string;
+  fireAt?: Date; // Execute at this server time instead of on receipt
+  batchId?: string; // Part of a multi-target command
+  overrides?: InterlockOverrideInput[];
+  awaitingCosign?: boolean; // Hold as AWAITING_COSIGN until a second person approves it
+  db?: Prisma.TransactionClient; // Write in the caller's transaction instead of a new one
+}
+
+const commandInclude = {
+  targetDevice: true,
+  sourceDevice: true,
+} as const;
+
+export type EnqueueResult =
+  | { ok: true; command: Prisma.CommandGetPayload<{ include: typeof commandInclude }> }
+  | { ok: false; status: 400 | 409; error: string; details?: Record<string, unknown> };
+
+/**
+ * Generate the 5-character message ID base stations use to match responses to a command
+ */
+export const generateMessageId = () => Math.random().toString(36).substring(2, 7).toUpperCase();
+
+/**
+ * Move an armed network to FIRING for a newly queued ignition, or extend the inactivity
+ * timer if it is already firing (counted from the fire-at time for scheduled ignitions).
+ * Returns false if the network is no longer armed.
+ */
+export const markNetworkFiring = async (
+  tx: Prisma.TransactionClient,
+  networkId: string,
+  userId: string,
+  reason: string,
+  fireAt?: Date | null
+) => {
+  const armExpiresAt = new Date(Math.max(Date.now(), fireAt?.getTime() ?? 0) + getArmInactivityTimeoutMs());
+  const { count: alreadyFiring } = await tx.network.updateMany({
+    where: { id: networkId, armState: 'FIRING' },
+    data: { armExpiresAt },
+  });
+
+  if (alreadyFiring > 0) {
+    return true;
+  }
+
+  const previous = await transitionArmState(tx, networkId, ['ARMED'], 'FIRING', {
+    userId,
+    reason,
+    data: { armExpiresAt },
+  });
+  return previous !== null;
+};
+
+/**
+ * Route and queue a command for a field unit. Permission checks are the caller's job.
+ *
+ * Ignition commands need an armed network; the arm state is re-checked inside the
+ * transaction so a concurrent disarm always wins, and each ignition resets the
+ * network's inactivity timer (counted from the fire-at time for scheduled ignitions). Ignition is also refused while any pre-ignition
+ * interlock fails, unless the caller passes an override for it (only owners may), and when its
+ * relay channel is out of range, already spent or already has an ignition queued (checked again
+ * under a per-channel lock in the transaction, so two requests cannot both take a channel).
+ * A command created `awaitingCosign` passes the same checks but is not dispatched until approved;
+ * pass `db` so its co-sign request is created in the same transaction. A caller passing `db`
+ * wakes the base stations itself once its transaction has committed.
+ */
+export const enqueueCommand = async ({
+  targetDevice,
+  messageType,
+  priority,
+  payload,
+  createdBy,
+  fireAt,
+  batchId,
+  overrides = [],
+  awaitingCosign = false,
+  db,
+}: EnqueueCommandInput): Promise<EnqueueResult> => {
+  const isIgnition = isIgnitionCommand(messageType);
+  const networkId = targetDevice.networkId;
+
+  if (isIgnition && !isArmed(targetDevice.network.armState)) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'Network must be ARMED before ignition commands can be sent',
+      details: { armState: targetDevice.network.armState },
+    };
+  }
+
+  let overridden: ReturnType<typeof applyInterlockOverrides>['overridden'] = [];
+  let channel: number | null = null;
+  if (isIgnition) {
+    const audienceZones = await prisma.audienceZone.findMany({ where: { networkId } });
+    const interlocks = applyInterlockOverrides(evaluateInterlocks(targetDevice, audienceZones), overrides);
+
+    if (interlocks.blocking.length > 0) {
+      return {
+        ok: false,
+        status: 409,
+        error: `Interlock check failed: ${interlocks.blocking.map(f => f.message).join('; ')}`,
+        details: { code: 'INTERLOCK_FAILED', failures: interlocks.blocking },
+      };
+    }
+    overridden = interlocks.overridden;
+
+    const channelCheck = await checkIgnitionChannel(targetDevice, payload);
+    if (!channelCheck.ok) {
+      return channelCheck;
+    }
+    channel = channelCheck.channel;
+  }
+
+  // Route through the online base station with the best recent link to the target
+  const route = await selectCommandRoute(prisma, networkId, targetDevice.id);
+
+  if (!route) {
+    return { ok: false, status: 400, error: 'No online base station available in this network' };
+  }
+
+  // Ignition always goes out first
+  const commandPriority = isIgnition ? 'CRITICAL' : priority || 'NORMAL';
+
+  const messageId = generateMessageId();
+
+  const insert = async (tx: Prisma.TransactionClient): Promise<EnqueueResult> => {
+    // Another ignition may have taken the channel since the check above
+    if (channel !== null) {
+      await lockIgnitionChannel(tx, targetDevice.id, channel);
+      const channelCheck = await checkIgnitionChannel(targetDevice, payload, tx);
+      if (!channelCheck.ok) {
+        return channelCheck;
+      }
+    }
+
+    // A held ignition only starts FIRING once it is approved
+    if (isIgnition && !awaitingCosign) {
+      const firing = await markNetworkFiring(
+        tx,
+        networkId,
+        createdBy,
+        `${messageType} queued for ${targetDevice.name || targetDevice.boardId}`,
+        fireAt
+      );
+      if (!firing) {
+        return { ok: false, status: 409, error: 'Network was disarmed, ignition command not queued' };
+      }
+    }
+
+    const created = await tx.command.create({
+      data: {
+        networkId,
+        sourceDeviceId: route.baseStation.id,
+        routeReason: route.reason,
+        routedAt: new Date(),
+        targetDeviceId: targetDevice.id,
+        messageType,
+        priority: commandPriority,
+        status: awaitingCosign ? 'AWAITING_COSIGN' : 'PENDING',
+        payload,
+        fireAt,
+        batchId,
+        messageId,
+        createdBy,
+      },
+      include: commandInclude,
+    });
+
+    await recordCommandEvent(tx, created.id, null, created.status, {
+      actor: 'USER',
+      userId: createdBy,
+      baseStationId: route.baseStation.id,
+      message: route.reason,
+    });
+
+    if (overridden.length > 0) {
+      await tx.interlockOverride.createMany({
+        data: overridden.map(({ failure, justification }) => ({
+          networkId,
+          deviceId: targetDevice.id,
+          commandId: created.id,
+          check: failure.check,
+          message: failure.message,
+          justification,
+          userId: createdBy,
+        })),
+      });
+    }
+
+    return { ok: true, command: created };
+  };
+
+  const result = db ? await insert(db) : await prisma.$transaction(insert);
+
+  // Wake base stations holding a long-poll request
+  if (result.ok && !awaitingCosign && !db) {
+    notifyCommandQueued(networkId);
+  }
+
+  return result;
+};
@@ -0,0 +1,144 @@
+import { Device, DeviceLink, Prisma } from '@prisma/client';
+import { notifyCommandQueued } from './commandNotifier';
+import { transitionCommands } from './commandEvents';
+
+const DEFAULT_LINK_MAX_AGE_MS = 10 * 60 * 1000;
+
+export interface CommandRoute {
+  baseStation: Device;
+  reason: string;
+  hasLink: boolean; // Chosen station has actually heard the target
+}
+
+const getLinkMaxAgeMs = () => {
+  return parseInt(process.env.ROUTING_LINK_MAX_AGE_MS || '') || DEFAULT_LINK_MAX_AGE_MS;
+};
+
+const describeLink = (link: DeviceLink, now: Date) => {
+  const parts = [];
+  if (link.rssi !== null) parts.push(`RSSI ${link.rssi} dBm`);
+  if (link.snr !== null) parts.push(`SNR ${link.snr} dB`);
+  const ageSeconds = Math.round((now.getTime() - link.lastHeardAt.getTime()) / 1000);
+  parts.push(`heard ${ageSeconds}s ago`);
+  return parts.join(', ');
+};
+
+// Higher is better: RSSI first, SNR breaks ties, links without readings rank last
+const compareLinks = (a: DeviceLink, b: DeviceLink) => {
+  const rssiA = a.rssi ?? -Infinity;
+  const rssiB = b.rssi ?? -Infinity;
+  if (rssiA !== rssiB) return rssiB - rssiA;
+  return (b.snr ?? -Infinity) - (a.snr ?? -Infinity);
+};
+
+/**
+ * Pick the ONLINE base station with the best recent link to the target field unit.
+ * Falls back to stale links, then to any online base station in the network.
+ */
+export const selectCommandRoute = async (
+  db: Prisma.TransactionClient,
+  networkId: string,
+  targetDeviceId: string | null,
+  excludeBaseStationIds: string[] = []
+): Promise<CommandRoute | null> => {
+  const now = new Date();
+
+  const baseStations = await db.device.findMany({
+    where: {
+      networkId,
+      deviceType: 'BASE_STATION',
+      status: 'ONLINE',
+      id: { notIn: excludeBaseStationIds },
+    },
+    orderBy: { lastPolled: 'desc' },
+  });
+
+  if (baseStations.length === 0) {
+    return null;
+  }
+
+  if (!targetDeviceId) {
+    return { baseStation: baseStations[0], reason: 'Broadcast: most recently polled base station', hasLink: false };
+  }
+
+  const links = await db.deviceLink.findMany({
+    where: {
+      fieldUnitId: targetDeviceId,
+      baseStationId: { in: baseStations.map(b => b.id) },
+    },
+  });
+
+  const cutoff = now.getTime() - getLinkMaxAgeMs();
+  const freshLinks = links.filter(l => l.lastHeardAt.getTime() >= cutoff).sort(compareLinks);
+  const staleLinks = links.filter(l => l.lastHeardAt.getTime() < cutoff).sort(compareLinks);
+
+  const byId = new Map(baseStations.map(b => [b.id, b]));
+
+  if (freshLinks.length > 0) {
+    const best = freshLinks[0];
+    const rank = freshLinks.length > 1 ? ` (best of ${freshLinks.length} stations)` : '';
+    return {
+      baseStation: byId.get(best.baseStationId)!,
+      reason: `Best recent link: ${describeLink(best, now)}${rank}`,
+      hasLink: true,
+    };
+  }
+
+  if (staleLinks.length > 0) {
+    const best = staleLinks[0];
+    return {
+      baseStation: byId.get(best.baseStationId)!,
+      reason: `No recent link, using last known: ${describeLink(best, now)}`,
+      hasLink: true,
+    };
+  }
+
+  return {
+    baseStation: baseStations[0],
+    reason: 'No base station has heard the target yet: most recently polled base station',
+    hasLink: false,
+  };
+};
+
+/**
+ * Move PENDING commands queued on a base station that went offline to the next-best station
+ */
+export const reroutePendingCommands = async (db: Prisma.TransactionClient, offlineStation: Device) => {
+  const pending = await db.command.findMany({
+    where: {
+      sourceDeviceId: offlineStation.id,
+      status: 'PENDING',
+    },
+  });
+
+  let rerouted = 0;
+  const label = offlineStation.name || offlineStation.boardId;
+
+  for (const command of pending) {
+    // Every online station already holds its own copy of a batch broadcast
+    if (command.batchId && !command.targetDeviceId) {
+      continue;
+    }
+
+    const route = await selectCommandRoute(db, command.networkId, command.targetDeviceId, [offlineStation.id]);
+    if (!route) {
+      continue; // Nothing else online - stays queued until a station comes back
+    }
+
+    // Conditional so a command dispatched meanwhile is left alone
+    const routeReason = `Rerouted from ${label} (offline). ${route.reason}`;
+    const count = await transitionCommands(
+      db,
+      { id: command.id, status: 'PENDING', sourceDeviceId: offlineStation.id },
+      { sourceDeviceId: route.baseStation.id, routeReason, routedAt: new Date() },
+      { actor: 'SYSTEM', baseStationId: route.baseStation.id, message: routeReason }
+    );
+    rerouted += count;
+
+    if (count > 0) {
+      notifyCommandQueued(command.networkId);
+    }
+  }
+
+  return rerouted;
+};
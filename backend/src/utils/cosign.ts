@@ -0,0 +1,97 @@
+import { CosignKind, CosignStatus, Network, NetworkGuest, Prisma } from '@prisma/client';
+import { JwtPayload } from './jwt';
+import { transitionCommands, userOrSystem } from './commandEvents';
+
+const DEFAULT_COSIGN_WINDOW_MS = 2 * 60 * 1000;
+
+/**
+ * How long a second person has to approve a held ignition or show start (COSIGN_WINDOW_MS)
+ */
+export const getCosignWindowMs = () => {
+  return parseInt(process.env.COSIGN_WINDOW_MS || '') || DEFAULT_COSIGN_WINDOW_MS;
+};
+
+/**
+ * Owners, MEGA_ADMINs and COMMANDER guests may co-sign, but never their own request
+ */
+export const canCosign = (network: Network & { guests: NetworkGuest[] }, user: JwtPayload) => {
+  return (
+    user.role === 'MEGA_ADMIN' ||
+    network.ownerId === user.userId ||
+    network.guests.some(g => g.userId === user.userId && g.permission === 'COMMANDER')
+  );
+};
+
+interface CreateCosignInput {
+  networkId: string;
+  kind: CosignKind;
+  summary: string;
+  requestedById: string;
+  showId?: string;
+  commandWhere?: Prisma.CommandWhereInput; // Held commands this request releases
+}
+
+/**
+ * Open a co-sign request and attach the held (AWAITING_COSIGN) commands matching `commandWhere`
+ */
+export const createCosignRequest = async (
+  db: Prisma.TransactionClient,
+  { networkId, kind, summary, requestedById, showId, commandWhere }: CreateCosignInput
+) => {
+  const request = await db.cosignRequest.create({
+    data: {
+      networkId,
+      kind,
+      summary,
+      showId,
+      requestedById,
+      expiresAt: new Date(Date.now() + getCosignWindowMs()),
+    },
+  });
+
+  if (commandWhere) {
+    await db.command.updateMany({
+      where: { ...commandWhere, status: 'AWAITING_COSIGN', cosignRequestId: null },
+      data: { cosignRequestId: request.id },
+    });
+  }
+
+  return request;
+};
+
+/**
+ * Close a pending request without running it: its held commands are cancelled and a
+ * held show goes back to DRAFT. Returns false if the request was no longer pending.
+ */
+export const closeCosignRequest = async (
+  db: Prisma.TransactionClient,
+  requestId: string,
+  status: Exclude<CosignStatus, 'PENDING' | 'APPROVED'>,
+  reason: string,
+  decidedById: string | null = null
+) => {
+  const now = new Date();
+
+  const { count } = await db.cosignRequest.updateMany({
+    where: { id: requestId, status: 'PENDING' },
+    data: { status, reason, decidedById, decidedAt: now },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await transitionCommands(
+    db,
+    { cosignRequestId: requestId, status: 'AWAITING_COSIGN' },
+    { status: 'CANCELLED', completedAt: now, errorMessage: reason },
+    userOrSystem(decidedById)
+  );
+
+  await db.show.updateMany({
+    where: { cosignRequests: { some: { id: requestId } }, status: 'AWAITING_COSIGN' },
+    data: { status: 'DRAFT' },
+  });
+
+  return true;
+};
@@ -0,0 +1,228 @@
+import { Command, Device, DeviceChannel, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import prisma from './prisma';
+import { IGNITION_MESSAGE_TYPES, isIgnitionCommand } from './commandPolicy';
+
+// Hardware limit of the field unit relay board
+export const MAX_CHANNELS = 16;
+
+// MSG_TYPE_CONT telemetry: one pass/fail result per tested channel
+const continuityResultsSchema = z.object({
+  channels: z.array(z.object({ channel: z.number().int().min(1), ok: z.boolean() })).max(MAX_CHANNELS),
+});
+
+export type ChannelCheckResult =
+  | { ok: true; channel: number }
+  | { ok: false; status: 400 | 409; error: string; details?: Record<string, unknown> };
+
+/**
+ * Relay channel an ignition payload addresses, or null if `channel` is missing or not a positive integer
+ */
+export const getPayloadChannel = (payload: Prisma.JsonValue | Prisma.InputJsonValue | undefined) => {
+  const channel =
+    payload && typeof payload === 'object' && !Array.isArray(payload)
+      ? (payload as Record<string, unknown>).channel
+      : undefined;
+
+  return typeof channel === 'number' && Number.isInteger(channel) && channel >= 1 ? channel : null;
+};
+
+/**
+ * An ignition may only address an existing channel that has not fired since it was
+ * last reloaded and has no other ignition awaiting co-sign, waiting or in flight.
+ * Pass the transaction that queues the ignition as `db` to re-check under its channel lock.
+ */
+export const checkIgnitionChannel = async (
+  targetDevice: Device,
+  payload: Prisma.InputJsonValue | undefined,
+  db: Prisma.TransactionClient = prisma
+): Promise<ChannelCheckResult> => {
+  const channel = getPayloadChannel(payload);
+
+  if (channel === null || channel > targetDevice.channelCount) {
+    return {
+      ok: false,
+      status: 400,
+      error: `Channel must be between 1 and ${targetDevice.channelCount} for this unit`,
+      details: { code: 'INVALID_CHANNEL', channelCount: targetDevice.channelCount },
+    };
+  }
+
+  const state = await db.deviceChannel.findUnique({
+    where: { deviceId_number: { deviceId: targetDevice.id, number: channel } },
+  });
+
+  if (state?.firedAt) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Channel ${channel} already fired at ${state.firedAt.toISOString()}, reload it first`,
+      details: { code: 'CHANNEL_SPENT', channel, firedAt: state.firedAt },
+    };
+  }
+
+  // At most one per channel, so the unit's whole ignition queue is small
+  const queued = await db.command.findMany({
+    where: {
+      targetDeviceId: targetDevice.id,
+      messageType: { in: IGNITION_MESSAGE_TYPES },
+      status: { in: ['AWAITING_COSIGN', 'PENDING', 'PROCESSING'] },
+    },
+    select: { id: true, payload: true },
+  });
+  const inFlight = queued.find(command => getPayloadChannel(command.payload) === channel);
+
+  if (inFlight) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Channel ${channel} already has an ignition queued`,
+      details: { code: 'CHANNEL_BUSY', channel, commandId: inFlight.id },
+    };
+  }
+
+  return { ok: true, channel };
+};
+
+/**
+ * Serialise ignitions of one relay channel until the end of the transaction, so two
+ * concurrent requests cannot both pass the channel check
+ */
+export const lockIgnitionChannel = async (db: Prisma.TransactionClient, deviceId: string, channel: number) => {
+  await db.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`ignite:${deviceId}:${channel}`}))`;
+};
+
+/**
+ * Mark the channel an ignition addressed as spent, once the ignition is confirmed
+ */
+export const markChannelFired = async (db: Prisma.TransactionClient, command: Command, firedAt: Date) => {
+  if (!isIgnitionCommand(command.messageType) || !command.targetDeviceId) {
+    return;
+  }
+
+  const channel = getPayloadChannel(command.payload);
+  if (channel === null) {
+    return;
+  }
+
+  await db.deviceChannel.upsert({
+    where: { deviceId_number: { deviceId: command.targetDeviceId, number: channel } },
+    create: { deviceId: command.targetDeviceId, number: channel, firedAt, firedCommandId: command.id },
+    update: { firedAt, firedCommandId: command.id },
+  });
+};
+
+/**
+ * Store the per-channel results of a continuity test. Channels the unit doesn't have are
+ * ignored, and buffered (older) results never overwrite a newer test.
+ * Returns the number of channels recorded, or null if the data is not a result list.
+ */
+export const recordContinuityResults = async (
+  db: Prisma.TransactionClient,
+  device: Device,
+  data: Prisma.JsonValue | undefined,
+  testedAt: Date
+) => {
+  const parsed = continuityResultsSchema.safeParse(data);
+  if (!parsed.success) {
+    return null;
+  }
+
+  const results = parsed.data.channels.filter(r => r.channel <= device.channelCount);
+
+  const existing = await db.deviceChannel.findMany({
+    where: { deviceId: device.id, number: { in: results.map(r => r.channel) } },
+    select: { number: true },
+  });
+  const missing = results.filter(r => !existing.some(row => row.number === r.channel));
+
+  // skipDuplicates still covers a report for the same unit relayed at the same moment
+  await db.deviceChannel.createMany({
+    data: missing.map(r => ({ deviceId: device.id, number: r.channel })),
+    skipDuplicates: true,
+  });
+
+  for (const ok of [true, false]) {
+    await db.deviceChannel.updateMany({
+      where: {
+        deviceId: device.id,
+        number: { in: results.filter(r => r.ok === ok).map(r => r.channel) },
+        OR: [{ continuityTestedAt: null }, { continuityTestedAt: { lt: testedAt } }],
+      },
+      data: { continuityOk: ok, continuityTestedAt: testedAt },
+    });
+  }
+
+  return results.length;
+};
+
+const toGridEntry = (number: number, row: DeviceChannel | undefined) => ({
+  number,
+  label: row?.label ?? null,
+  load: row?.load ?? null,
+  firedAt: row?.firedAt ?? null,
+  firedCommandId: row?.firedCommandId ?? null,
+  continuityOk: row?.continuityOk ?? null,
+  continuityTestedAt: row?.continuityTestedAt ?? null,
+});
+
+/**
+ * Channels of a field unit from 1 to channelCount, including ones never labelled or fired
+ */
+export const getChannelGrid = async (device: Device) => {
+  const rows = await prisma.deviceChannel.findMany({
+    where: { deviceId: device.id, number: { lte: device.channelCount } },
+  });
+
+  return Array.from({ length: device.channelCount }, (_, index) =>
+    toGridEntry(index + 1, rows.find(r => r.number === index + 1))
+  );
+};
+
+/**
+ * Pre-show readiness of every approved field unit in a network. A loaded, unspent channel
+ * whose last continuity test failed blocks arming; one never tested is only reported.
+ */
+export const getContinuityReadiness = async (networkId: string) => {
+  const devices = await prisma.device.findMany({
+    where: { networkId, deviceType: 'FIELD_UNIT', approval: 'APPROVED' },
+    include: { channels: true },
+    orderBy: [{ name: 'asc' }, { boardId: 'asc' }],
+  });
+
+  const failures: { deviceId: string; deviceName: string; channel: number; load: string }[] = [];
+  let untested = 0;
+
+  const units = devices.map(device => {
+    const channels = Array.from({ length: device.channelCount }, (_, index) =>
+      toGridEntry(index + 1, device.channels.find(r => r.number === index + 1))
+    );
+
+    for (const channel of channels) {
+      if (!channel.load || channel.firedAt) {
+        continue;
+      }
+      if (channel.continuityOk === false) {
+        failures.push({
+          deviceId: device.id,
+          deviceName: device.name || device.boardId,
+          channel: channel.number,
+          load: channel.load,
+        });
+      } else if (channel.continuityOk === null) {
+        untested++;
+      }
+    }
+
+    return {
+      deviceId: device.id,
+      name: device.name,
+      boardId: device.boardId,
+      status: device.status,
+      channelCount: device.channelCount,
+      channels,
+    };
+  });
+
+  return { ready: failures.length === 0, failures, untested, units };
+};
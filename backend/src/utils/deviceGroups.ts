@@ -0,0 +1,35 @@
+import { NetworkGuest, NetworkGuestGroup } from '@prisma/client';
+import prisma from './prisma';
+
+export type GuestWithGroups = NetworkGuest & { groups: NetworkGuestGroup[] };
+
+// Include for loading a network's guests together with their group scope
+export const guestsWithGroups = { guests: { include: { groups: true } } } as const;
+
+/**
+ * Group IDs a guest's ignition rights are limited to, or null if they cover the whole network
+ */
+export const getGuestGroupScope = (guest: GuestWithGroups | undefined) => {
+  return guest && guest.groups.length > 0 ? guest.groups.map(g => g.groupId) : null;
+};
+
+/**
+ * Whether a device in `groupId` is inside the scope. Ungrouped devices are outside any limited scope.
+ */
+export const isInGroupScope = (scope: string[] | null, groupId: string | null) => {
+  return scope === null || (groupId !== null && scope.includes(groupId));
+};
+
+/**
+ * IDs from the list that are not groups of this network
+ */
+export const findForeignGroupIds = async (networkId: string, groupIds: string[]) => {
+  const uniqueIds = [...new Set(groupIds)];
+  const groups = await prisma.deviceGroup.findMany({
+    where: { id: { in: uniqueIds }, networkId },
+    select: { id: true },
+  });
+
+  const valid = new Set(groups.map(g => g.id));
+  return uniqueIds.filter(id => !valid.has(id));
+};
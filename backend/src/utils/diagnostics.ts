@@ -0,0 +1,92 @@
+import { DiagnosticSchedule, Network, ShowStatus } from '@prisma/client';
+import prisma from './prisma';
+import { BatchTarget, createCommandBatch, resolveBatchTargets } from './commandBatch';
+
+// No diagnostic traffic while a show is using the radio link
+const ACTIVE_SHOW_STATUSES: ShowStatus[] = ['RUNNING', 'PAUSED'];
+
+export type DiagnosticRunResult = { result: string; batchId: string | null };
+
+/**
+ * Why diagnostics must not be sent to this network right now, or null if they may be
+ */
+export const getDiagnosticsBlocker = async (network: Network) => {
+  if (network.emergencyStopAt) {
+    return 'emergency stop is active';
+  }
+
+  if (network.armState !== 'SAFE') {
+    return `network is ${network.armState}`;
+  }
+
+  const show = await prisma.show.findFirst({
+    where: { networkId: network.id, status: { in: ACTIVE_SHOW_STATUSES } },
+    select: { name: true, status: true },
+  });
+
+  return show ? `show "${show.name}" is ${show.status}` : null;
+};
+
+/**
+ * Queue one round of a schedule as a command batch, on behalf of whoever created it.
+ * Units that still have the same request waiting or in flight are left out, so a slow
+ * link never piles up repeats; the run is skipped entirely while the network is not SAFE.
+ */
+export const runDiagnosticSchedule = async (
+  schedule: DiagnosticSchedule & { network: Network }
+): Promise<DiagnosticRunResult> => {
+  const { network, messageType } = schedule;
+
+  const blocker = await getDiagnosticsBlocker(network);
+  if (blocker) {
+    return { result: `Skipped: ${blocker}`, batchId: null };
+  }
+
+  const target: BatchTarget = schedule.groupId ? { type: 'GROUP', groupId: schedule.groupId } : { type: 'ALL' };
+  const { devices } = await resolveBatchTargets(network.id, target);
+
+  if (devices.length === 0) {
+    return { result: 'Skipped: no field units to target', batchId: null };
+  }
+
+  const open = await prisma.command.findMany({
+    where: {
+      networkId: network.id,
+      messageType,
+      status: { in: ['PENDING', 'PROCESSING'] },
+      OR: [{ targetDeviceId: { in: devices.map(d => d.id) } }, { targetDeviceId: null }],
+    },
+    select: { targetDeviceId: true },
+  });
+
+  // A broadcast still going out already reaches every unit
+  if (open.some(c => c.targetDeviceId === null)) {
+    return { result: 'Skipped: a broadcast of this request is still pending', batchId: null };
+  }
+
+  const busy = new Set(open.map(c => c.targetDeviceId));
+  const due = devices.filter(d => !busy.has(d.id));
+
+  if (due.length === 0) {
+    return { result: 'Skipped: already pending for every unit', batchId: null };
+  }
+
+  const outcome = await createCommandBatch({
+    network,
+    target: due.length === devices.length ? target : { type: 'DEVICES', deviceIds: due.map(d => d.id) },
+    messageType,
+    priority: schedule.priority,
+    mode: 'AUTO',
+    createdBy: schedule.createdById,
+  });
+
+  if (!outcome.ok) {
+    return { result: `Failed: ${outcome.error}`, batchId: null };
+  }
+
+  const collapsed = devices.length - due.length;
+  return {
+    result: `Queued for ${due.length} unit(s)${collapsed > 0 ? `, ${collapsed} already pending` : ''}`,
+    batchId: outcome.batch.id,
+  };
+};
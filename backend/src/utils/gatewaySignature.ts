@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+
+const SECRET_BYTES = 32;
+
+/**
+ * Generate a new random HMAC secret for a base station (hex encoded)
+ */
+export const generateGatewaySecret = (): string => {
+  return crypto.randomBytes(SECRET_BYTES).toString('hex');
+};
+
+/**
+ * Build the canonical string a base station signs:
+ * METHOD\nPATH\nTIMESTAMP\nNONCE\nSHA256(BODY)
+ */
+export const buildStringToSign = (
+  method: string,
+  path: string,
+  timestamp: string,
+  nonce: string,
+  body: Buffer | string
+): string => {
+  const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+  return [method.toUpperCase(), path, timestamp, nonce, bodyHash].join('\n');
+};
+
+export const signGatewayRequest = (secret: string, stringToSign: string): string => {
+  return crypto.createHmac('sha256', secret).update(stringToSign).digest('hex');
+};
+
+/**
+ * Constant-time comparison of two hex signatures
+ */
+export const signaturesMatch = (expected: string, actual: string): boolean => {
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const actualBuffer = Buffer.from(actual, 'hex');
+
+  if (expectedBuffer.length === 0 || expectedBuffer.length !== actualBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+};
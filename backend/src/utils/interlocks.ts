@@ -0,0 +1,179 @@
+import { AudienceZone, Device, Network, Prisma } from '@prisma/client';
+
+// Battery percentage below which a unit counts as LOW_BATTERY even if its last packet had no voltage
+const LOW_BATTERY_PERCENT = 20;
+
+export type InterlockCheck =
+  | 'EMERGENCY_STOP_ACTIVE'
+  | 'TARGET_OFFLINE'
+  | 'TARGET_LOW_BATTERY'
+  | 'TARGET_STALE'
+  | 'GPS_STALE'
+  | 'POSITION_UNKNOWN'
+  | 'IN_AUDIENCE_ZONE'
+  | 'CONTINUITY_FAILED'; // Checked when arming, not per ignition
+
+export interface InterlockFailure {
+  check: InterlockCheck;
+  message: string;
+  overridable: boolean;
+  details?: Record<string, unknown>;
+}
+
+export interface InterlockOverrideInput {
+  check: InterlockCheck;
+  justification: string;
+}
+
+type LatLng = [number, number];
+
+/**
+ * Parse a stored polygon; returns null if it isn't a list of at least 3 [lat, lng] pairs
+ */
+export const parsePolygon = (value: Prisma.JsonValue): LatLng[] | null => {
+  if (!Array.isArray(value) || value.length < 3) {
+    return null;
+  }
+
+  const points: LatLng[] = [];
+  for (const point of value) {
+    if (!Array.isArray(point) || point.length !== 2 || typeof point[0] !== 'number' || typeof point[1] !== 'number') {
+      return null;
+    }
+    points.push([point[0], point[1]]);
+  }
+  return points;
+};
+
+/**
+ * Ray-casting point-in-polygon. Audience zones are small enough that treating
+ * lat/lng as planar coordinates is accurate.
+ */
+export const isPointInPolygon = (latitude: number, longitude: number, polygon: LatLng[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    const crosses =
+      lngI > longitude !== lngJ > longitude &&
+      latitude < ((latJ - latI) * (longitude - lngI)) / (lngJ - lngI) + latI;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const secondsSince = (date: Date, now: Date) => Math.round((now.getTime() - date.getTime()) / 1000);
+
+/**
+ * Run every pre-ignition interlock against a field unit. An empty list means it is safe to fire.
+ * Thresholds come from the network; a null threshold disables that check.
+ */
+export const evaluateInterlocks = (
+  targetDevice: Device & { network: Network },
+  audienceZones: AudienceZone[],
+  now: Date = new Date()
+): InterlockFailure[] => {
+  const { network } = targetDevice;
+  const failures: InterlockFailure[] = [];
+
+  // E-STOP stays latched until the owner resets it - no override
+  if (network.emergencyStopAt) {
+    failures.push({
+      check: 'EMERGENCY_STOP_ACTIVE',
+      message: 'Emergency stop is active on this network',
+      overridable: false,
+      details: { emergencyStopAt: network.emergencyStopAt },
+    });
+  }
+
+  if (targetDevice.status === 'OFFLINE') {
+    failures.push({
+      check: 'TARGET_OFFLINE',
+      message: 'Target unit is OFFLINE',
+      overridable: true,
+    });
+  }
+
+  if (
+    targetDevice.status === 'LOW_BATTERY' ||
+    (targetDevice.batteryPercent !== null && targetDevice.batteryPercent < LOW_BATTERY_PERCENT)
+  ) {
+    failures.push({
+      check: 'TARGET_LOW_BATTERY',
+      message: 'Target unit battery is low',
+      overridable: true,
+      details: { batteryPercent: targetDevice.batteryPercent, batteryVoltage: targetDevice.batteryVoltage },
+    });
+  }
+
+  if (network.interlockMaxLastSeenSeconds !== null) {
+    const age = targetDevice.lastSeen ? secondsSince(targetDevice.lastSeen, now) : null;
+    if (age === null || age > network.interlockMaxLastSeenSeconds) {
+      failures.push({
+        check: 'TARGET_STALE',
+        message: age === null ? 'Target unit has never been heard' : `Target unit last heard ${age}s ago`,
+        overridable: true,
+        details: { lastSeen: targetDevice.lastSeen, maxSeconds: network.interlockMaxLastSeenSeconds },
+      });
+    }
+  }
+
+  if (network.interlockMaxGpsAgeSeconds !== null) {
+    const age = targetDevice.gpsUpdatedAt ? secondsSince(targetDevice.gpsUpdatedAt, now) : null;
+    if (age === null || age > network.interlockMaxGpsAgeSeconds) {
+      failures.push({
+        check: 'GPS_STALE',
+        message: age === null ? 'Target unit has no GPS fix' : `Last GPS fix is ${age}s old`,
+        overridable: true,
+        details: { gpsUpdatedAt: targetDevice.gpsUpdatedAt, maxSeconds: network.interlockMaxGpsAgeSeconds },
+      });
+    }
+  }
+
+  if (audienceZones.length > 0) {
+    const { latitude, longitude } = targetDevice;
+    if (latitude === null || longitude === null) {
+      failures.push({
+        check: 'POSITION_UNKNOWN',
+        message: 'Target position is unknown, cannot check audience zones',
+        overridable: true,
+      });
+    } else {
+      for (const zone of audienceZones) {
+        const polygon = parsePolygon(zone.polygon);
+        if (polygon && isPointInPolygon(latitude, longitude, polygon)) {
+          failures.push({
+            check: 'IN_AUDIENCE_ZONE',
+            message: `Target unit is inside audience zone "${zone.name}"`,
+            overridable: true,
+            details: { zoneId: zone.id, latitude, longitude },
+          });
+        }
+      }
+    }
+  }
+
+  return failures;
+};
+
+/**
+ * Split failures into those covered by an override and those still blocking.
+ * Non-overridable failures always block.
+ */
+export const applyInterlockOverrides = (failures: InterlockFailure[], overrides: InterlockOverrideInput[]) => {
+  const blocking: InterlockFailure[] = [];
+  const overridden: { failure: InterlockFailure; justification: string }[] = [];
+
+  for (const failure of failures) {
+    const override = failure.overridable ? overrides.find(o => o.check === failure.check) : undefined;
+    if (override) {
+      overridden.push({ failure, justification: override.justification });
+    } else {
+      blocking.push(failure);
+    }
+  }
+
+  return { blocking, overridden };
+};
@@ -16,3 +16,18 @@ export const generateToken = (payload: JwtPayload): string => {
 export const verifyToken = (token: string): JwtPayload => {
   return jwt.verify(token, JWT_SECRET) as JwtPayload;
 };
+
+// Step-up proofs are signed with their own key so they can never pass as a login token
+const STEP_UP_SECRET = `${JWT_SECRET}:step-up`;
+
+export interface StepUpPayload {
+  userId: string;
+}
+
+export const generateStepUpToken = (payload: StepUpPayload, expiresInMs: number): string => {
+  return jwt.sign(payload, STEP_UP_SECRET, { expiresIn: Math.ceil(expiresInMs / 1000) });
+};
+
+export const verifyStepUpToken = (token: string): StepUpPayload => {
+  return jwt.verify(token, STEP_UP_SECRET) as StepUpPayload;
+};
@@ -0,0 +1,200 @@
+import { MessageType } from '@prisma/client';
+import { z } from 'zod';
+import { MAX_CHANNELS } from './deviceChannels';
+
+interface BaseField {
+  name: string;
+  label: string;
+  required?: boolean;
+  unit?: string;
+}
+
+/**
+ * One field of a command payload or telemetry `data` object. Plain JSON, so the
+ * frontend can build forms and displays from the same definitions.
+ */
+export type MessageField = BaseField &
+  (
+    | { type: 'integer' | 'number'; min?: number; max?: number }
+    | { type: 'string'; maxLength?: number }
+    | { type: 'boolean' }
+    | { type: 'list'; fields: MessageField[]; maxItems?: number }
+  );
+
+export interface MessageDefinition {
+  description: string;
+  sendable: boolean; // Whether users may send it as a command
+  payload: MessageField[]; // Command payload, unknown keys are refused
+  data: MessageField[]; // Telemetry data, unknown keys are kept as sent
+}
+
+const channelField = (required: boolean): MessageField => ({
+  name: 'channel',
+  label: 'Channel',
+  type: 'integer',
+  min: 1,
+  max: MAX_CHANNELS,
+  required,
+});
+
+const positionFields: MessageField[] = [
+  { name: 'lat', label: 'Latitude', type: 'number', min: -90, max: 90 },
+  { name: 'lng', label: 'Longitude', type: 'number', min: -180, max: 180 },
+  { name: 'satellites', label: 'Satellites', type: 'integer', min: 0 },
+  { name: 'hdop', label: 'HDOP', type: 'number', min: 0 },
+];
+
+export const MESSAGE_DEFINITIONS: Record<MessageType, MessageDefinition> = {
+  MSG_TYPE_POSA: {
+    description: 'Presence announcement',
+    sendable: false,
+    payload: [],
+    data: [{ name: 'firmware', label: 'Firmware', type: 'string', maxLength: 50 }],
+  },
+  MSG_TYPE_BATT: {
+    description: 'Battery voltage request/response',
+    sendable: true,
+    payload: [],
+    data: [
+      { name: 'voltage', label: 'Voltage', type: 'number', min: 0, unit: 'V' },
+      { name: 'percent', label: 'Charge', type: 'integer', min: 0, max: 100, unit: '%' },
+    ],
+  },
+  MSG_TYPE_GPS: {
+    description: 'GPS coordinates request/response',
+    sendable: true,
+    payload: [{ name: 'refresh', label: 'Force a new fix', type: 'boolean' }],
+    data: positionFields,
+  },
+  MSG_TYPE_COORD: {
+    description: 'Coordinate data',
+    sendable: false,
+    payload: [],
+    data: positionFields,
+  },
+  MSG_TYPE_PING: {
+    description: 'Ping request',
+    sendable: true,
+    payload: [],
+    data: [],
+  },
+  MSG_TYPE_PONG: {
+    description: 'Pong response',
+    sendable: false,
+    payload: [],
+    data: [],
+  },
+  MSG_TYPE_SET_R: {
+    description: 'Set relay/ignition',
+    sendable: true,
+    payload: [
+      channelField(true),
+      { name: 'duration', label: 'Duration', type: 'integer', min: 1, max: 10000, unit: 'ms' },
+    ],
+    data: [channelField(true)],
+  },
+  MSG_TYPE_RES_ID: {
+    description: 'Response ID',
+    sendable: false,
+    payload: [],
+    data: [],
+  },
+  MSG_TYPE_MSG: {
+    description: 'Generic message',
+    sendable: true,
+    payload: [{ name: 'text', label: 'Text', type: 'string', maxLength: 200, required: true }],
+    data: [{ name: 'text', label: 'Text', type: 'string', maxLength: 200 }],
+  },
+  MSG_TYPE_IGNITE: {
+    description: 'Ignition command',
+    sendable: true,
+    payload: [
+      channelField(true),
+      { name: 'duration', label: 'Duration', type: 'integer', min: 1, max: 10000, unit: 'ms' },
+    ],
+    data: [],
+  },
+  MSG_TYPE_CONT: {
+    description: 'Continuity test request/per-channel results',
+    sendable: true,
+    payload: [],
+    data: [
+      {
+        name: 'channels',
+        label: 'Channels',
+        type: 'list',
+        maxItems: MAX_CHANNELS,
+        fields: [channelField(true), { name: 'ok', label: 'Continuity OK', type: 'boolean', required: true }],
+      },
+    ],
+  },
+};
+
+const toZod = (field: MessageField): z.ZodTypeAny => {
+  let schema: z.ZodTypeAny;
+
+  switch (field.type) {
+    case 'integer':
+    case 'number': {
+      let number = field.type === 'integer' ? z.number().int() : z.number();
+      if (field.min !== undefined) number = number.min(field.min);
+      if (field.max !== undefined) number = number.max(field.max);
+      schema = number;
+      break;
+    }
+    case 'string':
+      schema = field.maxLength !== undefined ? z.string().max(field.maxLength) : z.string();
+      break;
+    case 'boolean':
+      schema = z.boolean();
+      break;
+    case 'list': {
+      const items = z.array(toObject(field.fields).strict());
+      schema = field.maxItems !== undefined ? items.max(field.maxItems) : items;
+      break;
+    }
+  }
+
+  return field.required ? schema : schema.optional();
+};
+
+const toObject = (fields: MessageField[]) =>
+  z.object(Object.fromEntries(fields.map(field => [field.name, toZod(field)])));
+
+const mapDefinitions = <T>(build: (definition: MessageDefinition) => T) =>
+  Object.fromEntries(
+    Object.entries(MESSAGE_DEFINITIONS).map(([messageType, definition]) => [messageType, build(definition)])
+  ) as Record<MessageType, T>;
+
+const payloadSchemas = mapDefinitions(definition => toObject(definition.payload).strict());
+const dataSchemas = mapDefinitions(definition => toObject(definition.data).passthrough());
+
+/**
+ * Add an issue to the surrounding parse (so it answers 400) for every field of a command
+ * payload or telemetry data that doesn't match the schema of its `messageType`. Payloads
+ * of message types only field units send are refused outright.
+ */
+export const checkMessageFields = (
+  ctx: z.RefinementCtx,
+  kind: 'payload' | 'data',
+  messageType: MessageType,
+  value: Record<string, unknown> | undefined
+) => {
+  if (kind === 'payload' && !MESSAGE_DEFINITIONS[messageType].sendable) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['messageType'],
+      message: `${messageType} is only sent by field units`,
+    });
+    return;
+  }
+
+  const schema = kind === 'payload' ? payloadSchemas[messageType] : dataSchemas[messageType];
+  const result = schema.safeParse(value ?? {});
+
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ ...issue, path: [kind, ...issue.path] });
+    }
+  }
+};
@@ -0,0 +1,33 @@
+import prisma from './prisma';
+import { AuthRequest } from '../middleware/auth';
+import { getGuestGroupScope, guestsWithGroups } from './deviceGroups';
+
+/**
+ * Load a network with the user's access: anyone on the network may view, only the owner may change it.
+ * The owner, MEGA_ADMIN and COMMANDER guests may arm, fire and run shows (`canCommand`); SAFETY_OFFICER
+ * guests may only make it safer (`canStop`: disarm, emergency stop, abort a show). `groupScope` limits
+ * a guest's ignition rights to their device groups, null for the whole network.
+ */
+export const loadNetworkWithAccess = async (req: AuthRequest, networkId: string) => {
+  const network = await prisma.network.findUnique({
+    where: { id: networkId },
+    include: guestsWithGroups,
+  });
+
+  if (!network) {
+    return { network: null, canView: false, isOwner: false, canCommand: false, canStop: false, groupScope: null };
+  }
+
+  const guest = network.guests.find(g => g.userId === req.user!.userId);
+  const isOwner = req.user!.role === 'MEGA_ADMIN' || network.ownerId === req.user!.userId;
+  const canCommand = isOwner || guest?.permission === 'COMMANDER';
+
+  return {
+    network,
+    isOwner,
+    canView: isOwner || !!guest,
+    canCommand,
+    canStop: canCommand || guest?.permission === 'SAFETY_OFFICER',
+    groupScope: isOwner ? null : getGuestGroupScope(guest),
+  };
+};
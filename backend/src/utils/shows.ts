@@ -0,0 +1,118 @@
+import { Prisma, Show, ShowStatus } from '@prisma/client';
+import prisma from './prisma';
+import { isInGroupScope } from './deviceGroups';
+import { transitionCommands, userOrSystem } from './commandEvents';
+
+/**
+ * Show clock: milliseconds since T0, not counting time spent paused
+ */
+export const getShowElapsedMs = (show: Show, now: Date = new Date()) => {
+  if (!show.startedAt) {
+    return 0;
+  }
+
+  const end = show.status === 'PAUSED' && show.pausedAt ? show.pausedAt : (show.completedAt ?? now);
+  return Math.max(0, end.getTime() - show.startedAt.getTime() - show.pausedMs);
+};
+
+/**
+ * Stop a RUNNING or PAUSED show and cancel its cues that are still waiting for a base station.
+ * `userId` is who aborted it, null for the show runner. Returns false if the show was not active.
+ */
+export const abortRunningShow = async (
+  db: Prisma.TransactionClient,
+  showId: string,
+  reason: string,
+  userId: string | null = null
+) => {
+  const now = new Date();
+
+  const { count } = await db.show.updateMany({
+    where: { id: showId, status: { in: ['RUNNING', 'PAUSED'] } },
+    data: { status: 'ABORTED', completedAt: now, abortReason: reason },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await transitionCommands(
+    db,
+    { showCue: { showId }, status: 'PENDING' },
+    { status: 'CANCELLED', completedAt: now, errorMessage: `Show aborted: ${reason}` },
+    userOrSystem(userId)
+  );
+
+  return true;
+};
+
+/**
+ * Cue channels that already fired and have not been reloaded; such a cue would abort the show
+ */
+export const findSpentCueChannels = async (where: Prisma.ShowCueWhereInput) => {
+  const cues = await prisma.showCue.findMany({ where, select: { targetDeviceId: true, channel: true } });
+  if (cues.length === 0) {
+    return [];
+  }
+
+  return prisma.deviceChannel.findMany({
+    where: {
+      firedAt: { not: null },
+      OR: cues.map(cue => ({ deviceId: cue.targetDeviceId, number: cue.channel })),
+    },
+    select: { deviceId: true, number: true, firedAt: true },
+  });
+};
+
+/**
+ * Field units a show fires that are outside a group-limited commander's scope.
+ * Starting or resuming a show lets its cues fire, so both are checked.
+ */
+export const findCueTargetsOutsideScope = async (showId: string, groupScope: string[] | null) => {
+  if (groupScope === null) {
+    return [];
+  }
+
+  const cues = await prisma.showCue.findMany({
+    where: { showId },
+    select: { targetDevice: { select: { id: true, groupId: true } } },
+  });
+
+  const outside = cues.filter(cue => !isInGroupScope(groupScope, cue.targetDevice.groupId));
+  return [...new Set(outside.map(cue => cue.targetDevice.id))];
+};
+
+/**
+ * Start a show now (T0) on behalf of `startedById`, resetting the cues of an earlier run.
+ * Returns false if the show was not in one of the `from` states.
+ */
+export const beginShow = async (
+  db: Prisma.TransactionClient,
+  showId: string,
+  from: ShowStatus[],
+  startedById: string
+) => {
+  const { count } = await db.show.updateMany({
+    where: { id: showId, status: { in: from } },
+    data: {
+      status: 'RUNNING',
+      startedAt: new Date(),
+      startedById,
+      pausedAt: null,
+      pausedMs: 0,
+      completedAt: null,
+      abortReason: null,
+    },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await db.showCue.updateMany({
+    where: { showId },
+    data: { queuedAt: null, commandId: null, errorMessage: null },
+  });
+
+  return true;
+};
@@ -0,0 +1,96 @@
+import { StepUpMethod } from '@prisma/client';
+import prisma from './prisma';
+import { AuthRequest } from '../middleware/auth';
+import { verifyStepUpToken } from './jwt';
+
+// Clients send the proof from POST /api/auth/step-up in this header
+export const STEP_UP_HEADER = 'x-step-up-token';
+
+const DEFAULT_STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_FAILURES = 5;
+const DEFAULT_LOCKOUT_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * How long a firing PIN or password re-entry authorises critical actions (STEP_UP_WINDOW_MS)
+ */
+export const getStepUpWindowMs = () => {
+  return parseInt(process.env.STEP_UP_WINDOW_MS || '') || DEFAULT_STEP_UP_WINDOW_MS;
+};
+
+const getMaxFailures = () => {
+  return parseInt(process.env.STEP_UP_MAX_FAILURES || '') || DEFAULT_MAX_FAILURES;
+};
+
+const getLockoutWindowMs = () => {
+  return parseInt(process.env.STEP_UP_LOCKOUT_WINDOW_MS || '') || DEFAULT_LOCKOUT_WINDOW_MS;
+};
+
+export type StepUpCheckResult =
+  | { ok: true }
+  | { ok: false; status: 403; error: string; details: { code: 'STEP_UP_REQUIRED'; methods: StepUpMethod[] } };
+
+/**
+ * A critical action needs a step-up proof for the same user that is still inside its
+ * window. Answers 403, not 401, so clients keep the session and ask for the PIN.
+ */
+export const checkStepUp = async (req: AuthRequest): Promise<StepUpCheckResult> => {
+  const token = req.headers[STEP_UP_HEADER];
+
+  if (typeof token === 'string') {
+    try {
+      if (verifyStepUpToken(token).userId === req.user!.userId) {
+        return { ok: true };
+      }
+    } catch (error) {
+      // Expired or forged: ask again
+    }
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: req.user!.userId },
+    select: { firingPinHash: true },
+  });
+
+  return {
+    ok: false,
+    status: 403,
+    error: 'Re-enter your firing PIN or password to continue',
+    details: {
+      code: 'STEP_UP_REQUIRED',
+      methods: user?.firingPinHash ? ['PIN', 'PASSWORD'] : ['PASSWORD'],
+    },
+  };
+};
+
+/**
+ * Seconds until the user may try again after too many failed step-up attempts, or null
+ */
+export const getStepUpLockout = async (userId: string, now: Date = new Date()) => {
+  const failures = await prisma.stepUpAttempt.findMany({
+    where: { userId, success: false, createdAt: { gt: new Date(now.getTime() - getLockoutWindowMs()) } },
+    orderBy: { createdAt: 'desc' },
+    take: getMaxFailures(),
+    select: { createdAt: true },
+  });
+
+  if (failures.length < getMaxFailures()) {
+    return null;
+  }
+
+  // Locked until the oldest of the counted failures leaves the window
+  const unlocksAt = failures[failures.length - 1].createdAt.getTime() + getLockoutWindowMs();
+  return Math.max(1, Math.ceil((unlocksAt - now.getTime()) / 1000));
+};
+
+/**
+ * Log a step-up attempt; failures count towards the lockout
+ */
+export const recordStepUpAttempt = async (req: AuthRequest, method: StepUpMethod, success: boolean) => {
+  await prisma.stepUpAttempt.create({
+    data: { userId: req.user!.userId, method, success, ipAddress: req.ip ?? null },
+  });
+
+  if (!success) {
+    console.warn(`🔑 Failed step-up (${method}) for user ${req.user!.userId} from ${req.ip}`);
+  }
+};
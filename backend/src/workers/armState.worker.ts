@@ -0,0 +1,82 @@
+import prisma from '../utils/prisma';
+import { transitionArmState } from '../utils/armState';
+import { IGNITION_MESSAGE_TYPES } from '../utils/commandPolicy';
+
+const DEFAULT_CHECK_INTERVAL_MS = 5000;
+
+/**
+ * ARMING that was never confirmed and ARMED networks left idle go back to SAFE
+ */
+const expireArmedNetworks = async (now: Date) => {
+  const expired = await prisma.network.findMany({
+    where: {
+      armState: { in: ['ARMING', 'ARMED'] },
+      armExpiresAt: { lt: now },
+    },
+    select: { id: true, armState: true },
+  });
+
+  for (const network of expired) {
+    const reason = network.armState === 'ARMING'
+      ? 'Arming not confirmed in time'
+      : 'Disarmed after inactivity';
+
+    const previous = await prisma.$transaction(tx =>
+      transitionArmState(tx, network.id, [network.armState], 'SAFE', { reason })
+    );
+    if (previous) {
+      console.warn(`🔒 Network ${network.id} ${previous} → SAFE: ${reason}`);
+    }
+  }
+};
+
+/**
+ * FIRING returns to ARMED once no ignition command is queued or in flight
+ */
+const settleFiringNetworks = async () => {
+  const settled = await prisma.network.findMany({
+    where: {
+      armState: 'FIRING',
+      commands: {
+        none: {
+          messageType: { in: IGNITION_MESSAGE_TYPES },
+          status: { in: ['PENDING', 'PROCESSING'] },
+        },
+      },
+    },
+    select: { id: true },
+  });
+
+  for (const network of settled) {
+    await transitionArmState(prisma, network.id, ['FIRING'], 'ARMED', {
+      reason: 'Ignition commands settled',
+    });
+  }
+};
+
+export const checkArmStates = async () => {
+  await settleFiringNetworks();
+  await expireArmedNetworks(new Date());
+};
+
+/**
+ * Start the arm state expiry loop. Returns a function that stops it.
+ */
+export const startArmStateWorker = () => {
+  const intervalMs = parseInt(process.env.ARM_STATE_CHECK_INTERVAL_MS || '') || DEFAULT_CHECK_INTERVAL_MS;
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await checkArmStates();
+    } catch (error) {
+      console.error('Arm state worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+};
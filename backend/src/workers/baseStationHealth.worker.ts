@@ -0,0 +1,75 @@
+import prisma from '../utils/prisma';
+import { reroutePendingCommands } from '../utils/commandRouting';
+
+const DEFAULT_CHECK_INTERVAL_MS = 5000;
+const DEFAULT_OFFLINE_AFTER_MS = 30000;
+
+/**
+ * Mark base stations that stopped polling as OFFLINE
+ */
+const markSilentBaseStationsOffline = async (now: Date) => {
+  const offlineAfterMs = parseInt(process.env.BASE_STATION_OFFLINE_AFTER_MS || '') || DEFAULT_OFFLINE_AFTER_MS;
+
+  const { count } = await prisma.device.updateMany({
+    where: {
+      deviceType: 'BASE_STATION',
+      status: 'ONLINE',
+      OR: [
+        { lastPolled: null },
+        { lastPolled: { lt: new Date(now.getTime() - offlineAfterMs) } },
+      ],
+    },
+    data: { status: 'OFFLINE' },
+  });
+
+  if (count > 0) {
+    console.warn(`📴 Marked ${count} base station(s) offline`);
+  }
+};
+
+/**
+ * Reassign PENDING commands still queued on offline base stations
+ */
+const rerouteFromOfflineBaseStations = async () => {
+  const stations = await prisma.device.findMany({
+    where: {
+      deviceType: 'BASE_STATION',
+      status: { not: 'ONLINE' },
+      sentCommands: { some: { status: 'PENDING' } },
+    },
+  });
+
+  for (const station of stations) {
+    const rerouted = await reroutePendingCommands(prisma, station);
+    if (rerouted > 0) {
+      console.log(`🔀 Rerouted ${rerouted} command(s) away from ${station.boardId}`);
+    }
+  }
+};
+
+export const checkBaseStationHealth = async () => {
+  await markSilentBaseStationsOffline(new Date());
+  await rerouteFromOfflineBaseStations();
+};
+
+/**
+ * Start the base station health loop. Returns a function that stops it.
+ */
+export const startBaseStationHealthWorker = () => {
+  const intervalMs = parseInt(process.env.BASE_STATION_HEALTH_INTERVAL_MS || '') || DEFAULT_CHECK_INTERVAL_MS;
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await checkBaseStationHealth();
+    } catch (error) {
+      console.error('Base station health worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+};
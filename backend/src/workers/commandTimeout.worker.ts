@@ -0,0 +1,191 @@
+import { Command } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { selectCommandRoute } from '../utils/commandRouting';
+import { notifyCommandQueued } from '../utils/commandNotifier';
+import { recordCommandEvent, transitionCommands } from '../utils/commandEvents';
+import {
+  IGNITION_MESSAGE_TYPES,
+  getAckTimeoutMs,
+  getIgnitionDispatchCutoff,
+  getIgnitionPolicy,
+  isIgnitionCommand,
+} from '../utils/commandPolicy';
+
+const DEFAULT_CHECK_INTERVAL_MS = 2000;
+
+/**
+ * Ignition commands still waiting in the queue past their maximum age are
+ * timed out so a base station coming back online never fires them late
+ */
+const expireStaleIgnitionCommands = async (now: Date) => {
+  const count = await transitionCommands(
+    prisma,
+    {
+      status: 'PENDING',
+      messageType: { in: IGNITION_MESSAGE_TYPES },
+      fireAt: null,
+      queuedAt: { lt: getIgnitionDispatchCutoff(now) },
+    },
+    {
+      status: 'TIMEOUT',
+      completedAt: now,
+      errorMessage: 'Ignition window expired before dispatch',
+    },
+    { actor: 'SYSTEM' }
+  );
+
+  if (count > 0) {
+    console.warn(`⏱️ Expired ${count} undispatched ignition command(s)`);
+  }
+};
+
+/**
+ * Scheduled commands still waiting in the queue when their fire-at time
+ * passes would run late, so they are timed out instead
+ */
+const expireMissedScheduledCommands = async (now: Date) => {
+  const count = await transitionCommands(
+    prisma,
+    {
+      status: 'PENDING',
+      fireAt: { lte: now },
+    },
+    {
+      status: 'TIMEOUT',
+      completedAt: now,
+      errorMessage: 'Fire time passed before dispatch',
+    },
+    { actor: 'SYSTEM' }
+  );
+
+  if (count > 0) {
+    console.warn(`⏱️ Expired ${count} scheduled command(s) that missed their fire time`);
+  }
+};
+
+const getTimeoutMs = (command: Command) => {
+  return isIgnitionCommand(command.messageType)
+    ? getIgnitionPolicy().ackTimeoutMs
+    : getAckTimeoutMs(command.priority);
+};
+
+const canRetry = (command: Command, now: Date) => {
+  if (command.retryCount >= command.maxRetries) {
+    return false;
+  }
+
+  // A retried scheduled command must still arrive before its fire time
+  if (command.fireAt) {
+    return command.fireAt > now;
+  }
+
+  // A retried ignition must still be inside its firing window
+  if (isIgnitionCommand(command.messageType)) {
+    return command.queuedAt >= getIgnitionDispatchCutoff(now);
+  }
+
+  return true;
+};
+
+/**
+ * Move PROCESSING commands whose /ack never arrived back to PENDING, or to
+ * TIMEOUT once their retries are exhausted
+ */
+const handleUnacknowledgedCommands = async (now: Date) => {
+  const processing = await prisma.command.findMany({
+    where: {
+      status: 'PROCESSING',
+      dispatchedAt: { not: null },
+    },
+  });
+
+  for (const command of processing) {
+    const timeoutMs = getTimeoutMs(command);
+    if (command.dispatchedAt!.getTime() + timeoutMs > now.getTime()) {
+      continue;
+    }
+
+    const attempt = command.retryCount + 1;
+    const retry = canRetry(command, now);
+
+    // Retry through the next-best base station when another one can reach the target
+    const alternative = retry && command.sourceDeviceId
+      ? await selectCommandRoute(prisma, command.networkId, command.targetDeviceId, [command.sourceDeviceId])
+      : null;
+    const fallbackRoute = alternative?.hasLink ? alternative : null;
+    const routeReason = fallbackRoute
+      ? `Retry via next-best station after no acknowledgement. ${fallbackRoute.reason}`
+      : null;
+
+    const data = retry
+      ? {
+          status: 'PENDING' as const,
+          retryCount: attempt,
+          dispatchedAt: null,
+          errorMessage: `No acknowledgement within ${timeoutMs}ms (attempt ${attempt})`,
+          ...(fallbackRoute && {
+            sourceDeviceId: fallbackRoute.baseStation.id,
+            routeReason,
+            routedAt: now,
+          }),
+        }
+      : {
+          status: 'TIMEOUT' as const,
+          completedAt: now,
+          errorMessage: `No acknowledgement within ${timeoutMs}ms after ${attempt} attempt(s)`,
+        };
+
+    // Conditional update so a late /ack or another server instance wins cleanly
+    const { count } = await prisma.command.updateMany({
+      where: {
+        id: command.id,
+        status: 'PROCESSING',
+        dispatchedAt: command.dispatchedAt,
+      },
+      data,
+    });
+
+    if (count === 0) {
+      continue;
+    }
+
+    await recordCommandEvent(prisma, command.id, 'PROCESSING', data.status, {
+      actor: 'SYSTEM',
+      baseStationId: command.sourceDeviceId,
+      message: routeReason ? `${data.errorMessage}. ${routeReason}` : data.errorMessage,
+    });
+
+    if (retry) {
+      notifyCommandQueued(command.networkId);
+    }
+  }
+};
+
+export const checkCommandTimeouts = async () => {
+  const now = new Date();
+  await expireStaleIgnitionCommands(now);
+  await expireMissedScheduledCommands(now);
+  await handleUnacknowledgedCommands(now);
+};
+
+/**
+ * Start the background timeout/retry loop. Returns a function that stops it.
+ */
+export const startCommandTimeoutWorker = () => {
+  const intervalMs = parseInt(process.env.COMMAND_TIMEOUT_CHECK_INTERVAL_MS || '') || DEFAULT_CHECK_INTERVAL_MS;
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await checkCommandTimeouts();
+    } catch (error) {
+      console.error('Command timeout worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+};
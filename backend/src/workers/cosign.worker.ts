@@ -0,0 +1,46 @@
+import prisma from '../utils/prisma';
+import { closeCosignRequest } from '../utils/cosign';
+
+const DEFAULT_CHECK_INTERVAL_MS = 5000;
+
+/**
+ * Requests nobody approved within the co-sign window expire; their held ignitions are
+ * cancelled and held shows go back to DRAFT
+ */
+export const expireCosignRequests = async (now: Date = new Date()) => {
+  const expired = await prisma.cosignRequest.findMany({
+    where: { status: 'PENDING', expiresAt: { lte: now } },
+    select: { id: true, summary: true },
+  });
+
+  for (const request of expired) {
+    const closed = await prisma.$transaction(tx =>
+      closeCosignRequest(tx, request.id, 'EXPIRED', 'Not co-signed in time')
+    );
+    if (closed) {
+      console.warn(`✍️ Co-sign request expired: ${request.summary}`);
+    }
+  }
+};
+
+/**
+ * Start the co-sign expiry loop. Returns a function that stops it.
+ */
+export const startCosignWorker = () => {
+  const intervalMs = parseInt(process.env.COSIGN_CHECK_INTERVAL_MS || '') || DEFAULT_CHECK_INTERVAL_MS;
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await expireCosignRequests();
+    } catch (error) {
+      console.error('Co-sign worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,61 @@
+import prisma from '../utils/prisma';
+import { runDiagnosticSchedule } from '../utils/diagnostics';
+
+const DEFAULT_CHECK_INTERVAL_MS = 10000;
+
+/**
+ * Run every enabled schedule whose interval has passed since its last run
+ */
+export const runDueDiagnostics = async (now: Date = new Date()) => {
+  const schedules = await prisma.diagnosticSchedule.findMany({
+    where: { enabled: true, network: { isActive: true } },
+    include: { network: true },
+  });
+
+  for (const schedule of schedules) {
+    if (schedule.lastRunAt && schedule.lastRunAt.getTime() + schedule.intervalSeconds * 1000 > now.getTime()) {
+      continue;
+    }
+
+    // Claim the run so another server instance doesn't send it too
+    const { count } = await prisma.diagnosticSchedule.updateMany({
+      where: { id: schedule.id, enabled: true, lastRunAt: schedule.lastRunAt },
+      data: { lastRunAt: now },
+    });
+    if (count === 0) {
+      continue;
+    }
+
+    try {
+      const { result, batchId } = await runDiagnosticSchedule(schedule);
+      await prisma.diagnosticSchedule.update({
+        where: { id: schedule.id },
+        data: { lastResult: result, ...(batchId && { lastBatchId: batchId }) },
+      });
+    } catch (error) {
+      console.error(`Diagnostic schedule ${schedule.id} error:`, error);
+    }
+  }
+};
+
+/**
+ * Start the diagnostics scheduler loop. Returns a function that stops it.
+ */
+export const startDiagnosticsWorker = () => {
+  const intervalMs = parseInt(process.env.DIAGNOSTICS_CHECK_INTERVAL_MS || '') || DEFAULT_CHECK_INTERVAL_MS;
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueDiagnostics();
+    } catch (error) {
+      console.error('Diagnostics worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,139 @@
+import { Show } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { isArmed } from '../utils/armState';
+import { enqueueCommand } from '../utils/commandQueue';
+import { notifyCommandQueued } from '../utils/commandNotifier';
+import { abortRunningShow, getShowElapsedMs } from '../utils/shows';
+
+const DEFAULT_TICK_INTERVAL_MS = 200;
+
+/**
+ * Queue every cue whose offset has been reached as a CRITICAL IGNITE command
+ */
+const queueDueCues = async (show: Show, now: Date) => {
+  const elapsedMs = getShowElapsedMs(show, now);
+
+  const dueCues = await prisma.showCue.findMany({
+    where: {
+      showId: show.id,
+      queuedAt: null,
+      offsetMs: { lte: elapsedMs },
+    },
+    include: {
+      targetDevice: { include: { network: true } },
+    },
+    orderBy: [{ offsetMs: 'asc' }, { position: 'asc' }],
+  });
+
+  let queued = false;
+
+  for (const cue of dueCues) {
+    // Claiming the cue, queueing its command and linking the two commit together, so an
+    // abort always finds (and cancels) every command the show queued
+    const error = await prisma.$transaction(async tx => {
+      // Claim the cue so another server instance can't queue it too
+      const { count } = await tx.showCue.updateMany({
+        where: { id: cue.id, queuedAt: null },
+        data: { queuedAt: now },
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      const result = await enqueueCommand({
+        targetDevice: cue.targetDevice,
+        messageType: 'MSG_TYPE_IGNITE',
+        payload: { channel: cue.channel, showId: show.id, cueId: cue.id },
+        createdBy: show.startedById ?? show.createdBy,
+        db: tx,
+      });
+
+      if (!result.ok) {
+        await tx.showCue.update({
+          where: { id: cue.id },
+          data: { errorMessage: result.error },
+        });
+        await abortRunningShow(tx, show.id, `Cue ${cue.position + 1} could not be queued: ${result.error}`);
+        return result.error;
+      }
+
+      await tx.showCue.update({
+        where: { id: cue.id },
+        data: { commandId: result.command.id },
+      });
+      queued = true;
+      return null;
+    });
+
+    if (error) {
+      console.warn(`🎆 Show ${show.id} aborted at cue ${cue.position + 1}: ${error}`);
+      return;
+    }
+  }
+
+  // Wake base stations holding a long-poll request
+  if (queued) {
+    notifyCommandQueued(show.networkId);
+  }
+};
+
+/**
+ * A show is complete once every cue is queued and none of its commands is still pending or in flight
+ */
+const completeIfFinished = async (show: Show) => {
+  const remaining = await prisma.showCue.count({
+    where: {
+      showId: show.id,
+      OR: [
+        { queuedAt: null },
+        { command: { status: { in: ['PENDING', 'PROCESSING'] } } },
+      ],
+    },
+  });
+
+  if (remaining === 0) {
+    await prisma.show.updateMany({
+      where: { id: show.id, status: 'RUNNING' },
+      data: { status: 'COMPLETED', completedAt: new Date() },
+    });
+  }
+};
+
+export const runShows = async () => {
+  const shows = await prisma.show.findMany({
+    where: { status: 'RUNNING' },
+    include: { network: { select: { armState: true } } },
+  });
+
+  for (const { network, ...show } of shows) {
+    if (!isArmed(network.armState)) {
+      await abortRunningShow(prisma, show.id, `Network is ${network.armState}`);
+      continue;
+    }
+
+    await queueDueCues(show, new Date());
+    await completeIfFinished(show);
+  }
+};
+
+/**
+ * Start the show runner loop. Returns a function that stops it.
+ */
+export const startShowRunnerWorker = () => {
+  const intervalMs = parseInt(process.env.SHOW_RUNNER_INTERVAL_MS || '') || DEFAULT_TICK_INTERVAL_MS;
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runShows();
+    } catch (error) {
+      console.error('Show runner error:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+import prisma from '../src/utils/prisma';
+import { acknowledgeCommand } from '../src/controllers/gateway.controller';
+import { checkCommandTimeouts } from '../src/workers/commandTimeout.worker';
+import { createBaseStation, createFieldUnit, createNetwork, createUser, gatewayRequest, mockResponse } from './fixtures';
+
+const LONG_AGO = () => new Date(Date.now() - 10 * 60 * 1000); // Past every ack timeout
+
+/**
+ * A command dispatched through a base station and waiting for its /ack
+ */
+const dispatch = async (data: Partial<Prisma.CommandUncheckedCreateInput> = {}) => {
+  const user = await createUser();
+  const network = await createNetwork(user.id, { armState: 'FIRING' });
+  const station = await createBaseStation(network.id);
+  const unit = await createFieldUnit(network.id);
+  const command = await prisma.command.create({
+    data: {
+      networkId: network.id,
+      sourceDeviceId: station.id,
+      targetDeviceId: unit.id,
+      messageType: 'MSG_TYPE_PING',
+      status: 'PROCESSING',
+      dispatchedAt: new Date(),
+      createdBy: user.id,
+      ...data,
+    },
+  });
+  return { network, station, unit, command };
+};
+
+const ack = async (station: Awaited<ReturnType<typeof createBaseStation>>, commandId: string, success = true) => {
+  const { res, sent } = mockResponse();
+  await acknowledgeCommand(gatewayRequest(station, { commandId, success }), res);
+  return sent;
+};
+
+const eventsFromProcessing = (commandId: string) => {
+  return prisma.commandEvent.findMany({ where: { commandId, fromStatus: 'PROCESSING' } });
+};
+
+describe('acknowledgeCommand', () => {
+  it('completes a command in flight', async () => {
+    const { station, command } = await dispatch();
+
+    expect(await ack(station, command.id)).toMatchObject({ statusCode: 200, body: { success: true } });
+    expect(await prisma.command.findUniqueOrThrow({ where: { id: command.id } })).toMatchObject({ status: 'COMPLETED' });
+    expect(await eventsFromProcessing(command.id)).toMatchObject([{ toStatus: 'COMPLETED', actor: 'BASE_STATION' }]);
+  });
+
+  it('only accepts the ack from the base station that claimed the command', async () => {
+    const { network, command } = await dispatch();
+    const other = await createBaseStation(network.id);
+
+    expect(await ack(other, command.id)).toMatchObject({ statusCode: 403, body: { code: 'FOREIGN_COMMAND' } });
+    expect((await prisma.command.findUniqueOrThrow({ where: { id: command.id } })).status).toBe('PROCESSING');
+  });
+
+  it('refuses a late ack once the timeout worker has requeued the command', async () => {
+    const { station, command } = await dispatch({ dispatchedAt: LONG_AGO() });
+
+    await checkCommandTimeouts();
+    expect((await prisma.command.findUniqueOrThrow({ where: { id: command.id } })).status).toBe('PENDING');
+
+    expect(await ack(station, command.id)).toMatchObject({ statusCode: 409, body: { code: 'NOT_DISPATCHED' } });
+    expect(await eventsFromProcessing(command.id)).toMatchObject([{ toStatus: 'PENDING', actor: 'SYSTEM' }]);
+  });
+
+  it('refuses a late ack once the command timed out for good', async () => {
+    const { station, command } = await dispatch({ dispatchedAt: LONG_AGO(), retryCount: 3, maxRetries: 3 });
+
+    await checkCommandTimeouts();
+
+    expect(await ack(station, command.id)).toMatchObject({
+      statusCode: 409,
+      body: { code: 'NOT_IN_FLIGHT', status: 'TIMEOUT' },
+    });
+    expect((await prisma.command.findUniqueOrThrow({ where: { id: command.id } })).status).toBe('TIMEOUT');
+    expect(await eventsFromProcessing(command.id)).toHaveLength(1);
+  });
+
+  it('keeps the ack when it lands after the timeout worker read the command', async () => {
+    const { station, command } = await dispatch({ dispatchedAt: LONG_AGO(), retryCount: 3, maxRetries: 3 });
+    const findMany = prisma.command.findMany;
+    let acked: Awaited<ReturnType<typeof ack>> | undefined;
+
+    // The ack arrives between the worker's read and its conditional update
+    vi.spyOn(prisma.command, 'findMany').mockImplementation((async (args: Prisma.CommandFindManyArgs) => {
+      const found = await findMany(args);
+      if (args.where?.status === 'PROCESSING' && !acked) {
+        acked = await ack(station, command.id);
+      }
+      return found;
+    }) as unknown as typeof findMany);
+
+    await checkCommandTimeouts();
+
+    expect(acked?.statusCode).toBe(200);
+    expect((await prisma.command.findUniqueOrThrow({ where: { id: command.id } })).status).toBe('COMPLETED');
+    expect(await eventsFromProcessing(command.id)).toMatchObject([{ toStatus: 'COMPLETED' }]);
+  });
+
+  it('refuses the ack when the timeout lands after the ack read the command', async () => {
+    const { station, command } = await dispatch({ dispatchedAt: LONG_AGO(), retryCount: 3, maxRetries: 3 });
+    const findUnique = prisma.command.findUnique;
+    let timedOut = false;
+
+    // The timeout worker runs between the ack's read and its conditional update
+    vi.spyOn(prisma.command, 'findUnique').mockImplementation((async (args: Prisma.CommandFindUniqueArgs) => {
+      const found = await findUnique(args);
+      if (!timedOut) {
+        timedOut = true;
+        await checkCommandTimeouts();
+      }
+      return found;
+    }) as unknown as typeof findUnique);
+
+    expect(await ack(station, command.id)).toMatchObject({
+      statusCode: 409,
+      body: { code: 'NOT_IN_FLIGHT', status: 'TIMEOUT' },
+    });
+    expect(await eventsFromProcessing(command.id)).toMatchObject([{ toStatus: 'TIMEOUT', actor: 'SYSTEM' }]);
+  });
+});
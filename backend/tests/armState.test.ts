@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { transitionArmState } from '../src/utils/armState';
+import { createCosignRequest } from '../src/utils/cosign';
+import { armNetwork, confirmArm } from '../src/controllers/arm.controller';
+import { checkArmStates } from '../src/workers/armState.worker';
+import { authRequest, createBaseStation, createFieldUnit, createNetwork, createUser, mockResponse } from './fixtures';
+
+describe('transitionArmState', () => {
+  it('only applies from one of the given states and logs the transition', async () => {
+    const user = await createUser();
+    const network = await createNetwork(user.id);
+
+    expect(await transitionArmState(prisma, network.id, ['ARMING'], 'ARMED', { userId: user.id })).toBeNull();
+    expect(await transitionArmState(prisma, network.id, ['SAFE'], 'ARMING', { userId: user.id })).toBe('SAFE');
+
+    const transitions = await prisma.armTransition.findMany({ where: { networkId: network.id } });
+    expect(transitions).toMatchObject([{ fromState: 'SAFE', toState: 'ARMING', userId: user.id }]);
+  });
+
+  it('lets only one of two concurrent transitions win', async () => {
+    const user = await createUser();
+    const network = await createNetwork(user.id, { armState: 'ARMED' });
+
+    const results = await Promise.all([
+      transitionArmState(prisma, network.id, ['ARMED'], 'FIRING'),
+      transitionArmState(prisma, network.id, ['ARMED'], 'SAFE'),
+    ]);
+
+    expect(results.filter(previous => previous !== null)).toEqual(['ARMED']);
+    expect(await prisma.armTransition.count({ where: { networkId: network.id } })).toBe(1);
+  });
+
+  it('cancels queued and held ignitions when going to SAFE', async () => {
+    const user = await createUser();
+    const network = await createNetwork(user.id, { armState: 'ARMED' });
+    const station = await createBaseStation(network.id);
+    const unit = await createFieldUnit(network.id);
+    const base = { networkId: network.id, sourceDeviceId: station.id, targetDeviceId: unit.id, createdBy: user.id };
+
+    const queued = await prisma.command.create({ data: { ...base, messageType: 'MSG_TYPE_IGNITE' } });
+    const held = await prisma.command.create({
+      data: { ...base, messageType: 'MSG_TYPE_IGNITE', status: 'AWAITING_COSIGN' },
+    });
+    const inFlight = await prisma.command.create({
+      data: { ...base, messageType: 'MSG_TYPE_IGNITE', status: 'PROCESSING' },
+    });
+    const ping = await prisma.command.create({ data: { ...base, messageType: 'MSG_TYPE_PING' } });
+    const request = await createCosignRequest(prisma, {
+      networkId: network.id,
+      kind: 'IGNITE',
+      summary: 'Fire CH1',
+      requestedById: user.id,
+      commandWhere: { id: held.id },
+    });
+
+    await transitionArmState(prisma, network.id, ['ARMED'], 'SAFE', { userId: user.id, reason: 'Show over' });
+
+    const statuses = Object.fromEntries(
+      (await prisma.command.findMany()).map(command => [command.id, command.status])
+    );
+    expect(statuses).toEqual({
+      [queued.id]: 'CANCELLED',
+      [held.id]: 'CANCELLED',
+      [inFlight.id]: 'PROCESSING', // Already sent; an emergency stop aborts those
+      [ping.id]: 'PENDING',
+    });
+    expect(await prisma.cosignRequest.findUnique({ where: { id: request.id } })).toMatchObject({
+      status: 'CANCELLED',
+      reason: 'Network disarmed: Show over',
+    });
+
+    const events = await prisma.commandEvent.findMany({ where: { toStatus: 'CANCELLED' } });
+    expect(events.map(e => e.commandId).sort()).toEqual([queued.id, held.id].sort());
+    expect(events.every(e => e.actor === 'USER' && e.userId === user.id)).toBe(true);
+  });
+});
+
+describe('arming', () => {
+  it('needs a step-up proof and no active emergency stop', async () => {
+    const user = await createUser();
+    const network = await createNetwork(user.id);
+
+    const withoutStepUp = mockResponse();
+    await armNetwork(authRequest(user, { params: { networkId: network.id } }), withoutStepUp.res);
+    expect(withoutStepUp.sent).toMatchObject({ statusCode: 403, body: { code: 'STEP_UP_REQUIRED' } });
+
+    await prisma.network.update({ where: { id: network.id }, data: { emergencyStopAt: new Date() } });
+    const stopped = mockResponse();
+    await armNetwork(authRequest(user, { params: { networkId: network.id }, stepUp: true }), stopped.res);
+    expect(stopped.sent.statusCode).toBe(409);
+
+    expect((await prisma.network.findUnique({ where: { id: network.id } }))?.armState).toBe('SAFE');
+  });
+
+  it('needs a second person to confirm when the network requires it', async () => {
+    const owner = await createUser('Owner');
+    const commander = await createUser('Commander');
+    const network = await createNetwork(owner.id, { requireSecondArmer: true });
+    await prisma.networkGuest.create({ data: { networkId: network.id, userId: commander.id, permission: 'COMMANDER' } });
+    const params = { networkId: network.id };
+
+    const armed = mockResponse();
+    await armNetwork(authRequest(owner, { params, stepUp: true }), armed.res);
+    expect(armed.sent.body).toMatchObject({ armState: 'ARMING' });
+
+    const self = mockResponse();
+    await confirmArm(authRequest(owner, { params, stepUp: true }), self.res);
+    expect(self.sent.statusCode).toBe(403);
+
+    const second = mockResponse();
+    await confirmArm(authRequest(commander, { params, stepUp: true }), second.res);
+    expect(second.sent.body).toMatchObject({ armState: 'ARMED' });
+  });
+});
+
+describe('checkArmStates', () => {
+  it('disarms networks whose arm window expired and settles finished firing', async () => {
+    const user = await createUser();
+    const past = new Date(Date.now() - 1000);
+    const idle = await createNetwork(user.id, { armState: 'ARMED', armExpiresAt: past });
+    const unconfirmed = await createNetwork(user.id, { armState: 'ARMING', armExpiresAt: past });
+    const firing = await createNetwork(user.id, { armState: 'FIRING', armExpiresAt: new Date(Date.now() + 60000) });
+
+    await checkArmStates();
+
+    const states = Object.fromEntries((await prisma.network.findMany()).map(n => [n.id, n.armState]));
+    expect(states).toEqual({ [idle.id]: 'SAFE', [unconfirmed.id]: 'SAFE', [firing.id]: 'ARMED' });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { BROADCAST_CAPABILITY, BatchModeRequest, createCommandBatch, getBatchReport } from '../src/utils/commandBatch';
+import { createBaseStation, createFieldUnit, createNetwork, createUser } from './fixtures';
+
+const setUp = async ({ broadcast = false, armState = 'ARMED' as const } = {}) => {
+  const user = await createUser();
+  const network = await createNetwork(user.id, { armState });
+  const capabilities = broadcast ? [BROADCAST_CAPABILITY] : [];
+  const stations = [await createBaseStation(network.id, capabilities), await createBaseStation(network.id, capabilities)];
+  const units = [
+    await createFieldUnit(network.id),
+    await createFieldUnit(network.id),
+    await createFieldUnit(network.id, { channelCount: 2 }),
+  ];
+  return { user, network, stations, units };
+};
+
+type Setup = Awaited<ReturnType<typeof setUp>>;
+
+const send = ({ user, network }: Setup, messageType: 'MSG_TYPE_PING' | 'MSG_TYPE_IGNITE', mode: BatchModeRequest) => {
+  return createCommandBatch({
+    network,
+    target: { type: 'ALL' },
+    messageType,
+    payload: messageType === 'MSG_TYPE_IGNITE' ? { channel: 3 } : undefined,
+    mode,
+    createdBy: user.id,
+  });
+};
+
+/**
+ * Record whether each CommandBatch was created while a transaction was open
+ */
+const watchBatchCreation = () => {
+  const transaction = prisma.$transaction;
+  const create = prisma.commandBatch.create;
+  let open = 0;
+  const createdInTransaction: boolean[] = [];
+
+  vi.spyOn(prisma, '$transaction').mockImplementation((async (...args: Parameters<typeof transaction>) => {
+    open++;
+    try {
+      return await transaction.apply(prisma, args);
+    } finally {
+      open--;
+    }
+  }) as unknown as typeof transaction);
+  vi.spyOn(prisma.commandBatch, 'create').mockImplementation(((...args: Parameters<typeof create>) => {
+    createdInTransaction.push(open > 0);
+    return create(...args);
+  }) as unknown as typeof create);
+
+  return createdInTransaction;
+};
+
+describe('createCommandBatch', () => {
+  it('broadcasts once per online base station when every station supports it', async () => {
+    const setup = await setUp({ broadcast: true });
+    const createdInTransaction = watchBatchCreation();
+
+    const result = await send(setup, 'MSG_TYPE_PING', 'AUTO');
+
+    expect(result).toMatchObject({ ok: true, batch: { mode: 'BROADCAST', targetType: 'ALL' } });
+    expect(createdInTransaction).toEqual([true]);
+    const commands = await prisma.command.findMany();
+    expect(commands.map(c => c.sourceDeviceId).sort()).toEqual(setup.stations.map(s => s.id).sort());
+    expect(commands.every(c => c.targetDeviceId === null)).toBe(true);
+    expect(await prisma.commandEvent.count()).toBe(2);
+  });
+
+  it('fans out per unit when a base station cannot broadcast, or refuses a forced broadcast', async () => {
+    const setup = await setUp();
+
+    expect(await send(setup, 'MSG_TYPE_PING', 'BROADCAST')).toMatchObject({ ok: false, status: 400 });
+    expect(await prisma.commandBatch.count()).toBe(0);
+
+    const result = await send(setup, 'MSG_TYPE_PING', 'AUTO');
+    expect(result).toMatchObject({ ok: true, batch: { mode: 'FANOUT' } });
+    expect((await prisma.command.findMany()).map(c => c.targetDeviceId).sort()).toEqual(
+      setup.units.map(u => u.id).sort()
+    );
+  });
+
+  it('queues a fanned-out ignition in one transaction and records per-unit rejections', async () => {
+    const setup = await setUp();
+    const createdInTransaction = watchBatchCreation();
+
+    const result = await send(setup, 'MSG_TYPE_IGNITE', 'AUTO');
+
+    expect(createdInTransaction).toEqual([true]);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    // The third unit only has two relay channels
+    expect(result.batch.rejections).toMatchObject([{ deviceId: setup.units[2].id }]);
+    const report = await getBatchReport(result.batch);
+    expect(report.summary).toEqual({ PENDING: 2, REJECTED: 1 });
+    expect(report.targets.find(t => t.deviceId === setup.units[2].id)?.error).toMatch(/Channel must be between 1 and 2/);
+  });
+
+  it('refuses targets that are not approved field units of the network', async () => {
+    const setup = await setUp();
+
+    const result = await createCommandBatch({
+      network: setup.network,
+      target: { type: 'DEVICES', deviceIds: [setup.units[0].id, setup.stations[0].id] },
+      messageType: 'MSG_TYPE_PING',
+      mode: 'AUTO',
+      createdBy: setup.user.id,
+    });
+
+    expect(result).toMatchObject({ ok: false, status: 400, details: { invalidDeviceIds: [setup.stations[0].id] } });
+    expect(await prisma.commandBatch.count()).toBe(0);
+  });
+});
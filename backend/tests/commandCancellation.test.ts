@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Prisma, PrismaClient } from '@prisma/client';
+import prisma from '../src/utils/prisma';
+import { cancelCommand, reprioritiseCommand } from '../src/controllers/command.controller';
+import { claimNextCommand } from '../src/utils/commandDispatch';
+import { authRequest, createBaseStation, createFieldUnit, createNetwork, createUser, mockResponse } from './fixtures';
+
+const setUp = async (data: Partial<Prisma.CommandUncheckedCreateInput> = {}) => {
+  const owner = await createUser('Owner');
+  const network = await createNetwork(owner.id);
+  const station = await createBaseStation(network.id);
+  const unit = await createFieldUnit(network.id);
+  const command = await prisma.command.create({
+    data: {
+      networkId: network.id,
+      sourceDeviceId: station.id,
+      targetDeviceId: unit.id,
+      messageType: 'MSG_TYPE_BATT',
+      createdBy: owner.id,
+      ...data,
+    },
+  });
+  return { owner, network, station, command, params: { commandId: command.id } };
+};
+
+const statusOf = async (id: string) => (await prisma.command.findUniqueOrThrow({ where: { id } })).status;
+
+describe('cancelCommand', () => {
+  it('cancels a pending command and records who did it', async () => {
+    const { owner, command, params } = await setUp();
+
+    const { res, sent } = mockResponse();
+    await cancelCommand(authRequest(owner, { params, body: { reason: 'Wrong unit' } }), res);
+
+    expect(sent.body).toMatchObject({ status: 'CANCELLED', errorMessage: 'Cancelled: Wrong unit' });
+    expect(await prisma.commandAudit.findFirst({ where: { commandId: command.id } })).toMatchObject({
+      userId: owner.id,
+      action: 'CANCELLED',
+      reason: 'Wrong unit',
+    });
+    expect(await prisma.commandEvent.findFirst({ where: { commandId: command.id } })).toMatchObject({
+      fromStatus: 'PENDING',
+      toStatus: 'CANCELLED',
+      actor: 'USER',
+      userId: owner.id,
+    });
+  });
+
+  it('refuses users without access, and a command already picked up', async () => {
+    const { owner, params } = await setUp({ status: 'PROCESSING' });
+    const stranger = await createUser('Stranger');
+
+    const byStranger = mockResponse();
+    await cancelCommand(authRequest(stranger, { params }), byStranger.res);
+    expect(byStranger.sent.statusCode).toBe(403);
+
+    const late = mockResponse();
+    await cancelCommand(authRequest(owner, { params }), late.res);
+    expect(late.sent).toMatchObject({ statusCode: 409, body: { status: 'PROCESSING' } });
+    expect(await prisma.commandAudit.count()).toBe(0);
+  });
+
+  it('needs ignition rights to cancel an ignition', async () => {
+    const { network, command, params } = await setUp({ messageType: 'MSG_TYPE_IGNITE', payload: { channel: 1 } });
+    const viewer = await createUser('Viewer');
+    await prisma.networkGuest.create({ data: { networkId: network.id, userId: viewer.id, permission: 'VIEW_ONLY' } });
+
+    const { res, sent } = mockResponse();
+    await cancelCommand(authRequest(viewer, { params }), res);
+
+    expect(sent.statusCode).toBe(403);
+    expect(await statusOf(command.id)).toBe('PENDING');
+  });
+
+  it('lets a base station claiming the command at the same moment win', async () => {
+    const { owner, station, command, params } = await setUp();
+    const findUnique = prisma.command.findUnique;
+    let claimed = false;
+
+    // The base station polls between the cancel's read and its conditional update
+    vi.spyOn(prisma.command, 'findUnique').mockImplementation((async (args: Prisma.CommandFindUniqueArgs) => {
+      const found = await findUnique(args);
+      if (!claimed) {
+        claimed = true;
+        await claimNextCommand(prisma as PrismaClient, station);
+      }
+      return found;
+    }) as unknown as typeof findUnique);
+
+    const { res, sent } = mockResponse();
+    await cancelCommand(authRequest(owner, { params }), res);
+
+    expect(sent).toMatchObject({ statusCode: 409, body: { status: 'PROCESSING' } });
+    expect(await statusOf(command.id)).toBe('PROCESSING');
+  });
+});
+
+describe('reprioritiseCommand', () => {
+  it('changes the priority of a pending command and audits it', async () => {
+    const { owner, command, params } = await setUp();
+
+    const { res, sent } = mockResponse();
+    await reprioritiseCommand(authRequest(owner, { params, body: { priority: 'HIGH' } }), res);
+
+    expect(sent.body).toMatchObject({ priority: 'HIGH', status: 'PENDING' });
+    expect(await prisma.commandAudit.findFirst({ where: { commandId: command.id } })).toMatchObject({
+      action: 'REPRIORITISED',
+      fromValue: 'NORMAL',
+      toValue: 'HIGH',
+    });
+  });
+
+  it('keeps ignition commands CRITICAL', async () => {
+    const { owner, params } = await setUp({ messageType: 'MSG_TYPE_IGNITE', priority: 'CRITICAL', payload: { channel: 1 } });
+
+    const { res, sent } = mockResponse();
+    await reprioritiseCommand(authRequest(owner, { params, body: { priority: 'LOW' } }), res);
+
+    expect(sent).toMatchObject({ statusCode: 400, body: { error: 'Ignition commands are always CRITICAL' } });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import prisma from '../src/utils/prisma';
+import { claimNextCommand } from '../src/utils/commandDispatch';
+import { createBaseStation, createNetwork, createUser } from './fixtures';
+
+const BASE_STATIONS = 4;
+const POLLERS_PER_STATION = 3; // One per simulated server instance
+const BROADCAST_COMMANDS = 40;
+const ROUTED_COMMANDS_PER_STATION = 5;
+
+describe('claimNextCommand', () => {
+  it('hands every command out exactly once to concurrent pollers', async () => {
+    const user = await createUser();
+    const network = await createNetwork(user.id);
+    const stations = await Promise.all(Array.from({ length: BASE_STATIONS }, () => createBaseStation(network.id)));
+
+    await prisma.command.createMany({
+      data: [
+        ...Array.from({ length: BROADCAST_COMMANDS }, () => ({
+          networkId: network.id,
+          messageType: 'MSG_TYPE_PING' as const,
+          createdBy: user.id,
+        })),
+        ...stations.flatMap(station =>
+          Array.from({ length: ROUTED_COMMANDS_PER_STATION }, () => ({
+            networkId: network.id,
+            sourceDeviceId: station.id,
+            messageType: 'MSG_TYPE_PING' as const,
+            createdBy: user.id,
+          }))
+        ),
+      ],
+    });
+
+    const claims = new Map<string, string[]>(); // commandId -> claiming base station IDs
+    const pollers = stations.flatMap(station =>
+      Array.from({ length: POLLERS_PER_STATION }, async () => {
+        while (true) {
+          const command = await claimNextCommand(prisma as PrismaClient, station);
+          if (command) {
+            claims.set(command.id, [...(claims.get(command.id) ?? []), station.id]);
+            continue;
+          }
+          // A poll that only lost races comes back empty; the station simply polls again
+          const left = await prisma.command.count({
+            where: { status: 'PENDING', OR: [{ sourceDeviceId: station.id }, { sourceDeviceId: null }] },
+          });
+          if (left === 0) return;
+        }
+      })
+    );
+    await Promise.all(pollers);
+
+    const commands = await prisma.command.findMany({ where: { networkId: network.id } });
+    const events = await prisma.commandEvent.findMany({ where: { toStatus: 'PROCESSING' } });
+
+    expect(claims.size).toBe(BROADCAST_COMMANDS + BASE_STATIONS * ROUTED_COMMANDS_PER_STATION);
+    expect([...claims.values()].filter(by => by.length > 1)).toEqual([]);
+    expect(commands.filter(c => c.status !== 'PROCESSING')).toEqual([]);
+    // Broadcasts are bound to the station that claimed them, routed commands stay with theirs
+    expect(commands.filter(c => c.sourceDeviceId !== claims.get(c.id)?.[0])).toEqual([]);
+    expect(events).toHaveLength(claims.size);
+  });
+
+  it('holds back ignitions while the network is not armed', async () => {
+    const user = await createUser();
+    const network = await createNetwork(user.id);
+    const station = await createBaseStation(network.id);
+
+    await prisma.command.create({
+      data: { networkId: network.id, sourceDeviceId: station.id, messageType: 'MSG_TYPE_IGNITE', createdBy: user.id },
+    });
+
+    expect(await claimNextCommand(prisma as PrismaClient, station)).toBeNull();
+
+    await prisma.network.update({ where: { id: network.id }, data: { armState: 'ARMED' } });
+
+    expect(await claimNextCommand(prisma as PrismaClient, station)).toMatchObject({ status: 'PROCESSING' });
+  });
+});
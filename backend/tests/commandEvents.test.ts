@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Prisma, PrismaClient } from '@prisma/client';
+import prisma from '../src/utils/prisma';
+import { enqueueCommand } from '../src/utils/commandQueue';
+import { claimNextCommand } from '../src/utils/commandDispatch';
+import { transitionCommands } from '../src/utils/commandEvents';
+import { acknowledgeCommand } from '../src/controllers/gateway.controller';
+import { getCommandEvents } from '../src/controllers/command.controller';
+import {
+  authRequest,
+  createBaseStation,
+  createFieldUnit,
+  createNetwork,
+  createUser,
+  gatewayRequest,
+  loadFieldUnit,
+  mockResponse,
+} from './fixtures';
+
+const setUp = async () => {
+  const owner = await createUser('Owner');
+  const network = await createNetwork(owner.id);
+  const station = await createBaseStation(network.id);
+  const unit = await loadFieldUnit((await createFieldUnit(network.id)).id);
+  const result = await enqueueCommand({ targetDevice: unit, messageType: 'MSG_TYPE_PING', createdBy: owner.id });
+  if (!result.ok) throw new Error(result.error);
+  return { owner, network, station, command: result.command, params: { commandId: result.command.id } };
+};
+
+const timelineFor = async (user: { id: string; email: string; role: string }, params: { commandId: string }) => {
+  const { res, sent } = mockResponse();
+  await getCommandEvents(authRequest(user, { params }), res);
+  return sent;
+};
+
+describe('command events', () => {
+  it('logs every state change from creation to the ack, in order', async () => {
+    const { owner, network, station, command, params } = await setUp();
+    const viewer = await createUser('Viewer');
+    await prisma.networkGuest.create({ data: { networkId: network.id, userId: viewer.id, permission: 'VIEW_ONLY' } });
+
+    await claimNextCommand(prisma as PrismaClient, station);
+    const ack = mockResponse();
+    await acknowledgeCommand(gatewayRequest(station, { commandId: command.id, success: true }), ack.res);
+
+    const { statusCode, body } = await timelineFor(viewer, params);
+    expect(statusCode).toBe(200);
+    expect(body).toMatchObject([
+      { fromStatus: null, toStatus: 'PENDING', actor: 'USER', user: { id: owner.id, name: 'Owner' } },
+      { fromStatus: 'PENDING', toStatus: 'PROCESSING', actor: 'BASE_STATION', message: 'Dispatched' },
+      { fromStatus: 'PROCESSING', toStatus: 'COMPLETED', actor: 'BASE_STATION' },
+    ]);
+    expect(body[1].baseStation).toMatchObject({ id: station.id, boardId: station.boardId });
+  });
+
+  it('hides the timeline from people outside the network', async () => {
+    const { params } = await setUp();
+
+    expect((await timelineFor(await createUser('Stranger'), params)).statusCode).toBe(403);
+    expect((await timelineFor(await createUser('Stranger'), { commandId: 'missing' })).statusCode).toBe(404);
+  });
+
+  it('gives no event to a command that changed after it was read', async () => {
+    const { command } = await setUp();
+    const findMany = prisma.command.findMany;
+
+    // Someone else cancels the command between the read and the conditional update
+    vi.spyOn(prisma.command, 'findMany').mockImplementation((async (args: Prisma.CommandFindManyArgs) => {
+      const found = await findMany(args);
+      await prisma.command.update({ where: { id: command.id }, data: { status: 'CANCELLED' } });
+      return found;
+    }) as unknown as typeof findMany);
+
+    const changed = await transitionCommands(
+      prisma,
+      { id: command.id, status: { in: ['PENDING', 'CANCELLED'] } },
+      { status: 'FAILED', errorMessage: 'Target unreachable' },
+      { actor: 'SYSTEM' }
+    );
+
+    expect(changed).toBe(0);
+    expect((await prisma.command.findUniqueOrThrow({ where: { id: command.id } })).status).toBe('CANCELLED');
+    expect(await prisma.commandEvent.count({ where: { commandId: command.id, toStatus: 'FAILED' } })).toBe(0);
+  });
+
+  it('defaults the event message to the error being written', async () => {
+    const { command } = await setUp();
+
+    await transitionCommands(
+      prisma,
+      { id: command.id },
+      { status: 'FAILED', errorMessage: 'Target unreachable' },
+      { actor: 'SYSTEM' }
+    );
+
+    expect(await prisma.commandEvent.findFirst({ where: { toStatus: 'FAILED' } })).toMatchObject({
+      fromStatus: 'PENDING',
+      actor: 'SYSTEM',
+      message: 'Target unreachable',
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { enqueueCommand } from '../src/utils/commandQueue';
+import { createBaseStation, createFieldUnit, createNetwork, createUser, loadFieldUnit } from './fixtures';
+
+const setUp = async (network: Parameters<typeof createNetwork>[1] = { armState: 'ARMED' }) => {
+  const user = await createUser();
+  const { id: networkId } = await createNetwork(user.id, network);
+  await createBaseStation(networkId);
+  return { user, networkId };
+};
+
+describe('enqueueCommand', () => {
+  it('refuses ignition unless the network is armed', async () => {
+    const { user, networkId } = await setUp({ armState: 'SAFE' });
+    const unit = await loadFieldUnit((await createFieldUnit(networkId)).id);
+
+    const result = await enqueueCommand({ targetDevice: unit, messageType: 'MSG_TYPE_IGNITE', createdBy: user.id });
+
+    expect(result).toMatchObject({ ok: false, status: 409, details: { armState: 'SAFE' } });
+    expect(await prisma.command.count()).toBe(0);
+  });
+
+  it('queues an ignition that passes every interlock and starts FIRING', async () => {
+    const { user, networkId } = await setUp();
+    const unit = await loadFieldUnit((await createFieldUnit(networkId)).id);
+
+    const result = await enqueueCommand({
+      targetDevice: unit,
+      messageType: 'MSG_TYPE_IGNITE',
+      payload: { channel: 2 },
+      createdBy: user.id,
+    });
+
+    expect(result).toMatchObject({ ok: true, command: { status: 'PENDING', priority: 'CRITICAL', payload: { channel: 2 } } });
+    expect((await prisma.network.findUniqueOrThrow({ where: { id: networkId } })).armState).toBe('FIRING');
+  });
+
+  it('refuses ignition while an interlock fails', async () => {
+    const { user, networkId } = await setUp();
+    const stale = new Date(Date.now() - 5 * 60 * 1000);
+    const unit = await loadFieldUnit((await createFieldUnit(networkId, { lastSeen: stale, batteryPercent: 10 })).id);
+
+    const result = await enqueueCommand({ targetDevice: unit, messageType: 'MSG_TYPE_IGNITE', createdBy: user.id });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.details).toMatchObject({ code: 'INTERLOCK_FAILED' });
+      expect((result.details!.failures as { check: string }[]).map(f => f.check)).toEqual([
+        'TARGET_LOW_BATTERY',
+        'TARGET_STALE',
+      ]);
+    }
+    expect(await prisma.command.count()).toBe(0);
+    expect((await prisma.network.findUniqueOrThrow({ where: { id: networkId } })).armState).toBe('ARMED');
+  });
+
+  it('refuses ignition inside an audience zone', async () => {
+    const { user, networkId } = await setUp();
+    await prisma.audienceZone.create({
+      data: { networkId, name: 'Crowd', polygon: [[51.4, -0.2], [51.6, -0.2], [51.6, 0], [51.4, 0]] },
+    });
+    const unit = await loadFieldUnit((await createFieldUnit(networkId)).id);
+
+    const result = await enqueueCommand({ targetDevice: unit, messageType: 'MSG_TYPE_IGNITE', createdBy: user.id });
+
+    expect(result).toMatchObject({ ok: false, status: 409, details: { failures: [{ check: 'IN_AUDIENCE_ZONE' }] } });
+  });
+
+  it('queues past an overridden interlock and logs the override', async () => {
+    const { user, networkId } = await setUp();
+    const unit = await loadFieldUnit((await createFieldUnit(networkId, { gpsUpdatedAt: null })).id);
+
+    const result = await enqueueCommand({
+      targetDevice: unit,
+      messageType: 'MSG_TYPE_IGNITE',
+      payload: { channel: 1 },
+      createdBy: user.id,
+      overrides: [{ check: 'GPS_STALE', justification: 'Unit is on the barge, position checked by eye' }],
+    });
+
+    expect(result.ok).toBe(true);
+    const overrides = await prisma.interlockOverride.findMany();
+    expect(overrides).toMatchObject([
+      { check: 'GPS_STALE', userId: user.id, justification: 'Unit is on the barge, position checked by eye' },
+    ]);
+    if (result.ok) {
+      expect(overrides[0].commandId).toBe(result.command.id);
+    }
+  });
+
+  it('never lets an emergency stop be overridden', async () => {
+    const { user, networkId } = await setUp({ armState: 'ARMED', emergencyStopAt: new Date() });
+    const unit = await loadFieldUnit((await createFieldUnit(networkId)).id);
+
+    const result = await enqueueCommand({
+      targetDevice: unit,
+      messageType: 'MSG_TYPE_IGNITE',
+      createdBy: user.id,
+      overrides: [{ check: 'EMERGENCY_STOP_ACTIVE', justification: 'Testing' }],
+    });
+
+    expect(result).toMatchObject({ ok: false, details: { failures: [{ check: 'EMERGENCY_STOP_ACTIVE' }] } });
+    expect(await prisma.interlockOverride.count()).toBe(0);
+  });
+
+  it('skips the interlocks for requests that cannot fire anything', async () => {
+    const { user, networkId } = await setUp({ armState: 'SAFE' });
+    const unit = await loadFieldUnit((await createFieldUnit(networkId, { lastSeen: null, status: 'OFFLINE' })).id);
+
+    const result = await enqueueCommand({ targetDevice: unit, messageType: 'MSG_TYPE_PING', createdBy: user.id });
+
+    expect(result).toMatchObject({ ok: true, command: { status: 'PENDING', priority: 'NORMAL' } });
+  });
+});
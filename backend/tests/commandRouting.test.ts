@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { selectCommandRoute } from '../src/utils/commandRouting';
+import { checkBaseStationHealth } from '../src/workers/baseStationHealth.worker';
+import { createBaseStation, createFieldUnit, createNetwork, createUser } from './fixtures';
+
+const MINUTE = 60 * 1000;
+
+const setUp = async () => {
+  const user = await createUser();
+  const { id: networkId } = await createNetwork(user.id);
+  const stations = [await createBaseStation(networkId), await createBaseStation(networkId), await createBaseStation(networkId)];
+  const unit = await createFieldUnit(networkId);
+  return { user, networkId, stations, unit };
+};
+
+const link = (baseStationId: string, fieldUnitId: string, rssi: number, heardMinutesAgo = 0) => {
+  return prisma.deviceLink.create({
+    data: { baseStationId, fieldUnitId, rssi, snr: 5, lastHeardAt: new Date(Date.now() - heardMinutesAgo * MINUTE) },
+  });
+};
+
+describe('command routing', () => {
+  it('routes through the station with the strongest recent link', async () => {
+    const { networkId, stations, unit } = await setUp();
+    await link(stations[0].id, unit.id, -110);
+    await link(stations[1].id, unit.id, -70);
+
+    const route = await selectCommandRoute(prisma, networkId, unit.id);
+
+    expect(route?.baseStation.id).toBe(stations[1].id);
+    expect(route?.reason).toMatch(/^Best recent link: RSSI -70 dBm, SNR 5 dB, heard \d+s ago \(best of 2 stations\)$/);
+  });
+
+  it('prefers a weak recent link over a strong stale one, and skips offline stations', async () => {
+    const { networkId, stations, unit } = await setUp();
+    await link(stations[0].id, unit.id, -60, 60);
+    await link(stations[1].id, unit.id, -115);
+    await link(stations[2].id, unit.id, -50);
+    await prisma.device.update({ where: { id: stations[2].id }, data: { status: 'OFFLINE' } });
+
+    expect((await selectCommandRoute(prisma, networkId, unit.id))?.baseStation.id).toBe(stations[1].id);
+    expect(await selectCommandRoute(prisma, networkId, unit.id, [stations[1].id])).toMatchObject({
+      baseStation: { id: stations[0].id },
+      reason: expect.stringMatching(/^No recent link, using last known/),
+    });
+  });
+
+  it('falls back to the most recently polled station when nobody has heard the target', async () => {
+    const { networkId, stations, unit } = await setUp();
+    await prisma.device.update({ where: { id: stations[2].id }, data: { lastPolled: new Date(Date.now() + 1000) } });
+
+    expect(await selectCommandRoute(prisma, networkId, unit.id)).toMatchObject({
+      baseStation: { id: stations[2].id },
+      hasLink: false,
+    });
+  });
+
+  it('moves pending commands off a base station that stopped polling', async () => {
+    const { user, networkId, stations, unit } = await setUp();
+    await link(stations[0].id, unit.id, -60);
+    await link(stations[1].id, unit.id, -90);
+    await prisma.device.update({ where: { id: stations[0].id }, data: { lastPolled: new Date(Date.now() - MINUTE) } });
+    const command = await prisma.command.create({
+      data: {
+        networkId,
+        sourceDeviceId: stations[0].id,
+        targetDeviceId: unit.id,
+        messageType: 'MSG_TYPE_PING',
+        createdBy: user.id,
+      },
+    });
+
+    await checkBaseStationHealth();
+
+    expect((await prisma.device.findUniqueOrThrow({ where: { id: stations[0].id } })).status).toBe('OFFLINE');
+    const rerouted = await prisma.command.findUniqueOrThrow({ where: { id: command.id } });
+    expect(rerouted).toMatchObject({ status: 'PENDING', sourceDeviceId: stations[1].id });
+    expect(rerouted.routeReason).toMatch(/^Rerouted from \w+ \(offline\)\. Best recent link/);
+    expect(await prisma.commandEvent.findFirst({ where: { commandId: command.id } })).toMatchObject({
+      actor: 'SYSTEM',
+      baseStationId: stations[1].id,
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { getContinuityReadiness } from '../src/utils/deviceChannels';
+import { receiveTelemetry, receiveTelemetryBatch } from '../src/controllers/gateway.controller';
+import { confirmArm } from '../src/controllers/arm.controller';
+import {
+  authRequest,
+  createBaseStation,
+  createFieldUnit,
+  createNetwork,
+  createUser,
+  gatewayRequest,
+  mockResponse,
+} from './fixtures';
+
+/**
+ * A network waiting for arm confirmation, with a 4-channel unit loaded on channels 1 and 2
+ */
+const setUp = async () => {
+  const owner = await createUser('Owner');
+  const network = await createNetwork(owner.id, { armState: 'ARMING' });
+  const station = await createBaseStation(network.id);
+  const unit = await createFieldUnit(network.id, { name: 'Barge 1' });
+  await prisma.deviceChannel.createMany({
+    data: [
+      { deviceId: unit.id, number: 1, load: '75mm shell' },
+      { deviceId: unit.id, number: 2, load: 'Cake 100s' },
+    ],
+  });
+  return { owner, network, station, unit };
+};
+
+type Setup = Awaited<ReturnType<typeof setUp>>;
+
+const continuityPacket = ({ unit }: Setup, channels: { channel: number; ok: boolean }[]) => ({
+  boardId: unit.boardId,
+  messageType: 'MSG_TYPE_CONT',
+  data: { channels },
+});
+
+const reportContinuity = async (setup: Setup, channels: { channel: number; ok: boolean }[]) => {
+  const { res, sent } = mockResponse();
+  await receiveTelemetry(gatewayRequest(setup.station, continuityPacket(setup, channels)), res);
+  return sent;
+};
+
+const channelResults = async (deviceId: string) => {
+  const channels = await prisma.deviceChannel.findMany({ where: { deviceId }, orderBy: { number: 'asc' } });
+  return channels.map(c => [c.number, c.continuityOk]);
+};
+
+const confirm = async ({ owner, network }: Setup, body: unknown = {}) => {
+  const { res, sent } = mockResponse();
+  await confirmArm(authRequest(owner, { params: { networkId: network.id }, body, stepUp: true }), res);
+  return sent;
+};
+
+describe('continuity', () => {
+  it('records per-channel results, ignoring channels the unit does not have', async () => {
+    const setup = await setUp();
+
+    const sent = await reportContinuity(setup, [
+      { channel: 1, ok: true },
+      { channel: 3, ok: false },
+      { channel: 9, ok: false },
+    ]);
+
+    expect(sent.statusCode).toBe(201);
+    expect(await channelResults(setup.unit.id)).toEqual([
+      [1, true],
+      [2, null],
+      [3, false],
+    ]);
+  });
+
+  it('never lets a buffered result overwrite a newer test', async () => {
+    const setup = await setUp();
+    const now = Date.now();
+
+    const { res, sent } = mockResponse();
+    const records = [
+      { ...continuityPacket(setup, [{ channel: 1, ok: true }]), receivedAt: new Date(now - 1000).toISOString() },
+      { ...continuityPacket(setup, [{ channel: 1, ok: false }]), receivedAt: new Date(now - 60 * 1000).toISOString() },
+    ];
+    await receiveTelemetryBatch(gatewayRequest(setup.station, { records }), res);
+
+    expect(sent.body).toMatchObject({ accepted: 2 });
+    expect((await channelResults(setup.unit.id))[0]).toEqual([1, true]);
+  });
+
+  it('only blocks on loaded, unspent channels that failed', async () => {
+    const setup = await setUp();
+    await reportContinuity(setup, [
+      { channel: 1, ok: false },
+      { channel: 3, ok: false }, // Not loaded
+    ]);
+
+    expect(await getContinuityReadiness(setup.network.id)).toMatchObject({
+      ready: false,
+      failures: [{ deviceId: setup.unit.id, deviceName: 'Barge 1', channel: 1, load: '75mm shell' }],
+      untested: 1,
+    });
+
+    await prisma.deviceChannel.update({
+      where: { deviceId_number: { deviceId: setup.unit.id, number: 1 } },
+      data: { firedAt: new Date() },
+    });
+    expect(await getContinuityReadiness(setup.network.id)).toMatchObject({ ready: true, failures: [], untested: 1 });
+  });
+
+  it('refuses to arm with a failed loaded channel', async () => {
+    const setup = await setUp();
+    await reportContinuity(setup, [{ channel: 2, ok: false }]);
+
+    expect(await confirm(setup)).toMatchObject({
+      statusCode: 409,
+      body: { code: 'CONTINUITY_FAILED', failures: [{ channel: 2 }] },
+    });
+    expect((await prisma.network.findUniqueOrThrow({ where: { id: setup.network.id } })).armState).toBe('ARMING');
+  });
+
+  it('arms past failures the owner overrides, and logs the override', async () => {
+    const setup = await setUp();
+    await reportContinuity(setup, [{ channel: 2, ok: false }]);
+
+    const justification = 'Cake fuse checked by hand, igniter is fine';
+    expect(await confirm(setup, { continuityOverride: { justification } })).toMatchObject({
+      statusCode: 200,
+      body: { armState: 'ARMED' },
+    });
+    expect(await prisma.interlockOverride.findMany()).toMatchObject([
+      {
+        deviceId: setup.unit.id,
+        check: 'CONTINUITY_FAILED',
+        message: 'Channel 2 (Cake 100s) failed continuity',
+        justification,
+        userId: setup.owner.id,
+      },
+    ]);
+  });
+
+  it('keeps the override to the owner', async () => {
+    const setup = await setUp();
+    const commander = await createUser('Commander');
+    await prisma.networkGuest.create({
+      data: { networkId: setup.network.id, userId: commander.id, permission: 'COMMANDER' },
+    });
+    await reportContinuity(setup, [{ channel: 2, ok: false }]);
+
+    const { res, sent } = mockResponse();
+    const body = { continuityOverride: { justification: 'Looks fine from here' } };
+    await confirmArm(authRequest(commander, { params: { networkId: setup.network.id }, body, stepUp: true }), res);
+
+    expect(sent.statusCode).toBe(403);
+    expect(await prisma.interlockOverride.count()).toBe(0);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { enqueueCommand } from '../src/utils/commandQueue';
+import { createCosignRequest } from '../src/utils/cosign';
+import { approveCosignRequest, denyCosignRequest } from '../src/controllers/cosign.controller';
+import { expireCosignRequests } from '../src/workers/cosign.worker';
+import { authRequest, createBaseStation, createFieldUnit, createNetwork, createUser, loadFieldUnit, mockResponse } from './fixtures';
+
+/**
+ * An armed network with a COMMANDER guest and an ignition the owner asked for, held for co-sign
+ */
+const holdIgnition = async () => {
+  const owner = await createUser('Owner');
+  const commander = await createUser('Commander');
+  const network = await createNetwork(owner.id, { armState: 'ARMED', requireCosign: true });
+  await prisma.networkGuest.create({ data: { networkId: network.id, userId: commander.id, permission: 'COMMANDER' } });
+  await createBaseStation(network.id);
+  const unit = await loadFieldUnit((await createFieldUnit(network.id)).id);
+
+  const request = await prisma.$transaction(async tx => {
+    const result = await enqueueCommand({
+      targetDevice: unit,
+      messageType: 'MSG_TYPE_IGNITE',
+      payload: { channel: 1 },
+      createdBy: owner.id,
+      awaitingCosign: true,
+      db: tx,
+    });
+    if (!result.ok) throw new Error(result.error);
+
+    return createCosignRequest(tx, {
+      networkId: network.id,
+      kind: 'IGNITE',
+      summary: 'Fire CH1',
+      requestedById: owner.id,
+      commandWhere: { id: result.command.id },
+    });
+  });
+
+  return { owner, commander, network, request, params: { requestId: request.id } };
+};
+
+const commandStatuses = async () => (await prisma.command.findMany()).map(c => c.status);
+
+describe('co-sign', () => {
+  it('holds the ignition without starting FIRING', async () => {
+    const { network } = await holdIgnition();
+
+    expect(await commandStatuses()).toEqual(['AWAITING_COSIGN']);
+    expect((await prisma.network.findUniqueOrThrow({ where: { id: network.id } })).armState).toBe('ARMED');
+  });
+
+  it('releases the ignition when a second person approves', async () => {
+    const { commander, network, request, params } = await holdIgnition();
+
+    const { res, sent } = mockResponse();
+    await approveCosignRequest(authRequest(commander, { params, stepUp: true }), res);
+
+    expect(sent.body).toMatchObject({ status: 'APPROVED', decidedById: commander.id });
+    expect(await commandStatuses()).toEqual(['PENDING']);
+    expect((await prisma.network.findUniqueOrThrow({ where: { id: network.id } })).armState).toBe('FIRING');
+
+    const released = await prisma.commandEvent.findFirst({ where: { toStatus: 'PENDING', fromStatus: 'AWAITING_COSIGN' } });
+    expect(released).toMatchObject({ userId: commander.id, message: 'Co-signed' });
+
+    // Expiry must not touch a decided request
+    await expireCosignRequests(new Date(request.expiresAt.getTime() + 1000));
+    expect(await commandStatuses()).toEqual(['PENDING']);
+  });
+
+  it('refuses approval by the requester, a viewer, or without a step-up proof', async () => {
+    const { owner, commander, network, params } = await holdIgnition();
+    const viewer = await createUser('Viewer');
+    await prisma.networkGuest.create({ data: { networkId: network.id, userId: viewer.id, permission: 'VIEW_ONLY' } });
+
+    const self = mockResponse();
+    await approveCosignRequest(authRequest(owner, { params, stepUp: true }), self.res);
+    expect(self.sent.statusCode).toBe(403);
+
+    const byViewer = mockResponse();
+    await approveCosignRequest(authRequest(viewer, { params, stepUp: true }), byViewer.res);
+    expect(byViewer.sent.statusCode).toBe(403);
+
+    const noStepUp = mockResponse();
+    await approveCosignRequest(authRequest(commander, { params }), noStepUp.res);
+    expect(noStepUp.sent).toMatchObject({ statusCode: 403, body: { code: 'STEP_UP_REQUIRED' } });
+
+    expect(await commandStatuses()).toEqual(['AWAITING_COSIGN']);
+  });
+
+  it('cancels the held ignition when denied', async () => {
+    const { commander, params } = await holdIgnition();
+
+    const denied = mockResponse();
+    await denyCosignRequest(authRequest(commander, { params, body: { reason: 'Wind picked up' } }), denied.res);
+
+    expect(denied.sent.body).toMatchObject({ status: 'DENIED', reason: 'Co-sign denied: Wind picked up' });
+    expect(await commandStatuses()).toEqual(['CANCELLED']);
+
+    const approved = mockResponse();
+    await approveCosignRequest(authRequest(commander, { params, stepUp: true }), approved.res);
+    expect(approved.sent.statusCode).toBe(409);
+    expect(await commandStatuses()).toEqual(['CANCELLED']);
+  });
+
+  it('expires requests nobody approved in time', async () => {
+    const { commander, request, params } = await holdIgnition();
+
+    await expireCosignRequests(new Date(request.expiresAt.getTime() - 1000));
+    expect(await commandStatuses()).toEqual(['AWAITING_COSIGN']);
+
+    await expireCosignRequests(new Date(request.expiresAt.getTime() + 1000));
+    expect(await prisma.cosignRequest.findUniqueOrThrow({ where: { id: request.id } })).toMatchObject({
+      status: 'EXPIRED',
+      reason: 'Not co-signed in time',
+    });
+    expect(await commandStatuses()).toEqual(['CANCELLED']);
+    expect(await prisma.commandEvent.findFirst({ where: { toStatus: 'CANCELLED' } })).toMatchObject({ actor: 'SYSTEM' });
+
+    const late = mockResponse();
+    await approveCosignRequest(authRequest(commander, { params, stepUp: true }), late.res);
+    expect(late.sent.statusCode).toBe(409);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+import prisma from '../src/utils/prisma';
+import { enqueueCommand } from '../src/utils/commandQueue';
+import { acknowledgeCommand } from '../src/controllers/gateway.controller';
+import {
+  createBaseStation,
+  createFieldUnit,
+  createNetwork,
+  createUser,
+  gatewayRequest,
+  loadFieldUnit,
+  mockResponse,
+} from './fixtures';
+
+const setUp = async () => {
+  const user = await createUser();
+  const network = await createNetwork(user.id, { armState: 'ARMED' });
+  const station = await createBaseStation(network.id);
+  const unit = await loadFieldUnit((await createFieldUnit(network.id)).id);
+  return { user, network, station, unit };
+};
+
+type Setup = Awaited<ReturnType<typeof setUp>>;
+
+const ignite = ({ user, unit }: Setup, channel: number) => {
+  return enqueueCommand({ targetDevice: unit, messageType: 'MSG_TYPE_IGNITE', payload: { channel }, createdBy: user.id });
+};
+
+/**
+ * An ignition of `channel` claimed by the base station and waiting for its /ack
+ */
+const dispatchIgnition = async (setup: Setup, channel: number, data: Prisma.CommandUpdateInput = {}) => {
+  const result = await ignite(setup, channel);
+  if (!result.ok) throw new Error(result.error);
+  return prisma.command.update({
+    where: { id: result.command.id },
+    data: { status: 'PROCESSING', dispatchedAt: new Date(), ...data },
+  });
+};
+
+const ack = async ({ station }: Setup, commandId: string, success = true) => {
+  const { res, sent } = mockResponse();
+  await acknowledgeCommand(gatewayRequest(station, { commandId, success }), res);
+  return sent;
+};
+
+const channelState = (deviceId: string, number: number) => {
+  return prisma.deviceChannel.findUnique({ where: { deviceId_number: { deviceId, number } } });
+};
+
+describe('relay channels', () => {
+  it('marks the relay channel of a confirmed ignition as spent', async () => {
+    const setup = await setUp();
+    const command = await dispatchIgnition(setup, 3);
+
+    await ack(setup, command.id);
+
+    const channel = await channelState(setup.unit.id, 3);
+    expect(channel).toMatchObject({ firedCommandId: command.id });
+    expect(channel?.firedAt).not.toBeNull();
+    expect(await ignite(setup, 3)).toMatchObject({ ok: false, status: 409, details: { code: 'CHANNEL_SPENT' } });
+  });
+
+  it('marks the channel spent when the relay fired after the ignition was aborted', async () => {
+    const setup = await setUp();
+    const fired = await dispatchIgnition(setup, 1, { status: 'ABORTED' });
+    const failed = await dispatchIgnition(setup, 2, { status: 'ABORTED' });
+
+    expect(await ack(setup, fired.id)).toMatchObject({ statusCode: 200, body: { status: 'ABORTED' } });
+    expect(await ack(setup, failed.id, false)).toMatchObject({ statusCode: 200, body: { status: 'ABORTED' } });
+
+    expect(await channelState(setup.unit.id, 1)).toMatchObject({ firedCommandId: fired.id });
+    expect(await channelState(setup.unit.id, 2)).toBeNull();
+    expect((await prisma.command.findUniqueOrThrow({ where: { id: fired.id } })).status).toBe('ABORTED');
+  });
+
+  it('refuses a second ignition of a channel that already has one queued', async () => {
+    const setup = await setUp();
+
+    expect((await ignite(setup, 2)).ok).toBe(true);
+    expect(await ignite(setup, 2)).toMatchObject({ ok: false, status: 409, details: { code: 'CHANNEL_BUSY' } });
+    expect(await ignite(setup, 5)).toMatchObject({ ok: false, status: 400, details: { code: 'INVALID_CHANNEL' } });
+    expect(await prisma.command.count()).toBe(1);
+  });
+
+  it('refuses an ignition queued for its channel after its first check', async () => {
+    const setup = await setUp();
+    const findMany = prisma.command.findMany;
+    let raced = false;
+    let concurrent: Awaited<ReturnType<typeof ignite>> | undefined;
+
+    // A second request takes the channel between the first one's check and its insert
+    vi.spyOn(prisma.command, 'findMany').mockImplementation((async (args: Prisma.CommandFindManyArgs) => {
+      const found = await findMany(args);
+      if (!raced) {
+        raced = true;
+        concurrent = await ignite(setup, 4);
+      }
+      return found;
+    }) as unknown as typeof findMany);
+
+    const result = await ignite(setup, 4);
+
+    expect(concurrent?.ok).toBe(true);
+    expect(result).toMatchObject({ ok: false, status: 409, details: { code: 'CHANNEL_BUSY' } });
+    expect(await prisma.command.count()).toBe(1);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '../src/utils/prisma';
+import {
+  createDeviceGroup,
+  deleteDeviceGroup,
+  getDeviceGroups,
+  updateGroupMembers,
+} from '../src/controllers/group.controller';
+import { addGuest } from '../src/controllers/network.controller';
+import { createBatchCommand, createCommand } from '../src/controllers/command.controller';
+import { authRequest, createBaseStation, createFieldUnit, createNetwork, createUser, mockResponse } from './fixtures';
+
+/**
+ * An armed network with two groups, a unit in each and a COMMANDER limited to the first group
+ */
+const setUp = async () => {
+  const owner = await createUser('Owner');
+  const commander = await createUser('Commander');
+  const network = await createNetwork(owner.id, { armState: 'ARMED' });
+  await createBaseStation(network.id);
+  const front = await prisma.deviceGroup.create({ data: { networkId: network.id, name: 'Front', color: '#ff0000' } });
+  const back = await prisma.deviceGroup.create({ data: { networkId: network.id, name: 'Back', color: '#0000ff' } });
+  const frontUnit = await createFieldUnit(network.id, { groupId: front.id });
+  const backUnit = await createFieldUnit(network.id, { groupId: back.id });
+  await prisma.networkGuest.create({
+    data: {
+      networkId: network.id,
+      userId: commander.id,
+      permission: 'COMMANDER',
+      groups: { create: [{ groupId: front.id }] },
+    },
+  });
+  return { owner, commander, network, front, back, frontUnit, backUnit };
+};
+
+const ignite = async (user: { id: string; email: string; role: string }, targetDeviceId: string) => {
+  const { res, sent } = mockResponse();
+  const body = { targetDeviceId, messageType: 'MSG_TYPE_IGNITE', payload: { channel: 1 } };
+  await createCommand(authRequest(user, { body, stepUp: true }), res);
+  return sent;
+};
+
+describe('device groups', () => {
+  it('lets the owner create groups and guests only list them', async () => {
+    const { owner, commander, network } = await setUp();
+    const params = { networkId: network.id };
+
+    const created = mockResponse();
+    await createDeviceGroup(authRequest(owner, { params, body: { name: 'Barge', color: '#00ff00' } }), created.res);
+    expect(created.sent).toMatchObject({ statusCode: 201, body: { name: 'Barge', color: '#00ff00' } });
+
+    const duplicate = mockResponse();
+    await createDeviceGroup(authRequest(owner, { params, body: { name: 'Barge', color: '#123456' } }), duplicate.res);
+    expect(duplicate.sent.statusCode).toBe(409);
+
+    const byGuest = mockResponse();
+    await createDeviceGroup(authRequest(commander, { params, body: { name: 'Mine', color: '#123456' } }), byGuest.res);
+    expect(byGuest.sent.statusCode).toBe(403);
+
+    const listed = mockResponse();
+    await getDeviceGroups(authRequest(commander, { params }), listed.res);
+    expect(listed.sent.body.map((g: { name: string }) => g.name)).toEqual(['Back', 'Barge', 'Front']);
+  });
+
+  it('moves devices between groups in bulk', async () => {
+    const { owner, network, front, back, frontUnit, backUnit } = await setUp();
+    const params = { networkId: network.id, groupId: back.id };
+
+    const { res, sent } = mockResponse();
+    await updateGroupMembers(authRequest(owner, { params, body: { add: [frontUnit.id], remove: [backUnit.id] } }), res);
+
+    expect(sent.body).toMatchObject({ added: 1, removed: 1 });
+    expect((await prisma.device.findUniqueOrThrow({ where: { id: frontUnit.id } })).groupId).toBe(back.id);
+    expect((await prisma.device.findUniqueOrThrow({ where: { id: backUnit.id } })).groupId).toBeNull();
+    expect(await prisma.device.count({ where: { groupId: front.id } })).toBe(0);
+  });
+
+  it('refuses devices from another network', async () => {
+    const { owner, network, front } = await setUp();
+    const elsewhere = await createNetwork(owner.id);
+    const stranger = await createFieldUnit(elsewhere.id);
+
+    const { res, sent } = mockResponse();
+    const params = { networkId: network.id, groupId: front.id };
+    await updateGroupMembers(authRequest(owner, { params, body: { add: [stranger.id] } }), res);
+
+    expect(sent).toMatchObject({ statusCode: 400, body: { invalidDeviceIds: [stranger.id] } });
+    expect((await prisma.device.findUniqueOrThrow({ where: { id: stranger.id } })).groupId).toBeNull();
+  });
+
+  it('keeps a group that still limits a guest', async () => {
+    const { owner, network, front, back } = await setUp();
+
+    const scoped = mockResponse();
+    await deleteDeviceGroup(authRequest(owner, { params: { networkId: network.id, groupId: front.id } }), scoped.res);
+    expect(scoped.sent).toMatchObject({ statusCode: 409, body: { scopedGuests: 1 } });
+
+    const unused = mockResponse();
+    await deleteDeviceGroup(authRequest(owner, { params: { networkId: network.id, groupId: back.id } }), unused.res);
+    expect(unused.sent.body).toEqual({ success: true });
+    expect(await prisma.deviceGroup.findMany({ select: { id: true } })).toEqual([{ id: front.id }]);
+  });
+
+  it('refuses to limit a guest to another network’s group', async () => {
+    const { owner, network } = await setUp();
+    const guest = await createUser('Guest');
+    const elsewhere = await createNetwork(owner.id);
+    const foreign = await prisma.deviceGroup.create({ data: { networkId: elsewhere.id, name: 'Front', color: '#ff0000' } });
+
+    const { res, sent } = mockResponse();
+    const body = { userId: guest.id, permission: 'COMMANDER', groupIds: [foreign.id] };
+    await addGuest(authRequest(owner, { params: { networkId: network.id }, body }), res);
+
+    expect(sent).toMatchObject({ statusCode: 400, body: { invalidGroupIds: [foreign.id] } });
+    expect(await prisma.networkGuest.count({ where: { userId: guest.id } })).toBe(0);
+  });
+
+  it('limits a group-scoped commander to firing into their groups', async () => {
+    const { owner, commander, frontUnit, backUnit } = await setUp();
+    const ungrouped = await createFieldUnit(frontUnit.networkId);
+
+    expect((await ignite(commander, frontUnit.id)).statusCode).toBe(201);
+    expect(await ignite(commander, backUnit.id)).toMatchObject({
+      statusCode: 403,
+      body: { error: 'IGNITE is limited to your assigned device groups' },
+    });
+    expect((await ignite(commander, ungrouped.id)).statusCode).toBe(403);
+    expect((await ignite(owner, backUnit.id)).statusCode).toBe(201);
+  });
+
+  it('targets a batch at one group, within the commander’s scope', async () => {
+    const { commander, network, front, back, frontUnit } = await setUp();
+    const batch = (groupId: string) => ({
+      networkId: network.id,
+      target: { type: 'GROUP', groupId },
+      messageType: 'MSG_TYPE_IGNITE',
+      payload: { channel: 2 },
+    });
+
+    const outside = mockResponse();
+    await createBatchCommand(authRequest(commander, { body: batch(back.id), stepUp: true }), outside.res);
+    expect(outside.sent.statusCode).toBe(403);
+    expect(await prisma.command.count()).toBe(0);
+
+    const inside = mockResponse();
+    await createBatchCommand(authRequest(commander, { body: batch(front.id), stepUp: true }), inside.res);
+    expect(inside.sent.statusCode).toBe(201);
+    expect((await prisma.command.findMany()).map(c => c.targetDeviceId)).toEqual([frontUnit.id]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Prisma } from '@prisma/client';
+import prisma from '../src/utils/prisma';
+import { runDueDiagnostics } from '../src/workers/diagnostics.worker';
+import { createBaseStation, createFieldUnit, createNetwork, createUser } from './fixtures';
+
+const setUp = async (network: Partial<Prisma.NetworkUncheckedCreateInput> = {}) => {
+  const user = await createUser();
+  const { id: networkId } = await createNetwork(user.id, network);
+  await createBaseStation(networkId);
+  const units = [await createFieldUnit(networkId), await createFieldUnit(networkId)];
+  const schedule = await prisma.diagnosticSchedule.create({
+    data: { networkId, messageType: 'MSG_TYPE_BATT', intervalSeconds: 600, createdById: user.id },
+  });
+  return { user, networkId, units, schedule };
+};
+
+const lastRun = (id: string) => prisma.diagnosticSchedule.findUniqueOrThrow({ where: { id } });
+
+describe('diagnostics scheduler', () => {
+  it('queues a due schedule as a low priority batch and waits out its interval', async () => {
+    const { schedule } = await setUp();
+    const now = new Date();
+
+    await runDueDiagnostics(now);
+
+    expect(await lastRun(schedule.id)).toMatchObject({ lastRunAt: now, lastResult: 'Queued for 2 unit(s)' });
+    const commands = await prisma.command.findMany();
+    expect(commands.map(c => [c.messageType, c.priority])).toEqual([
+      ['MSG_TYPE_BATT', 'LOW'],
+      ['MSG_TYPE_BATT', 'LOW'],
+    ]);
+
+    await runDueDiagnostics(new Date(now.getTime() + 60 * 1000));
+    expect(await prisma.command.count()).toBe(2);
+  });
+
+  it('leaves out units that still have the same request pending', async () => {
+    const { schedule, units } = await setUp();
+
+    await runDueDiagnostics(new Date());
+    await prisma.command.updateMany({ where: { targetDeviceId: units[0].id }, data: { status: 'COMPLETED' } });
+    await runDueDiagnostics(new Date(Date.now() + 601 * 1000));
+
+    expect((await lastRun(schedule.id)).lastResult).toBe('Queued for 1 unit(s), 1 already pending');
+    expect(await prisma.command.count({ where: { targetDeviceId: units[1].id } })).toBe(1);
+  });
+
+  it('skips the run while the network is armed or a show is running', async () => {
+    const armed = await setUp({ armState: 'ARMED' });
+    const showing = await setUp();
+    await prisma.show.create({
+      data: { networkId: showing.networkId, name: 'Finale', status: 'RUNNING', createdBy: showing.user.id },
+    });
+
+    await runDueDiagnostics(new Date());
+
+    expect((await lastRun(armed.schedule.id)).lastResult).toBe('Skipped: network is ARMED');
+    expect((await lastRun(showing.schedule.id)).lastResult).toBe('Skipped: show "Finale" is RUNNING');
+    expect(await prisma.command.count()).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { receiveTelemetry } from '../src/controllers/gateway.controller';
+import { approveDevice, getDiscoveries, rejectDevice } from '../src/controllers/device.controller';
+import { createCommand } from '../src/controllers/command.controller';
+import { authRequest, createBaseStation, createNetwork, createUser, gatewayRequest, mockResponse } from './fixtures';
+
+const BOARD_ID = 'A1B2C3D4E5F6';
+
+/**
+ * A network whose base station just heard a field unit nobody has registered
+ */
+const discover = async () => {
+  const owner = await createUser('Owner');
+  const network = await createNetwork(owner.id);
+  const station = await createBaseStation(network.id);
+
+  const heard = await hear(station);
+  expect(heard).toMatchObject({ statusCode: 201 });
+  const device = await prisma.device.findUniqueOrThrow({ where: { boardId: BOARD_ID } });
+  return { owner, network, station, device, params: { deviceId: device.id } };
+};
+
+const hear = async (station: Awaited<ReturnType<typeof createBaseStation>>) => {
+  const { res, sent } = mockResponse();
+  await receiveTelemetry(
+    gatewayRequest(station, { boardId: BOARD_ID, messageType: 'MSG_TYPE_POSA', latitude: 51.5, longitude: -0.1 }),
+    res
+  );
+  return sent;
+};
+
+describe('device discovery', () => {
+  it('puts an unknown unit in the inbox, where it cannot be commanded', async () => {
+    const { owner, network, device } = await discover();
+
+    expect(device).toMatchObject({ approval: 'PENDING', status: 'DISCOVERED', networkId: network.id });
+
+    const inbox = mockResponse();
+    await getDiscoveries(authRequest(owner, { params: { networkId: network.id } }), inbox.res);
+    expect(inbox.sent.body).toMatchObject([{ id: device.id, firstTelemetry: { messageType: 'MSG_TYPE_POSA' } }]);
+
+    const command = mockResponse();
+    await createCommand(authRequest(owner, { body: { targetDeviceId: device.id, messageType: 'MSG_TYPE_PING' } }), command.res);
+    expect(command.sent).toMatchObject({ statusCode: 400, body: { error: 'Target device is awaiting approval' } });
+  });
+
+  it('lets only the owner approve a unit, which then leaves the inbox', async () => {
+    const { owner, network, station, params } = await discover();
+    const commander = await createUser('Commander');
+    await prisma.networkGuest.create({ data: { networkId: network.id, userId: commander.id, permission: 'COMMANDER' } });
+
+    const byGuest = mockResponse();
+    await approveDevice(authRequest(commander, { params, body: { name: 'Rack 1' } }), byGuest.res);
+    expect(byGuest.sent.statusCode).toBe(403);
+
+    const approved = mockResponse();
+    await approveDevice(authRequest(owner, { params, body: { name: 'Rack 1', latitude: 51.6 } }), approved.res);
+    expect(approved.sent.body).toMatchObject({ name: 'Rack 1', approval: 'APPROVED', status: 'ONLINE', latitude: 51.6 });
+
+    // Later telemetry no longer puts it back to DISCOVERED
+    await hear(station);
+    expect(await prisma.device.findUniqueOrThrow({ where: { id: params.deviceId } })).toMatchObject({ status: 'ONLINE' });
+
+    const inbox = mockResponse();
+    await getDiscoveries(authRequest(owner, { params: { networkId: network.id } }), inbox.res);
+    expect(inbox.sent.body).toEqual([]);
+  });
+
+  it('forgets a rejected unit, and ignores a blocked board for good', async () => {
+    const { owner, station, params } = await discover();
+
+    const rejected = mockResponse();
+    await rejectDevice(authRequest(owner, { params, body: { block: true, reason: 'Not ours' } }), rejected.res);
+    expect(rejected.sent.statusCode).toBe(204);
+    expect(await prisma.device.findUnique({ where: { id: params.deviceId } })).toBeNull();
+    expect(await prisma.blockedBoard.findFirst()).toMatchObject({ boardId: BOARD_ID, reason: 'Not ours' });
+
+    expect(await hear(station)).toMatchObject({ statusCode: 400, body: { error: 'Board is blocked in this network' } });
+    expect(await prisma.device.findUnique({ where: { boardId: BOARD_ID } })).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { createCosignRequest } from '../src/utils/cosign';
+import { emergencyStop, resetEmergencyStop } from '../src/controllers/arm.controller';
+import { authRequest, createBaseStation, createFieldUnit, createNetwork, createUser, mockResponse } from './fixtures';
+
+describe('emergencyStop', () => {
+  it('cancels, aborts, disarms and latches in one go', async () => {
+    const owner = await createUser('Owner');
+    const officer = await createUser('Safety officer');
+    const network = await createNetwork(owner.id, { armState: 'FIRING' });
+    await prisma.networkGuest.create({
+      data: { networkId: network.id, userId: officer.id, permission: 'SAFETY_OFFICER' },
+    });
+    const stations = [await createBaseStation(network.id), await createBaseStation(network.id)];
+    const unit = await createFieldUnit(network.id);
+    const base = { networkId: network.id, sourceDeviceId: stations[0].id, targetDeviceId: unit.id, createdBy: owner.id };
+
+    const pending = await prisma.command.create({ data: { ...base, messageType: 'MSG_TYPE_PING' } });
+    const inFlight = await prisma.command.create({
+      data: { ...base, messageType: 'MSG_TYPE_IGNITE', status: 'PROCESSING', dispatchedAt: new Date() },
+    });
+    const held = await prisma.command.create({
+      data: { ...base, messageType: 'MSG_TYPE_IGNITE', status: 'AWAITING_COSIGN' },
+    });
+    const done = await prisma.command.create({ data: { ...base, messageType: 'MSG_TYPE_BATT', status: 'COMPLETED' } });
+    await createCosignRequest(prisma, {
+      networkId: network.id,
+      kind: 'IGNITE',
+      summary: 'Fire CH2',
+      requestedById: owner.id,
+      commandWhere: { id: held.id },
+    });
+
+    const { res, sent } = mockResponse();
+    await emergencyStop(authRequest(officer, { params: { networkId: network.id }, body: { reason: 'Spectator on site' } }), res);
+
+    expect(sent.body).toMatchObject({
+      success: true,
+      cancelledCommands: 1,
+      abortedCommands: 1,
+      cancelledCosignRequests: 1,
+      baseStationsNotified: 2,
+    });
+
+    const statuses = Object.fromEntries((await prisma.command.findMany()).map(c => [c.id, c.status]));
+    expect(statuses).toEqual({
+      [pending.id]: 'CANCELLED',
+      [inFlight.id]: 'ABORTED',
+      [held.id]: 'CANCELLED',
+      [done.id]: 'COMPLETED',
+    });
+
+    const stopped = await prisma.network.findUniqueOrThrow({ where: { id: network.id } });
+    expect(stopped).toMatchObject({ armState: 'SAFE', emergencyStopById: officer.id });
+    expect(stopped.emergencyStopAt).not.toBeNull();
+
+    const devices = await prisma.device.findMany({ where: { deviceType: 'BASE_STATION' } });
+    expect(devices.every(d => d.stopRequestedAt !== null)).toBe(true);
+
+    const aborted = await prisma.commandEvent.findFirst({ where: { commandId: inFlight.id, toStatus: 'ABORTED' } });
+    expect(aborted).toMatchObject({ fromStatus: 'PROCESSING', userId: officer.id, message: 'Emergency stop: Spectator on site' });
+  });
+
+  it('is refused to viewers', async () => {
+    const owner = await createUser('Owner');
+    const viewer = await createUser('Viewer');
+    const network = await createNetwork(owner.id, { armState: 'ARMED' });
+    await prisma.networkGuest.create({ data: { networkId: network.id, userId: viewer.id, permission: 'VIEW_ONLY' } });
+
+    const { res, sent } = mockResponse();
+    await emergencyStop(authRequest(viewer, { params: { networkId: network.id } }), res);
+
+    expect(sent.statusCode).toBe(403);
+    expect((await prisma.network.findUniqueOrThrow({ where: { id: network.id } })).armState).toBe('ARMED');
+  });
+
+  it('stays latched until the owner resets it', async () => {
+    const owner = await createUser('Owner');
+    const officer = await createUser('Safety officer');
+    const network = await createNetwork(owner.id, { emergencyStopAt: new Date(), emergencyStopById: officer.id });
+    await prisma.networkGuest.create({
+      data: { networkId: network.id, userId: officer.id, permission: 'SAFETY_OFFICER' },
+    });
+    const params = { networkId: network.id };
+
+    const byOfficer = mockResponse();
+    await resetEmergencyStop(authRequest(officer, { params }), byOfficer.res);
+    expect(byOfficer.sent.statusCode).toBe(403);
+
+    const byOwner = mockResponse();
+    await resetEmergencyStop(authRequest(owner, { params }), byOwner.res);
+    expect(byOwner.sent.statusCode).toBe(200);
+
+    const reset = await prisma.network.findUniqueOrThrow({ where: { id: network.id } });
+    expect(reset).toMatchObject({ armState: 'SAFE', emergencyStopAt: null });
+  });
+});
@@ -0,0 +1,115 @@
+import { Response } from 'express';
+import { ArmState, Prisma } from '@prisma/client';
+import prisma from '../src/utils/prisma';
+import { AuthRequest } from '../src/middleware/auth';
+import { GatewayRequest } from '../src/middleware/gatewayAuth';
+import { generateStepUpToken } from '../src/utils/jwt';
+import { STEP_UP_HEADER } from '../src/utils/stepUp';
+
+let counter = 0;
+
+// 12-digit board IDs, also used to keep emails unique
+const nextBoardId = () => (++counter).toString().padStart(12, '0');
+
+export const createUser = (name = 'Operator') => {
+  return prisma.user.create({
+    data: { email: `user-${nextBoardId()}@test.local`, password: 'not-a-real-hash', name },
+  });
+};
+
+export const createNetwork = (ownerId: string, data: Partial<Prisma.NetworkUncheckedCreateInput> = {}) => {
+  return prisma.network.create({
+    data: { name: 'Test site', ownerId, ...data },
+  });
+};
+
+export const createBaseStation = (networkId: string, capabilities: string[] = []) => {
+  return prisma.device.create({
+    data: {
+      boardId: nextBoardId(),
+      deviceType: 'BASE_STATION',
+      networkId,
+      status: 'ONLINE',
+      lastPolled: new Date(),
+      capabilities,
+    },
+  });
+};
+
+/**
+ * A field unit that passes every interlock: online, just heard, fresh GPS fix, full battery
+ */
+export const createFieldUnit = (networkId: string, data: Partial<Prisma.DeviceUncheckedCreateInput> = {}) => {
+  const now = new Date();
+  return prisma.device.create({
+    data: {
+      boardId: nextBoardId(),
+      deviceType: 'FIELD_UNIT',
+      networkId,
+      status: 'ONLINE',
+      lastSeen: now,
+      latitude: 51.5,
+      longitude: -0.1,
+      gpsUpdatedAt: now,
+      batteryPercent: 90,
+      channelCount: 4,
+      ...data,
+    },
+  });
+};
+
+export const loadFieldUnit = (deviceId: string) => {
+  return prisma.device.findUniqueOrThrow({ where: { id: deviceId }, include: { network: true } });
+};
+
+export const setArmState = (networkId: string, armState: ArmState) => {
+  return prisma.network.update({ where: { id: networkId }, data: { armState } });
+};
+
+/**
+ * An authenticated request; `stepUp` adds a valid step-up proof for the same user
+ */
+export const authRequest = (
+  user: { id: string; email: string; role: string },
+  { params = {}, body = {}, stepUp = false }: { params?: Record<string, string>; body?: unknown; stepUp?: boolean } = {}
+) => {
+  return {
+    user: { userId: user.id, email: user.email, role: user.role },
+    params,
+    body,
+    query: {},
+    headers: stepUp ? { [STEP_UP_HEADER]: generateStepUpToken({ userId: user.id }, 60000) } : {},
+    ip: '127.0.0.1',
+  } as unknown as AuthRequest;
+};
+
+export const gatewayRequest = (baseStation: GatewayRequest['baseStation'], body: unknown) => {
+  return { baseStation, body, params: {}, query: {}, headers: {} } as unknown as GatewayRequest;
+};
+
+export interface MockResponse {
+  statusCode: number;
+  body: any;
+}
+
+/**
+ * Express response that records what the handler sent
+ */
+export const mockResponse = () => {
+  const sent: MockResponse = { statusCode: 200, body: undefined };
+  const res = {
+    status(code: number) {
+      sent.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+    send(body?: unknown) {
+      sent.body = body;
+      return res;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { AudienceZone, Device, Network } from '@prisma/client';
+import prisma from '../src/utils/prisma';
+import { applyInterlockOverrides, evaluateInterlocks, isPointInPolygon, parsePolygon } from '../src/utils/interlocks';
+import { createCommand } from '../src/controllers/command.controller';
+import { authRequest, createBaseStation, createFieldUnit, createNetwork, createUser, loadFieldUnit, mockResponse } from './fixtures';
+
+const NOW = new Date('2026-07-04T21:00:00Z');
+const secondsAgo = (seconds: number) => new Date(NOW.getTime() - seconds * 1000);
+
+/**
+ * A field unit that passes every check at NOW, with the network's default thresholds
+ */
+const unit = (device: Partial<Device> = {}, network: Partial<Network> = {}) =>
+  ({
+    status: 'ONLINE',
+    batteryPercent: 90,
+    batteryVoltage: 4.0,
+    lastSeen: secondsAgo(5),
+    gpsUpdatedAt: secondsAgo(30),
+    latitude: 51.5,
+    longitude: -0.1,
+    ...device,
+    network: {
+      emergencyStopAt: null,
+      interlockMaxLastSeenSeconds: 60,
+      interlockMaxGpsAgeSeconds: 600,
+      ...network,
+    },
+  }) as Device & { network: Network };
+
+const zone = (name: string, polygon: unknown) => ({ id: name, name, polygon }) as AudienceZone;
+
+const checks = (device: Device & { network: Network }, zones: AudienceZone[] = []) =>
+  evaluateInterlocks(device, zones, NOW).map(f => f.check);
+
+describe('evaluateInterlocks', () => {
+  it('passes a healthy unit', () => {
+    expect(checks(unit())).toEqual([]);
+  });
+
+  it('reports each failed check', () => {
+    expect(checks(unit({ status: 'OFFLINE', lastSeen: secondsAgo(61), gpsUpdatedAt: null }))).toEqual([
+      'TARGET_OFFLINE',
+      'TARGET_STALE',
+      'GPS_STALE',
+    ]);
+    expect(checks(unit({ batteryPercent: 19 }))).toEqual(['TARGET_LOW_BATTERY']);
+    expect(checks(unit({ status: 'LOW_BATTERY', batteryPercent: null }))).toEqual(['TARGET_LOW_BATTERY']);
+  });
+
+  it('skips the freshness checks a network disabled', () => {
+    const stale = unit({ lastSeen: null, gpsUpdatedAt: null }, { interlockMaxLastSeenSeconds: null, interlockMaxGpsAgeSeconds: null });
+    expect(checks(stale)).toEqual([]);
+  });
+
+  it('refuses units inside an audience zone or with no position to check', () => {
+    const crowd = zone('Crowd', [[51.4, -0.2], [51.6, -0.2], [51.6, 0], [51.4, 0]]);
+    const elsewhere = zone('Car park', [[52, 1], [52.1, 1], [52.1, 1.1]]);
+    const broken = zone('Broken', [[51.4, -0.2]]);
+
+    expect(evaluateInterlocks(unit(), [elsewhere, crowd, broken], NOW)).toMatchObject([
+      { check: 'IN_AUDIENCE_ZONE', message: 'Target unit is inside audience zone "Crowd"', details: { zoneId: 'Crowd' } },
+    ]);
+    expect(checks(unit({ latitude: null }), [elsewhere])).toEqual(['POSITION_UNKNOWN']);
+  });
+
+  it('never lets an emergency stop be overridden', () => {
+    const failures = evaluateInterlocks(unit({ status: 'OFFLINE' }, { emergencyStopAt: NOW }), [], NOW);
+    const { blocking, overridden } = applyInterlockOverrides(failures, [
+      { check: 'EMERGENCY_STOP_ACTIVE', justification: 'Testing the rig' },
+      { check: 'TARGET_OFFLINE', justification: 'Unit heard on the spare radio' },
+    ]);
+
+    expect(blocking.map(f => f.check)).toEqual(['EMERGENCY_STOP_ACTIVE']);
+    expect(overridden).toMatchObject([{ failure: { check: 'TARGET_OFFLINE' }, justification: 'Unit heard on the spare radio' }]);
+  });
+});
+
+describe('audience zone polygons', () => {
+  it('only accepts lists of at least three [lat, lng] pairs', () => {
+    expect(parsePolygon([[0, 0], [0, 1], [1, 1]])).toEqual([[0, 0], [0, 1], [1, 1]]);
+    expect(parsePolygon([[0, 0], [0, 1]])).toBeNull();
+    expect(parsePolygon([[0, 0], [0, 1], ['1', 1]])).toBeNull();
+    expect(parsePolygon({ type: 'Polygon' })).toBeNull();
+  });
+
+  it('finds points inside concave shapes', () => {
+    // An L shape with the top-right square cut out
+    const shape: [number, number][] = [[0, 0], [0, 2], [1, 2], [1, 1], [2, 1], [2, 0]];
+    expect(isPointInPolygon(0.5, 1.5, shape)).toBe(true);
+    expect(isPointInPolygon(1.5, 0.5, shape)).toBe(true);
+    expect(isPointInPolygon(1.5, 1.5, shape)).toBe(false);
+  });
+});
+
+describe('interlock overrides', () => {
+  it('are refused for anyone but the network owner', async () => {
+    const owner = await createUser('Owner');
+    const commander = await createUser('Commander');
+    const network = await createNetwork(owner.id, { armState: 'ARMED' });
+    await prisma.networkGuest.create({ data: { networkId: network.id, userId: commander.id, permission: 'COMMANDER' } });
+    await createBaseStation(network.id);
+    const target = await loadFieldUnit((await createFieldUnit(network.id, { status: 'OFFLINE' })).id);
+
+    const { res, sent } = mockResponse();
+    await createCommand(
+      authRequest(commander, {
+        body: {
+          targetDeviceId: target.id,
+          messageType: 'MSG_TYPE_IGNITE',
+          payload: { channel: 1 },
+          overrides: [{ check: 'TARGET_OFFLINE', justification: 'Unit heard on the spare radio' }],
+        },
+        stepUp: true,
+      }),
+      res
+    );
+
+    expect(sent).toMatchObject({ statusCode: 403, body: { error: 'Only the network owner can override interlocks' } });
+    expect(await prisma.command.count()).toBe(0);
+  });
+});
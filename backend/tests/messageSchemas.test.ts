@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import prisma from '../src/utils/prisma';
+import { checkMessageFields } from '../src/utils/messageSchemas';
+import { createBatchCommand, createCommand } from '../src/controllers/command.controller';
+import { receiveTelemetry } from '../src/controllers/gateway.controller';
+import {
+  authRequest,
+  createBaseStation,
+  createFieldUnit,
+  createNetwork,
+  createUser,
+  gatewayRequest,
+  mockResponse,
+} from './fixtures';
+
+const setUp = async () => {
+  const user = await createUser();
+  const network = await createNetwork(user.id, { armState: 'ARMED' });
+  const station = await createBaseStation(network.id);
+  const unit = await createFieldUnit(network.id);
+  return { user, network, station, unit };
+};
+
+const payloadErrors = (messageType: 'MSG_TYPE_IGNITE' | 'MSG_TYPE_MSG', payload: Record<string, unknown>) => {
+  const schema = z.object({}).superRefine((_, ctx) => checkMessageFields(ctx, 'payload', messageType, payload));
+  const result = schema.safeParse({});
+  return result.success ? [] : result.error.issues.map(issue => issue.path.join('.'));
+};
+
+describe('message registry', () => {
+  it.each(['MSG_TYPE_IGNITE', 'MSG_TYPE_SET_R'])('refuses %s without a relay channel', async messageType => {
+    const { user, unit } = await setUp();
+
+    const { res, sent } = mockResponse();
+    await createCommand(
+      authRequest(user, { body: { targetDeviceId: unit.id, messageType, payload: { duration: 500 } }, stepUp: true }),
+      res
+    );
+
+    expect(sent).toMatchObject({ statusCode: 400, body: { error: 'Invalid input' } });
+    expect(sent.body.details).toMatchObject([{ path: ['payload', 'channel'] }]);
+    expect(await prisma.command.count()).toBe(0);
+  });
+
+  it('refuses an ignition batch without a relay channel', async () => {
+    const { user, network } = await setUp();
+
+    const { res, sent } = mockResponse();
+    await createBatchCommand(
+      authRequest(user, { body: { networkId: network.id, target: { type: 'ALL' }, messageType: 'MSG_TYPE_IGNITE' }, stepUp: true }),
+      res
+    );
+
+    expect(sent).toMatchObject({ statusCode: 400, body: { error: 'Invalid input' } });
+    expect(await prisma.commandBatch.count()).toBe(0);
+  });
+
+  it('checks payload fields against the message type', () => {
+    expect(payloadErrors('MSG_TYPE_IGNITE', { channel: 3, duration: 500 })).toEqual([]);
+    expect(payloadErrors('MSG_TYPE_IGNITE', { channel: 17 })).toEqual(['payload.channel']);
+    expect(payloadErrors('MSG_TYPE_IGNITE', { channel: 1, colour: 'red' })).toEqual(['payload']);
+    expect(payloadErrors('MSG_TYPE_MSG', {})).toEqual(['payload.text']);
+  });
+
+  it('refuses payloads for message types only field units send', async () => {
+    const { user, unit } = await setUp();
+
+    const { res, sent } = mockResponse();
+    await createCommand(authRequest(user, { body: { targetDeviceId: unit.id, messageType: 'MSG_TYPE_PONG' } }), res);
+
+    expect(sent.statusCode).toBe(400);
+    expect(sent.body.details).toMatchObject([{ path: ['messageType'] }]);
+  });
+
+  it('refuses telemetry whose data does not match its message type', async () => {
+    const { station, unit } = await setUp();
+
+    const { res, sent } = mockResponse();
+    await receiveTelemetry(
+      gatewayRequest(station, { boardId: unit.boardId, messageType: 'MSG_TYPE_BATT', data: { percent: 140 } }),
+      res
+    );
+
+    expect(sent.statusCode).toBe(400);
+    expect(await prisma.telemetry.count()).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { GuestPermission } from '@prisma/client';
+import prisma from '../src/utils/prisma';
+import { loadNetworkWithAccess } from '../src/utils/networkAccess';
+import { authRequest, createNetwork, createUser } from './fixtures';
+
+const setUp = async () => {
+  const owner = await createUser('Owner');
+  const network = await createNetwork(owner.id);
+  return { owner, network };
+};
+
+const createGuest = async (networkId: string, permission: GuestPermission, groupIds: string[] = []) => {
+  const user = await createUser('Guest');
+  const guest = await prisma.networkGuest.create({ data: { networkId, userId: user.id, permission } });
+  await prisma.networkGuestGroup.createMany({ data: groupIds.map(groupId => ({ guestId: guest.id, groupId })) });
+  return user;
+};
+
+const accessOf = async (user: Awaited<ReturnType<typeof createUser>>, networkId: string) => {
+  const { network, ...access } = await loadNetworkWithAccess(authRequest(user), networkId);
+  return { networkId: network?.id, ...access };
+};
+
+describe('loadNetworkWithAccess', () => {
+  it('gives the owner and a MEGA_ADMIN full access', async () => {
+    const { owner, network } = await setUp();
+    const admin = await prisma.user.update({ where: { id: (await createUser()).id }, data: { role: 'MEGA_ADMIN' } });
+    const full = { networkId: network.id, isOwner: true, canView: true, canCommand: true, canStop: true, groupScope: null };
+
+    expect(await accessOf(owner, network.id)).toEqual(full);
+    expect(await accessOf(admin, network.id)).toEqual(full);
+  });
+
+  it('gives each guest permission only its own rights', async () => {
+    const { network } = await setUp();
+    const guest = { networkId: network.id, isOwner: false, canView: true, groupScope: null };
+
+    expect(await accessOf(await createGuest(network.id, 'COMMANDER'), network.id)).toEqual({
+      ...guest,
+      canCommand: true,
+      canStop: true,
+    });
+    expect(await accessOf(await createGuest(network.id, 'SAFETY_OFFICER'), network.id)).toEqual({
+      ...guest,
+      canCommand: false,
+      canStop: true,
+    });
+    expect(await accessOf(await createGuest(network.id, 'VIEW_ONLY'), network.id)).toEqual({
+      ...guest,
+      canCommand: false,
+      canStop: false,
+    });
+  });
+
+  it('limits a group-limited commander to their groups', async () => {
+    const { network } = await setUp();
+    const group = await prisma.deviceGroup.create({ data: { networkId: network.id, name: 'Left rack', color: '#ff0000' } });
+    const commander = await createGuest(network.id, 'COMMANDER', [group.id]);
+
+    expect(await accessOf(commander, network.id)).toMatchObject({ canCommand: true, groupScope: [group.id] });
+  });
+
+  it('refuses everyone else, and reports a missing network', async () => {
+    const { network } = await setUp();
+    const stranger = await createUser('Stranger');
+
+    expect(await accessOf(stranger, network.id)).toMatchObject({ canView: false, canCommand: false, canStop: false });
+    expect(await accessOf(stranger, 'missing')).toMatchObject({ networkId: undefined, canView: false });
+  });
+});
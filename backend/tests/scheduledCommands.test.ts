@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { getServerTime, poll } from '../src/controllers/gateway.controller';
+import { createCommand } from '../src/controllers/command.controller';
+import { checkCommandTimeouts } from '../src/workers/commandTimeout.worker';
+import { nextClockOffset } from '../src/utils/clockSync';
+import { authRequest, createBaseStation, createFieldUnit, createNetwork, createUser, gatewayRequest, mockResponse } from './fixtures';
+
+const DISPATCH_LEAD_MS = 5000;
+
+const setUp = async () => {
+  const user = await createUser();
+  const { id: networkId } = await createNetwork(user.id);
+  const station = await createBaseStation(networkId);
+  const unit = await createFieldUnit(networkId);
+  return { user, networkId, station, unit };
+};
+
+type Setup = Awaited<ReturnType<typeof setUp>>;
+
+const schedule = ({ user, networkId, station, unit }: Setup, fireInMs: number) => {
+  return prisma.command.create({
+    data: {
+      networkId,
+      sourceDeviceId: station.id,
+      targetDeviceId: unit.id,
+      messageType: 'MSG_TYPE_PING',
+      fireAt: new Date(Date.now() + fireInMs),
+      createdBy: user.id,
+    },
+  });
+};
+
+const pollAs = async (station: Setup['station'], query: Record<string, string> = {}) => {
+  const { res, sent } = mockResponse();
+  await poll({ ...gatewayRequest(station, undefined), query } as unknown as Parameters<typeof poll>[0], res);
+  return sent;
+};
+
+describe('scheduled commands', () => {
+  it('holds a command back until its fire-at time is within the dispatch lead', async () => {
+    const setup = await setUp();
+    const later = await schedule(setup, 60 * 1000);
+    const soon = await schedule(setup, DISPATCH_LEAD_MS / 2);
+
+    const sent = await pollAs(setup.station);
+
+    expect(sent.body).toMatchObject({ commandId: soon.id, fireAt: soon.fireAt!.getTime() });
+    expect(sent.body.payload).toEqual({ fireAt: soon.fireAt!.getTime() });
+    expect(await pollAs(setup.station)).toMatchObject({ statusCode: 204 });
+    expect((await prisma.command.findUniqueOrThrow({ where: { id: later.id } })).status).toBe('PENDING');
+  });
+
+  it('times out a scheduled command still queued when its fire-at time passes', async () => {
+    const setup = await setUp();
+    const missed = await schedule(setup, -1000);
+
+    expect(await pollAs(setup.station)).toMatchObject({ statusCode: 204 });
+    await checkCommandTimeouts();
+
+    expect(await prisma.command.findUniqueOrThrow({ where: { id: missed.id } })).toMatchObject({
+      status: 'TIMEOUT',
+      errorMessage: 'Fire time passed before dispatch',
+    });
+  });
+
+  it('refuses a fire-at time too close or too far ahead, with the server time', async () => {
+    const setup = await setUp();
+
+    for (const fireInMs of [500, 2 * 24 * 60 * 60 * 1000]) {
+      const { res, sent } = mockResponse();
+      const fireAt = new Date(Date.now() + fireInMs).toISOString();
+      await createCommand(
+        authRequest(setup.user, { body: { targetDeviceId: setup.unit.id, messageType: 'MSG_TYPE_PING', fireAt } }),
+        res
+      );
+      expect(sent.statusCode).toBe(400);
+      expect(sent.body.serverTime).toEqual(expect.any(String));
+    }
+    expect(await prisma.command.count()).toBe(0);
+  });
+});
+
+describe('clock sync', () => {
+  it('echoes the client time next to the server time', async () => {
+    const { res, sent } = mockResponse();
+    const before = Date.now();
+    await getServerTime({ query: { t0: '1700000000000' } } as unknown as Parameters<typeof getServerTime>[0], res);
+
+    expect(sent.body.t0).toBe(1700000000000);
+    expect(sent.body.serverTime).toBeGreaterThanOrEqual(before);
+  });
+
+  it('measures a base station clock offset from its polls', async () => {
+    const { station } = await setUp();
+
+    await pollAs(station, { clientTime: String(Date.now() + 250) });
+
+    const { clockOffsetMs } = await prisma.device.findUniqueOrThrow({ where: { id: station.id } });
+    expect(clockOffsetMs).toBeGreaterThan(200);
+    expect(clockOffsetMs).toBeLessThanOrEqual(250);
+  });
+
+  it('smooths new samples into a fresh estimate and restarts from a stale one', () => {
+    const now = new Date('2026-07-04T21:00:00Z');
+    const fresh = { clockOffsetMs: 100, clockOffsetAt: new Date(now.getTime() - 1000) };
+    const stale = { clockOffsetMs: 100, clockOffsetAt: new Date(now.getTime() - 60 * 60 * 1000) };
+
+    expect(nextClockOffset(fresh, 200, now)).toEqual({ clockOffsetMs: 120, clockOffsetAt: now });
+    expect(nextClockOffset(stale, 200, now)).toEqual({ clockOffsetMs: 200, clockOffsetAt: now });
+    expect(nextClockOffset({ clockOffsetMs: null, clockOffsetAt: null }, -40.4, now).clockOffsetMs).toBe(-40);
+  });
+});
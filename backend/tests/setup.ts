@@ -0,0 +1,10 @@
+import { beforeEach, vi } from 'vitest';
+import { PrismockClient } from 'prismock';
+
+// Every test runs against an in-memory Prisma client instead of DATABASE_URL
+vi.mock('../src/utils/prisma', () => ({ default: new PrismockClient() }));
+
+beforeEach(async () => {
+  const { default: prisma } = await import('../src/utils/prisma');
+  (prisma as unknown as { reset: () => void }).reset(); // Start every test from an empty database
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { runShows } from '../src/workers/showRunner.worker';
+import { createBaseStation, createFieldUnit, createNetwork, createUser } from './fixtures';
+
+/**
+ * A show started `elapsedMs` ago on an armed network, with cues as [offsetMs, channel]
+ */
+const startShow = async (cues: [number, number][], elapsedMs = 1000) => {
+  const user = await createUser();
+  const network = await createNetwork(user.id, { armState: 'ARMED' });
+  await createBaseStation(network.id);
+  const unit = await createFieldUnit(network.id);
+  const show = await prisma.show.create({
+    data: {
+      networkId: network.id,
+      name: 'Finale',
+      status: 'RUNNING',
+      startedAt: new Date(Date.now() - elapsedMs),
+      startedById: user.id,
+      createdBy: user.id,
+    },
+  });
+  await prisma.showCue.createMany({
+    data: cues.map(([offsetMs, channel], position) => ({
+      showId: show.id,
+      position,
+      targetDeviceId: unit.id,
+      channel,
+      offsetMs,
+    })),
+  });
+  return { network, show };
+};
+
+const cuesOf = (showId: string) => prisma.showCue.findMany({ where: { showId }, orderBy: { position: 'asc' } });
+
+const showStatus = async (showId: string) => (await prisma.show.findUniqueOrThrow({ where: { id: showId } })).status;
+
+describe('show runner', () => {
+  it('queues the cues that are due and leaves the rest for later', async () => {
+    const { network, show } = await startShow([
+      [0, 1],
+      [500, 2],
+      [60000, 3],
+    ]);
+
+    await runShows();
+
+    const cues = await cuesOf(show.id);
+    expect(cues.map(c => c.queuedAt !== null)).toEqual([true, true, false]);
+    const commands = await prisma.command.findMany({ where: { id: { in: cues.map(c => c.commandId!).filter(Boolean) } } });
+    expect(commands.map(c => [c.status, c.priority, c.payload])).toEqual([
+      ['PENDING', 'CRITICAL', { channel: 1, showId: show.id, cueId: cues[0].id }],
+      ['PENDING', 'CRITICAL', { channel: 2, showId: show.id, cueId: cues[1].id }],
+    ]);
+    expect((await prisma.network.findUniqueOrThrow({ where: { id: network.id } })).armState).toBe('FIRING');
+
+    // A second tick must not queue the same cues again
+    await runShows();
+    expect(await prisma.command.count()).toBe(2);
+  });
+
+  it('aborts the show and cancels the cues it already queued when a cue cannot be queued', async () => {
+    // The unit only has four relay channels
+    const { show } = await startShow([
+      [0, 1],
+      [100, 9],
+      [200, 2],
+    ]);
+
+    await runShows();
+
+    expect(await prisma.show.findUniqueOrThrow({ where: { id: show.id } })).toMatchObject({
+      status: 'ABORTED',
+      abortReason: expect.stringMatching(/^Cue 2 could not be queued/),
+    });
+    const cues = await cuesOf(show.id);
+    expect(cues[1].errorMessage).toMatch(/Channel must be between 1 and 4/);
+    expect(cues[2].queuedAt).toBeNull();
+    expect((await prisma.command.findMany()).map(c => c.status)).toEqual(['CANCELLED']);
+    expect(await prisma.commandEvent.findFirst({ where: { toStatus: 'CANCELLED' } })).toMatchObject({ actor: 'SYSTEM' });
+  });
+
+  it('aborts a running show once its network is no longer armed', async () => {
+    const { network, show } = await startShow([[0, 1]], 0);
+    await prisma.network.update({ where: { id: network.id }, data: { armState: 'SAFE' } });
+
+    await runShows();
+
+    expect(await prisma.show.findUniqueOrThrow({ where: { id: show.id } })).toMatchObject({
+      status: 'ABORTED',
+      abortReason: 'Network is SAFE',
+    });
+    expect(await prisma.command.count()).toBe(0);
+  });
+
+  it('completes the show once every cue has been queued and sent', async () => {
+    const { show } = await startShow([
+      [0, 1],
+      [0, 2],
+    ]);
+
+    await runShows();
+    expect(await showStatus(show.id)).toBe('RUNNING');
+
+    await prisma.command.updateMany({ data: { status: 'COMPLETED', completedAt: new Date() } });
+    await runShows();
+    expect(await showStatus(show.id)).toBe('COMPLETED');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { hashPassword } from '../src/utils/password';
+import { getStepUpLockout } from '../src/utils/stepUp';
+import { verifyStepUpToken } from '../src/utils/jwt';
+import { stepUp } from '../src/controllers/auth.controller';
+import { authRequest, createUser, mockResponse } from './fixtures';
+
+const MAX_FAILURES = 5;
+const LOCKOUT_WINDOW_MS = 15 * 60 * 1000;
+
+const createPinUser = async () => {
+  const user = await createUser();
+  return prisma.user.update({ where: { id: user.id }, data: { firingPinHash: await hashPassword('2468') } });
+};
+
+const tryPin = async (user: { id: string; email: string; role: string }, pin: string) => {
+  const { res, sent } = mockResponse();
+  await stepUp(authRequest(user, { body: { pin } }), res);
+  return sent;
+};
+
+describe('step-up', () => {
+  it('issues a proof for the right PIN and refuses a wrong one without ending the session', async () => {
+    const user = await createPinUser();
+
+    const wrong = await tryPin(user, '1357');
+    expect(wrong).toMatchObject({ statusCode: 403, body: { error: 'Incorrect PIN' } });
+
+    const right = await tryPin(user, '2468');
+    expect(right.statusCode).toBe(200);
+    expect(verifyStepUpToken(right.body.stepUpToken).userId).toBe(user.id);
+
+    const attempts = await prisma.stepUpAttempt.findMany({ orderBy: { createdAt: 'asc' } });
+    expect(attempts.map(a => a.success)).toEqual([false, true]);
+  });
+
+  it('locks out after too many failures, even for the right PIN', async () => {
+    const user = await createPinUser();
+
+    for (let i = 0; i < MAX_FAILURES; i++) {
+      expect((await tryPin(user, '0000')).statusCode).toBe(403);
+    }
+
+    const locked = await tryPin(user, '2468');
+    expect(locked).toMatchObject({ statusCode: 429, body: { code: 'STEP_UP_LOCKED' } });
+    expect(locked.body.retryAfter).toBeGreaterThan(0);
+    expect(await prisma.stepUpAttempt.count()).toBe(MAX_FAILURES); // Locked attempts are not checked at all
+  });
+
+  it('unlocks once the oldest counted failure leaves the window', async () => {
+    const user = await createUser();
+    const start = new Date('2026-01-01T20:00:00Z');
+    await prisma.stepUpAttempt.createMany({
+      data: Array.from({ length: MAX_FAILURES }, (_, i) => ({
+        userId: user.id,
+        method: 'PIN' as const,
+        success: false,
+        createdAt: new Date(start.getTime() + i * 60 * 1000),
+      })),
+    });
+
+    const justAfterLast = new Date(start.getTime() + MAX_FAILURES * 60 * 1000);
+    expect(await getStepUpLockout(user.id, justAfterLast)).toBe((LOCKOUT_WINDOW_MS - MAX_FAILURES * 60 * 1000) / 1000);
+
+    const oldestExpired = new Date(start.getTime() + LOCKOUT_WINDOW_MS + 1);
+    expect(await getStepUpLockout(user.id, oldestExpired)).toBeNull();
+  });
+});
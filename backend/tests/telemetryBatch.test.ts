@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { receiveTelemetryBatch } from '../src/controllers/gateway.controller';
+import { createBaseStation, createFieldUnit, createNetwork, createUser, gatewayRequest, mockResponse } from './fixtures';
+
+const setUp = async () => {
+  const user = await createUser();
+  const network = await createNetwork(user.id);
+  const station = await createBaseStation(network.id);
+  const unit = await createFieldUnit(network.id);
+  return { station, unit };
+};
+
+const postBatch = async (station: Awaited<ReturnType<typeof createBaseStation>>, records: unknown[]) => {
+  const { res, sent } = mockResponse();
+  await receiveTelemetryBatch(gatewayRequest(station, { records }), res);
+  return sent;
+};
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+describe('receiveTelemetryBatch', () => {
+  it('reports each record on its own and applies the valid ones oldest first', async () => {
+    const { station, unit } = await setUp();
+
+    const sent = await postBatch(station, [
+      { boardId: unit.boardId, messageType: 'MSG_TYPE_BATT', batteryVoltage: 3.9, receivedAt: minutesAgo(1) },
+      { boardId: unit.boardId, messageType: 'MSG_TYPE_NOPE' },
+      { boardId: unit.boardId, messageType: 'MSG_TYPE_BATT', batteryVoltage: 4.1, receivedAt: minutesAgo(5) },
+      { boardId: unit.boardId, messageType: 'MSG_TYPE_PONG', receivedAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() },
+    ]);
+
+    expect(sent).toMatchObject({
+      statusCode: 200,
+      body: {
+        accepted: 2,
+        rejected: 2,
+        results: [
+          { index: 0, success: true },
+          { index: 1, success: false, error: 'Invalid input' },
+          { index: 2, success: true },
+          { index: 3, success: false, error: 'receivedAt is in the future' },
+        ],
+      },
+    });
+    // The newest reading wins even though it came first in the buffer
+    expect((await prisma.device.findUniqueOrThrow({ where: { id: unit.id } })).batteryVoltage).toBe(3.9);
+  });
+
+  it('keeps the other records when one of them fails to be written', async () => {
+    const { station, unit } = await setUp();
+    const create = prisma.telemetry.create;
+    let calls = 0;
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(prisma.telemetry, 'create').mockImplementation(((...args: Parameters<typeof create>) => {
+      if (++calls === 2) {
+        throw new Error('Connection reset');
+      }
+      return create(...args);
+    }) as unknown as typeof create);
+
+    const sent = await postBatch(
+      station,
+      [3, 2, 1].map(minutes => ({ boardId: unit.boardId, messageType: 'MSG_TYPE_PONG', receivedAt: minutesAgo(minutes) }))
+    );
+
+    expect(sent).toMatchObject({
+      statusCode: 200,
+      body: {
+        accepted: 2,
+        rejected: 1,
+        results: [
+          { index: 0, success: true },
+          { index: 1, success: false, error: 'Internal server error' },
+          { index: 2, success: true },
+        ],
+      },
+    });
+    expect(await prisma.telemetry.count()).toBe(2);
+  });
+});
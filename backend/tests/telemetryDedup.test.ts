@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import prisma from '../src/utils/prisma';
+import { receiveTelemetry, receiveTelemetryBatch } from '../src/controllers/gateway.controller';
+import { createBaseStation, createFieldUnit, createNetwork, createUser, gatewayRequest, mockResponse } from './fixtures';
+
+const DEDUP_WINDOW_MS = 10000;
+
+const setUp = async () => {
+  const user = await createUser();
+  const network = await createNetwork(user.id);
+  const stations = [await createBaseStation(network.id), await createBaseStation(network.id)];
+  const unit = await createFieldUnit(network.id);
+  return { stations, unit };
+};
+
+const post = async (station: Awaited<ReturnType<typeof createBaseStation>>, body: Record<string, unknown>) => {
+  const { res, sent } = mockResponse();
+  await receiveTelemetry(gatewayRequest(station, body), res);
+  return sent;
+};
+
+describe('telemetry de-duplication', () => {
+  it('stores a packet relayed by two base stations once, with both observations', async () => {
+    const { stations, unit } = await setUp();
+    const packet = { boardId: unit.boardId, messageType: 'MSG_TYPE_PONG', messageId: 'AB12C' };
+
+    expect(await post(stations[0], { ...packet, rssi: -80 })).toMatchObject({ statusCode: 201, body: { duplicate: false } });
+    expect(await post(stations[1], { ...packet, rssi: -60 })).toMatchObject({ statusCode: 201, body: { duplicate: true } });
+
+    const telemetry = await prisma.telemetry.findMany();
+    expect(telemetry).toHaveLength(1);
+    const observations = await prisma.telemetryObservation.findMany({ where: { telemetryId: telemetry[0].id } });
+    expect(observations.map(o => [o.baseStationId, o.rssi])).toEqual([
+      [stations[0].id, -80],
+      [stations[1].id, -60],
+    ]);
+  });
+
+  it('keeps packets without a messageId apart', async () => {
+    const { stations, unit } = await setUp();
+    const packet = { boardId: unit.boardId, messageType: 'MSG_TYPE_BATT', batteryVoltage: 3.9 };
+
+    await post(stations[0], packet);
+    expect(await post(stations[1], packet)).toMatchObject({ body: { duplicate: false } });
+    expect(await prisma.telemetry.count()).toBe(2);
+  });
+
+  it('treats a reused messageId outside the window as a new packet', async () => {
+    const { stations, unit } = await setUp();
+    const now = Date.now();
+    const packet = { boardId: unit.boardId, messageType: 'MSG_TYPE_PONG', messageId: 'ZZ999' };
+
+    const { res, sent } = mockResponse();
+    await receiveTelemetryBatch(
+      gatewayRequest(stations[0], {
+        records: [
+          { ...packet, receivedAt: new Date(now - 3 * DEDUP_WINDOW_MS).toISOString() },
+          { ...packet, receivedAt: new Date(now - DEDUP_WINDOW_MS / 2).toISOString() },
+        ],
+      }),
+      res
+    );
+    expect(sent.body).toMatchObject({ accepted: 2, results: [{ duplicate: false }, { duplicate: false }] });
+
+    expect(await post(stations[1], packet)).toMatchObject({ body: { duplicate: true } });
+    expect(await prisma.telemetry.count()).toBe(2);
+  });
+});
@@ -4,9 +4,12 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider } from './contexts/AuthContext';
 import { useAuth } from './contexts/useAuth';
 import Login from './components/auth/Login';
+import StepUpDialog from './components/auth/StepUpDialog';
 import Dashboard from './components/dashboard/Dashboard';
 import NetworksList from './components/dashboard/NetworksList';
 import UserManagement from './components/users/UserManagement';
+import { authApi } from './api';
+import { formatErrorMessage } from './lib/errors';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -38,7 +41,32 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
 
 // Layout with navigation
 const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user, logout } = useAuth();
+  const { user, logout, setUser } = useAuth();
+
+  const handleFiringPin = async () => {
+    if (!user) {
+      return;
+    }
+    const pin = window.prompt(
+      user.hasFiringPin
+        ? 'New firing PIN, 4 to 8 digits (leave empty to remove it):'
+        : 'Choose a firing PIN, 4 to 8 digits. It is asked before ignition, arming and show start:'
+    );
+    if (pin === null || (!user.hasFiringPin && !pin.trim())) {
+      return;
+    }
+    const password = window.prompt('Confirm with your password:');
+    if (!password) {
+      return;
+    }
+    try {
+      const { hasFiringPin } = await authApi.setFiringPin(password, pin.trim() || null);
+      setUser({ ...user, hasFiringPin });
+      alert(hasFiringPin ? 'Firing PIN saved' : 'Firing PIN removed');
+    } catch (error: unknown) {
+      alert(formatErrorMessage(error, 'Failed to update firing PIN'));
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -68,6 +96,12 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
               <span className="text-sm text-gray-600">
                 {user?.name} ({user?.role})
               </span>
+              <button
+                onClick={handleFiringPin}
+                className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+              >
+                {user?.hasFiringPin ? 'Change firing PIN' : 'Set firing PIN'}
+              </button>
               <button
                 onClick={logout}
                 className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
@@ -86,6 +120,7 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
+      <StepUpDialog />
       <AuthProvider>
         <BrowserRouter>
           <Routes>
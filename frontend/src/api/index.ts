@@ -3,14 +3,42 @@ import type {
   AuthResponse,
   LoginCredentials,
   RegisterData,
+  StepUpResult,
   User,
   Network,
   Device,
+  DeviceChannelGrid,
+  GatewayCredentialStatus,
+  IssuedGatewaySecret,
+  Discovery,
+  BlockedBoard,
   Command,
   Telemetry,
   MessageType,
+  MessageDefinitions,
   CommandPriority,
+  CommandStatus,
+  CommandBatch,
+  CommandBatchMode,
+  CommandBatchTarget,
+  CommandEvent,
+  DeviceGroup,
+  DiagnosticSchedule,
+  DiagnosticScheduleInput,
   GuestPermission,
+  NetworkGuest,
+  ArmReadiness,
+  ArmStatus,
+  EmergencyStopResult,
+  InterlockSettings,
+  InterlockCheckResult,
+  InterlockOverride,
+  InterlockOverrideInput,
+  AudienceZone,
+  Show,
+  ShowCueInput,
+  CosignRequest,
+  CosignStatus,
 } from '../types';
 
 // Auth API
@@ -29,6 +57,16 @@ export const authApi = {
     const response = await apiClient.get<User>('/users/me');
     return response.data;
   },
+
+  stepUp: async (proof: { pin: string } | { password: string }): Promise<StepUpResult> => {
+    const response = await apiClient.post<StepUpResult>('/auth/step-up', proof);
+    return response.data;
+  },
+
+  setFiringPin: async (password: string, pin: string | null): Promise<{ hasFiringPin: boolean }> => {
+    const response = await apiClient.put<{ hasFiringPin: boolean }>('/auth/firing-pin', { password, pin });
+    return response.data;
+  },
 };
 
 // Users API
@@ -66,17 +104,144 @@ export const networksApi = {
     return response.data;
   },
 
-  addGuest: async (networkId: string, userId: string, permission: GuestPermission) => {
+  addGuest: async (networkId: string, userId: string, permission: GuestPermission, groupIds?: string[]) => {
     const response = await apiClient.post(`/networks/${networkId}/guests`, {
       userId,
       permission,
+      groupIds,
     });
     return response.data;
   },
 
+  updateGuest: async (
+    networkId: string,
+    guestId: string,
+    data: { permission?: GuestPermission; groupIds?: string[] }
+  ): Promise<NetworkGuest> => {
+    const response = await apiClient.patch<NetworkGuest>(`/networks/${networkId}/guests/${guestId}`, data);
+    return response.data;
+  },
+
   removeGuest: async (networkId: string, guestId: string) => {
     await apiClient.delete(`/networks/${networkId}/guests/${guestId}`);
   },
+
+  getArmStatus: async (networkId: string): Promise<ArmStatus> => {
+    const response = await apiClient.get<ArmStatus>(`/networks/${networkId}/arm`);
+    return response.data;
+  },
+
+  arm: async (networkId: string): Promise<ArmStatus> => {
+    const response = await apiClient.post<ArmStatus>(`/networks/${networkId}/arm`);
+    return response.data;
+  },
+
+  confirmArm: async (networkId: string, continuityOverride?: { justification: string }): Promise<ArmStatus> => {
+    const response = await apiClient.post<ArmStatus>(`/networks/${networkId}/arm/confirm`, { continuityOverride });
+    return response.data;
+  },
+
+  getArmReadiness: async (networkId: string): Promise<ArmReadiness> => {
+    const response = await apiClient.get<ArmReadiness>(`/networks/${networkId}/arm/readiness`);
+    return response.data;
+  },
+
+  disarm: async (networkId: string, reason?: string): Promise<ArmStatus> => {
+    const response = await apiClient.post<ArmStatus>(`/networks/${networkId}/disarm`, { reason });
+    return response.data;
+  },
+
+  emergencyStop: async (networkId: string, reason?: string): Promise<EmergencyStopResult> => {
+    const response = await apiClient.post<EmergencyStopResult>(`/networks/${networkId}/emergency-stop`, {
+      reason,
+    });
+    return response.data;
+  },
+
+  resetEmergencyStop: async (networkId: string): Promise<ArmStatus> => {
+    const response = await apiClient.post<ArmStatus>(`/networks/${networkId}/emergency-stop/reset`);
+    return response.data;
+  },
+
+  updateArmPolicy: async (
+    networkId: string,
+    policy: { requireSecondArmer?: boolean; requireCosign?: boolean }
+  ): Promise<ArmStatus> => {
+    const response = await apiClient.patch<ArmStatus>(`/networks/${networkId}/arm/policy`, policy);
+    return response.data;
+  },
+
+  getInterlocks: async (networkId: string): Promise<InterlockSettings> => {
+    const response = await apiClient.get<InterlockSettings>(`/networks/${networkId}/interlocks`);
+    return response.data;
+  },
+
+  updateInterlocks: async (
+    networkId: string,
+    data: { maxLastSeenSeconds: number | null; maxGpsAgeSeconds: number | null }
+  ): Promise<InterlockSettings> => {
+    const response = await apiClient.put<InterlockSettings>(`/networks/${networkId}/interlocks`, data);
+    return response.data;
+  },
+
+  checkInterlocks: async (networkId: string, deviceId: string): Promise<InterlockCheckResult> => {
+    const response = await apiClient.get<InterlockCheckResult>(
+      `/networks/${networkId}/interlocks/check/${deviceId}`
+    );
+    return response.data;
+  },
+
+  getInterlockOverrides: async (networkId: string): Promise<InterlockOverride[]> => {
+    const response = await apiClient.get<InterlockOverride[]>(`/networks/${networkId}/interlocks/overrides`);
+    return response.data;
+  },
+
+  createAudienceZone: async (
+    networkId: string,
+    data: { name: string; polygon: [number, number][] }
+  ): Promise<AudienceZone> => {
+    const response = await apiClient.post<AudienceZone>(`/networks/${networkId}/audience-zones`, data);
+    return response.data;
+  },
+
+  deleteAudienceZone: async (networkId: string, zoneId: string) => {
+    await apiClient.delete(`/networks/${networkId}/audience-zones/${zoneId}`);
+  },
+};
+
+// Device groups API
+export const groupsApi = {
+  getByNetwork: async (networkId: string): Promise<DeviceGroup[]> => {
+    const response = await apiClient.get<DeviceGroup[]>(`/networks/${networkId}/groups`);
+    return response.data;
+  },
+
+  create: async (networkId: string, data: { name: string; color: string }): Promise<DeviceGroup> => {
+    const response = await apiClient.post<DeviceGroup>(`/networks/${networkId}/groups`, data);
+    return response.data;
+  },
+
+  update: async (
+    networkId: string,
+    groupId: string,
+    data: { name?: string; color?: string }
+  ): Promise<DeviceGroup> => {
+    const response = await apiClient.patch<DeviceGroup>(`/networks/${networkId}/groups/${groupId}`, data);
+    return response.data;
+  },
+
+  delete: async (networkId: string, groupId: string) => {
+    await apiClient.delete(`/networks/${networkId}/groups/${groupId}`);
+  },
+
+  updateMembers: async (
+    networkId: string,
+    groupId: string,
+    data: { add?: string[]; remove?: string[] }
+  ): Promise<{ group: DeviceGroup; added: number; removed: number }> => {
+    const response = await apiClient.post(`/networks/${networkId}/groups/${groupId}/members`, data);
+    return response.data;
+  },
 };
 
 // Devices API
@@ -94,8 +259,8 @@ export const devicesApi = {
   register: async (
     networkId: string,
     data: { boardId: string; deviceType: 'BASE_STATION' | 'FIELD_UNIT'; name?: string }
-  ): Promise<Device> => {
-    const response = await apiClient.post<Device>(`/devices/network/${networkId}`, data);
+  ): Promise<Device & IssuedGatewaySecret> => {
+    const response = await apiClient.post<Device & IssuedGatewaySecret>(`/devices/network/${networkId}`, data);
     return response.data;
   },
 
@@ -103,6 +268,86 @@ export const devicesApi = {
     const response = await apiClient.patch<Device>(`/devices/${deviceId}`, data);
     return response.data;
   },
+
+  getChannels: async (deviceId: string): Promise<DeviceChannelGrid> => {
+    const response = await apiClient.get<DeviceChannelGrid>(`/devices/${deviceId}/channels`);
+    return response.data;
+  },
+
+  updateChannel: async (
+    deviceId: string,
+    channel: number,
+    data: { label?: string | null; load?: string | null; reloaded?: true }
+  ): Promise<DeviceChannelGrid> => {
+    const response = await apiClient.patch<DeviceChannelGrid>(`/devices/${deviceId}/channels/${channel}`, data);
+    return response.data;
+  },
+
+  rotateCredentials: async (
+    deviceId: string
+  ): Promise<GatewayCredentialStatus & Required<IssuedGatewaySecret>> => {
+    const response = await apiClient.post<GatewayCredentialStatus & Required<IssuedGatewaySecret>>(
+      `/devices/${deviceId}/credentials`
+    );
+    return response.data;
+  },
+
+  revokeCredentials: async (deviceId: string): Promise<GatewayCredentialStatus> => {
+    const response = await apiClient.delete<GatewayCredentialStatus>(`/devices/${deviceId}/credentials`);
+    return response.data;
+  },
+
+  getDiscoveries: async (networkId: string): Promise<Discovery[]> => {
+    const response = await apiClient.get<Discovery[]>(`/devices/network/${networkId}/discoveries`);
+    return response.data;
+  },
+
+  approve: async (
+    deviceId: string,
+    data: { name: string; latitude?: number; longitude?: number; altitude?: number }
+  ): Promise<Device> => {
+    const response = await apiClient.post<Device>(`/devices/${deviceId}/approve`, data);
+    return response.data;
+  },
+
+  reject: async (deviceId: string, data: { block?: boolean; reason?: string } = {}) => {
+    await apiClient.post(`/devices/${deviceId}/reject`, data);
+  },
+
+  getBlocked: async (networkId: string): Promise<BlockedBoard[]> => {
+    const response = await apiClient.get<BlockedBoard[]>(`/devices/network/${networkId}/blocked`);
+    return response.data;
+  },
+
+  unblock: async (networkId: string, blockedId: string) => {
+    await apiClient.delete(`/devices/network/${networkId}/blocked/${blockedId}`);
+  },
+};
+
+// Diagnostic schedules API
+export const diagnosticsApi = {
+  getByNetwork: async (networkId: string): Promise<DiagnosticSchedule[]> => {
+    const response = await apiClient.get<DiagnosticSchedule[]>(`/networks/${networkId}/diagnostics`);
+    return response.data;
+  },
+
+  create: async (networkId: string, data: DiagnosticScheduleInput): Promise<DiagnosticSchedule> => {
+    const response = await apiClient.post<DiagnosticSchedule>(`/networks/${networkId}/diagnostics`, data);
+    return response.data;
+  },
+
+  update: async (
+    networkId: string,
+    scheduleId: string,
+    data: Partial<Omit<DiagnosticScheduleInput, 'messageType'>>
+  ): Promise<DiagnosticSchedule> => {
+    const response = await apiClient.patch<DiagnosticSchedule>(`/networks/${networkId}/diagnostics/${scheduleId}`, data);
+    return response.data;
+  },
+
+  delete: async (networkId: string, scheduleId: string) => {
+    await apiClient.delete(`/networks/${networkId}/diagnostics/${scheduleId}`);
+  },
 };
 
 // Commands API
@@ -112,13 +357,55 @@ export const commandsApi = {
     messageType: MessageType;
     priority?: CommandPriority;
     payload?: Record<string, unknown>;
+    fireAt?: string;
+    overrides?: InterlockOverrideInput[];
   }): Promise<Command> => {
     const response = await apiClient.post<Command>('/commands', data);
     return response.data;
   },
 
-  getByNetwork: async (networkId: string): Promise<Command[]> => {
-    const response = await apiClient.get<Command[]>(`/commands/network/${networkId}`);
+  getByNetwork: async (networkId: string, status?: CommandStatus): Promise<Command[]> => {
+    const response = await apiClient.get<Command[]>(`/commands/network/${networkId}`, {
+      params: { status },
+    });
+    return response.data;
+  },
+
+  createBatch: async (data: {
+    networkId: string;
+    target: CommandBatchTarget;
+    messageType: MessageType;
+    priority?: CommandPriority;
+    payload?: Record<string, unknown>;
+    fireAt?: string;
+    mode?: 'AUTO' | CommandBatchMode;
+  }): Promise<CommandBatch> => {
+    const response = await apiClient.post<CommandBatch>('/commands/batch', data);
+    return response.data;
+  },
+
+  getBatch: async (batchId: string): Promise<CommandBatch> => {
+    const response = await apiClient.get<CommandBatch>(`/commands/batches/${batchId}`);
+    return response.data;
+  },
+
+  cancel: async (commandId: string, reason?: string): Promise<Command> => {
+    const response = await apiClient.post<Command>(`/commands/${commandId}/cancel`, { reason });
+    return response.data;
+  },
+
+  reprioritise: async (commandId: string, priority: CommandPriority): Promise<Command> => {
+    const response = await apiClient.patch<Command>(`/commands/${commandId}/priority`, { priority });
+    return response.data;
+  },
+
+  getMessageTypes: async (): Promise<MessageDefinitions> => {
+    const response = await apiClient.get<MessageDefinitions>('/commands/message-types');
+    return response.data;
+  },
+
+  getEvents: async (commandId: string): Promise<CommandEvent[]> => {
+    const response = await apiClient.get<CommandEvent[]>(`/commands/${commandId}/events`);
     return response.data;
   },
 
@@ -129,3 +416,76 @@ export const commandsApi = {
     return response.data;
   },
 };
+
+// Shows API
+export const showsApi = {
+  getByNetwork: async (networkId: string): Promise<Show[]> => {
+    const response = await apiClient.get<Show[]>(`/shows/network/${networkId}`);
+    return response.data;
+  },
+
+  getById: async (showId: string): Promise<Show> => {
+    const response = await apiClient.get<Show>(`/shows/${showId}`);
+    return response.data;
+  },
+
+  create: async (
+    networkId: string,
+    data: { name: string; description?: string; cues: ShowCueInput[] }
+  ): Promise<Show> => {
+    const response = await apiClient.post<Show>(`/shows/network/${networkId}`, data);
+    return response.data;
+  },
+
+  update: async (
+    showId: string,
+    data: { name: string; description?: string; cues: ShowCueInput[] }
+  ): Promise<Show> => {
+    const response = await apiClient.put<Show>(`/shows/${showId}`, data);
+    return response.data;
+  },
+
+  delete: async (showId: string) => {
+    await apiClient.delete(`/shows/${showId}`);
+  },
+
+  start: async (showId: string): Promise<Show> => {
+    const response = await apiClient.post<Show>(`/shows/${showId}/start`);
+    return response.data;
+  },
+
+  pause: async (showId: string): Promise<Show> => {
+    const response = await apiClient.post<Show>(`/shows/${showId}/pause`);
+    return response.data;
+  },
+
+  resume: async (showId: string): Promise<Show> => {
+    const response = await apiClient.post<Show>(`/shows/${showId}/resume`);
+    return response.data;
+  },
+
+  abort: async (showId: string, reason?: string): Promise<Show> => {
+    const response = await apiClient.post<Show>(`/shows/${showId}/abort`, { reason });
+    return response.data;
+  },
+};
+
+// Co-sign (two-person authorisation) API
+export const cosignApi = {
+  getByNetwork: async (networkId: string, status?: CosignStatus): Promise<CosignRequest[]> => {
+    const response = await apiClient.get<CosignRequest[]>(`/cosign/network/${networkId}`, {
+      params: { status },
+    });
+    return response.data;
+  },
+
+  approve: async (requestId: string): Promise<CosignRequest> => {
+    const response = await apiClient.post<CosignRequest>(`/cosign/${requestId}/approve`);
+    return response.data;
+  },
+
+  deny: async (requestId: string, reason?: string): Promise<CosignRequest> => {
+    const response = await apiClient.post<CosignRequest>(`/cosign/${requestId}/deny`, { reason });
+    return response.data;
+  },
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { setStepUpPrompt, type StepUpProof } from '../../lib/api';
+
+type PendingStepUp = {
+  methods: string[];
+  resolve: (proof: StepUpProof | null) => void;
+};
+
+/**
+ * Modal asking for the firing PIN (if the user has one) or the password before a critical action.
+ * Mounted once; the API client opens it when the server answers STEP_UP_REQUIRED.
+ */
+const StepUpDialog: React.FC = () => {
+  const [pending, setPending] = React.useState<PendingStepUp | null>(null);
+  const [usePin, setUsePin] = React.useState(false);
+  const [secret, setSecret] = React.useState('');
+
+  React.useEffect(() => {
+    setStepUpPrompt(
+      (methods) =>
+        new Promise((resolve) => {
+          setUsePin(methods.includes('PIN'));
+          setSecret('');
+          setPending({ methods, resolve });
+        })
+    );
+    return () => setStepUpPrompt(async () => null);
+  }, []);
+
+  if (!pending) {
+    return null;
+  }
+
+  const close = (proof: StepUpProof | null) => {
+    pending.resolve(proof);
+    setPending(null);
+    setSecret('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    close(usePin ? { pin: secret.trim() } : { password: secret });
+  };
+
+  const switchMethod = () => {
+    setUsePin(!usePin);
+    setSecret('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] flex items-center justify-center bg-black/50">
+      <form
+        onSubmit={handleSubmit}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="step-up-title"
+        className="max-w-sm w-full bg-white rounded-lg shadow-lg p-6 space-y-4"
+      >
+        <h2 id="step-up-title" className="text-lg font-semibold text-gray-900">
+          Confirm it's you
+        </h2>
+        <div>
+          <label htmlFor="step-up-secret" className="block text-sm font-medium text-gray-700">
+            {usePin ? 'Firing PIN' : 'Password'}
+          </label>
+          <input
+            id="step-up-secret"
+            type="password"
+            required
+            autoFocus
+            autoComplete={usePin ? 'off' : 'current-password'}
+            inputMode={usePin ? 'numeric' : undefined}
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        {pending.methods.includes('PIN') && (
+          <button type="button" onClick={switchMethod} className="text-sm text-blue-600 hover:text-blue-800">
+            {usePin ? 'Use my password instead' : 'Use my firing PIN instead'}
+          </button>
+        )}
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={() => close(null)}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!secret.trim()}
+            className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Confirm
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default StepUpDialog;
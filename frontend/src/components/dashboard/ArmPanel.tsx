@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { ArmState, Network } from '../../types';
+import { networksApi } from '../../api';
+import { useAuth } from '../../contexts/useAuth';
+import { formatErrorMessage, getContinuityFailures } from '../../lib/errors';
+
+interface ArmPanelProps {
+  network: Network;
+}
+
+const stateStyles: Record<ArmState, string> = {
+  SAFE: 'bg-green-100 text-green-800 border-green-300',
+  ARMING: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  ARMED: 'bg-red-100 text-red-800 border-red-300',
+  FIRING: 'bg-red-600 text-white border-red-700',
+};
+
+const secondsUntil = (date: string | null) => {
+  if (!date) return null;
+  return Math.max(0, Math.round((new Date(date).getTime() - Date.now()) / 1000));
+};
+
+const ArmPanel: React.FC<ArmPanelProps> = ({ network }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [showHistory, setShowHistory] = useState(false);
+
+  const isOwner = user?.role === 'MEGA_ADMIN' || user?.id === network.ownerId;
+  const guestPermission = network.guests?.find(g => g.userId === user?.id)?.permission;
+  const canArm = isOwner || guestPermission === 'COMMANDER';
+  const canDisarm = canArm || guestPermission === 'SAFETY_OFFICER';
+
+  const { data: status } = useQuery({
+    queryKey: ['armStatus', network.id],
+    queryFn: () => networksApi.getArmStatus(network.id),
+    refetchInterval: 2000,
+  });
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ['armStatus', network.id] });
+
+  const armMutation = useMutation({
+    mutationFn: () => networksApi.arm(network.id),
+    onSuccess,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to arm network')),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: (continuityOverride?: { justification: string }) =>
+      networksApi.confirmArm(network.id, continuityOverride),
+    onSuccess,
+    onError: (error: unknown) => {
+      const failures = getContinuityFailures(error);
+      if (!failures || !isOwner) {
+        alert(formatErrorMessage(error, 'Failed to confirm arming'));
+        return;
+      }
+
+      // Owners may arm anyway with a logged justification
+      const summary = failures.map(f => `- ${f.deviceName} CH${f.channel} (${f.load})`).join('\n');
+      const justification = window.prompt(
+        `Continuity test failed on loaded channels:\n${summary}\n\nTo arm anyway, enter a justification (logged):`
+      );
+      if (justification?.trim()) {
+        confirmMutation.mutate({ justification: justification.trim() });
+      }
+    },
+  });
+
+  const disarmMutation = useMutation({
+    mutationFn: () => networksApi.disarm(network.id),
+    onSuccess,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to disarm network')),
+  });
+
+  const resetStopMutation = useMutation({
+    mutationFn: () => networksApi.resetEmergencyStop(network.id),
+    onSuccess,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to reset emergency stop')),
+  });
+
+  const policyMutation = useMutation({
+    mutationFn: (policy: { requireSecondArmer?: boolean; requireCosign?: boolean }) =>
+      networksApi.updateArmPolicy(network.id, policy),
+    onSuccess,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to update arming policy')),
+  });
+
+  if (!status) {
+    return null;
+  }
+
+  const remaining = secondsUntil(status.armExpiresAt);
+  const awaitingOther = status.requireSecondArmer && status.armRequestedById === user?.id;
+
+  return (
+    <div className="bg-white border-b border-gray-200 px-6 py-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <span className={`px-3 py-1 rounded border text-sm font-bold ${stateStyles[status.armState]}`}>
+            {status.armState}
+          </span>
+          {status.emergencyStopAt && (
+            <span className="px-3 py-1 rounded border text-sm font-bold bg-red-600 text-white border-red-700">
+              E-STOP since {new Date(status.emergencyStopAt).toLocaleTimeString()}
+            </span>
+          )}
+          {remaining !== null && status.armState === 'ARMING' && (
+            <span className="text-sm text-gray-600">
+              {awaitingOther ? 'Waiting for a second person to confirm' : 'Confirm to arm'} ({remaining}s)
+            </span>
+          )}
+          {remaining !== null && (status.armState === 'ARMED' || status.armState === 'FIRING') && (
+            <span className="text-sm text-gray-600">Auto-disarm in {remaining}s without activity</span>
+          )}
+          {isOwner && (
+            <label className="flex items-center space-x-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={status.requireSecondArmer}
+                disabled={status.armState !== 'SAFE' || policyMutation.isPending}
+                onChange={(e) => policyMutation.mutate({ requireSecondArmer: e.target.checked })}
+              />
+              <span>Require second person to arm</span>
+            </label>
+          )}
+          {isOwner && (
+            <label className="flex items-center space-x-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={status.requireCosign}
+                disabled={policyMutation.isPending}
+                onChange={(e) => policyMutation.mutate({ requireCosign: e.target.checked })}
+              />
+              <span>Require co-sign for ignition and show start</span>
+            </label>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {isOwner && status.emergencyStopAt && (
+            <button
+              onClick={() => {
+                if (confirm(`Reset the emergency stop on ${network.name}? The network stays SAFE until re-armed.`)) {
+                  resetStopMutation.mutate();
+                }
+              }}
+              disabled={resetStopMutation.isPending}
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 text-sm font-medium"
+            >
+              Reset E-STOP
+            </button>
+          )}
+          {canArm && status.armState === 'SAFE' && !status.emergencyStopAt && (
+            <button
+              onClick={() => armMutation.mutate()}
+              disabled={armMutation.isPending}
+              className="px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 disabled:opacity-50 text-sm font-medium"
+            >
+              Arm
+            </button>
+          )}
+          {canArm && status.armState === 'ARMING' && !awaitingOther && (
+            <button
+              onClick={() => {
+                if (confirm(`Confirm arming ${network.name}? IGNITE commands will be accepted.`)) {
+                  confirmMutation.mutate(undefined);
+                }
+              }}
+              disabled={confirmMutation.isPending}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm font-medium"
+            >
+              Confirm Arm
+            </button>
+          )}
+          {canDisarm && status.armState !== 'SAFE' && (
+            <button
+              onClick={() => disarmMutation.mutate()}
+              disabled={disarmMutation.isPending}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm font-medium"
+            >
+              Disarm
+            </button>
+          )}
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+          >
+            {showHistory ? 'Hide log' : 'Show log'}
+          </button>
+        </div>
+      </div>
+
+      {showHistory && (
+        <ul className="mt-3 space-y-1 text-xs text-gray-600 max-h-40 overflow-y-auto">
+          {(status.transitions ?? []).map((transition) => (
+            <li key={transition.id}>
+              {new Date(transition.createdAt).toLocaleString()} • {transition.fromState} → {transition.toState} •{' '}
+              {transition.user?.name ?? 'System'}
+              {transition.reason && ` • ${transition.reason}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ArmPanel;
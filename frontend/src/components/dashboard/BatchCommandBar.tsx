@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { CommandBatchTarget, DeviceGroup, MessageType, Network } from '../../types';
+import { commandsApi } from '../../api';
+import { formatErrorMessage } from '../../lib/errors';
+import { getMissingFields } from '../../lib/messageFields';
+import MessageFieldsForm from './MessageFieldsForm';
+
+interface BatchCommandBarProps {
+  network: Network;
+  groups: DeviceGroup[];
+  selectedDeviceIds: string[];
+  onClearSelection: () => void;
+}
+
+const ACTIONS: { messageType: MessageType; label: string }[] = [
+  { messageType: 'MSG_TYPE_PING', label: 'Ping' },
+  { messageType: 'MSG_TYPE_BATT', label: 'Battery' },
+  { messageType: 'MSG_TYPE_GPS', label: 'GPS' },
+  { messageType: 'MSG_TYPE_CONT', label: 'Continuity' },
+];
+
+// Ignitions have their own confirmations in the device list and shows
+const IGNITION_TYPES: MessageType[] = ['MSG_TYPE_IGNITE', 'MSG_TYPE_SET_R'];
+
+// Statuses that may still change
+const OPEN_STATUSES = ['AWAITING_COSIGN', 'PENDING', 'PROCESSING', 'AWAITING_RESPONSE'];
+
+const statusStyles: Record<string, string> = {
+  COMPLETED: 'text-green-700',
+  RESPONDED: 'text-green-700',
+  AWAITING_COSIGN: 'text-purple-700',
+  PENDING: 'text-yellow-700',
+  PROCESSING: 'text-blue-700',
+  AWAITING_RESPONSE: 'text-blue-700',
+};
+
+const BatchCommandBar: React.FC<BatchCommandBarProps> = ({ network, groups, selectedDeviceIds, onClearSelection }) => {
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [groupId, setGroupId] = useState('');
+  const [customType, setCustomType] = useState<MessageType | ''>('');
+  const [customPayload, setCustomPayload] = useState<Record<string, unknown>>({});
+  const [customScope, setCustomScope] = useState<'selected' | 'group' | 'all'>('all');
+
+  const { data: definitions } = useQuery({
+    queryKey: ['messageTypes'],
+    queryFn: commandsApi.getMessageTypes,
+    staleTime: Infinity,
+  });
+
+  const { data: batch } = useQuery({
+    queryKey: ['commandBatch', batchId],
+    queryFn: () => commandsApi.getBatch(batchId!),
+    enabled: !!batchId,
+    refetchInterval: (query) => {
+      const targets = query.state.data?.targets ?? [];
+      return targets.some(t => OPEN_STATUSES.includes(t.status)) ? 2000 : false;
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: ({
+      target,
+      messageType,
+      payload,
+    }: {
+      target: CommandBatchTarget;
+      messageType: MessageType;
+      payload?: Record<string, unknown>;
+    }) => commandsApi.createBatch({ networkId: network.id, target, messageType, payload }),
+    onSuccess: (created) => setBatchId(created.id),
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to send command')),
+  });
+
+  const send = (messageType: MessageType, scope: 'selected' | 'group' | 'all', payload?: Record<string, unknown>) => {
+    const target: CommandBatchTarget =
+      scope === 'all'
+        ? { type: 'ALL' }
+        : scope === 'group'
+          ? { type: 'GROUP', groupId }
+          : { type: 'DEVICES', deviceIds: selectedDeviceIds };
+    sendMutation.mutate({ target, messageType, payload });
+  };
+
+  const customTypes = definitions
+    ? (Object.keys(definitions) as MessageType[]).filter(
+        (messageType) => definitions[messageType].sendable && !IGNITION_TYPES.includes(messageType)
+      )
+    : [];
+  const customFields = customType && definitions ? definitions[customType].payload : [];
+  const customTargetMissing =
+    (customScope === 'group' && !groupId) || (customScope === 'selected' && selectedDeviceIds.length === 0);
+
+  const handleCustomTypeChange = (messageType: MessageType | '') => {
+    setCustomType(messageType);
+    setCustomPayload({});
+  };
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-lg p-3 bg-gray-50">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium text-gray-700">All field units:</span>
+        {ACTIONS.map(({ messageType, label }) => (
+          <button
+            key={`all-${messageType}`}
+            onClick={() => send(messageType, 'all')}
+            disabled={sendMutation.isPending}
+            className="px-3 py-1 bg-white border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50 text-xs font-medium"
+          >
+            {label}
+          </button>
+        ))}
+
+        {groups.length > 0 && (
+          <>
+            <select
+              value={groupId}
+              onChange={(e) => setGroupId(e.target.value)}
+              className="ml-4 px-2 py-1 border border-gray-300 rounded text-xs"
+              aria-label="Target group"
+            >
+              <option value="">Group…</option>
+              {groups.map((group) => (
+                <option key={group.id} value={group.id}>
+                  {group.name}
+                </option>
+              ))}
+            </select>
+            {ACTIONS.map(({ messageType, label }) => (
+              <button
+                key={`group-${messageType}`}
+                onClick={() => send(messageType, 'group')}
+                disabled={sendMutation.isPending || !groupId}
+                className="px-3 py-1 bg-white border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50 text-xs font-medium"
+              >
+                {label}
+              </button>
+            ))}
+          </>
+        )}
+
+        {selectedDeviceIds.length > 0 && (
+          <>
+            <span className="ml-4 font-medium text-gray-700">Selected ({selectedDeviceIds.length}):</span>
+            {ACTIONS.map(({ messageType, label }) => (
+              <button
+                key={`selected-${messageType}`}
+                onClick={() => send(messageType, 'selected')}
+                disabled={sendMutation.isPending}
+                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 text-xs font-medium"
+              >
+                {label}
+              </button>
+            ))}
+            <button onClick={onClearSelection} className="px-2 py-1 text-xs text-gray-600 hover:text-gray-900">
+              Clear
+            </button>
+          </>
+        )}
+      </div>
+
+      {customTypes.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+          <span className="font-medium text-gray-700">Message:</span>
+          <select
+            value={customType}
+            onChange={(e) => handleCustomTypeChange(e.target.value as MessageType | '')}
+            className="px-2 py-1 border border-gray-300 rounded text-xs"
+            aria-label="Message type"
+          >
+            <option value="">Type…</option>
+            {customTypes.map((messageType) => (
+              <option key={messageType} value={messageType}>
+                {messageType.replace('MSG_TYPE_', '')} - {definitions![messageType].description}
+              </option>
+            ))}
+          </select>
+          {customType && (
+            <>
+              <MessageFieldsForm
+                fields={customFields}
+                values={customPayload}
+                onChange={setCustomPayload}
+                disabled={sendMutation.isPending}
+              />
+              <select
+                value={customScope}
+                onChange={(e) => setCustomScope(e.target.value as 'selected' | 'group' | 'all')}
+                className="px-2 py-1 border border-gray-300 rounded text-xs"
+                aria-label="Send to"
+              >
+                <option value="all">All field units</option>
+                {groups.length > 0 && <option value="group">Chosen group</option>}
+                <option value="selected">Selected ({selectedDeviceIds.length})</option>
+              </select>
+              <button
+                onClick={() => send(customType, customScope, customPayload)}
+                disabled={
+                  sendMutation.isPending || customTargetMissing || getMissingFields(customFields, customPayload).length > 0
+                }
+                className="px-3 py-1 bg-white border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50 text-xs font-medium"
+              >
+                Send
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {batch && (
+        <div className="mt-3">
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>
+              {batch.messageType.replace('MSG_TYPE_', '')} to {batch.targets.length} unit(s) as{' '}
+              {batch.mode === 'BROADCAST' ? `LoRa broadcast via ${batch.broadcasts.length} base station(s)` : 'individual commands'}
+              {' • '}
+              {Object.entries(batch.summary)
+                .map(([status, count]) => `${count} ${status}`)
+                .join(', ')}
+            </span>
+            <button onClick={() => setBatchId(null)} className="text-gray-500 hover:text-gray-900">
+              Dismiss
+            </button>
+          </div>
+          <ul className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-1 text-xs">
+            {batch.targets.map((target) => (
+              <li key={target.deviceId} title={target.error ?? undefined}>
+                <span className="text-gray-900">{target.name || target.boardId}</span>{' '}
+                <span className={statusStyles[target.status] ?? 'text-red-700'}>{target.status}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchCommandBar;
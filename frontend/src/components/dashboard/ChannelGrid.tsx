@@ -0,0 +1,157 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Device, DeviceChannel, Network } from '../../types';
+import { devicesApi } from '../../api';
+import { formatErrorMessage } from '../../lib/errors';
+
+interface ChannelGridProps {
+  network: Network;
+  device: Device;
+  isOwner: boolean;
+  canLoad: boolean; // Owner or COMMANDER
+  onFire: (channel: number, scheduled: boolean) => void;
+}
+
+const MAX_CHANNELS = 16;
+
+const ChannelGrid: React.FC<ChannelGridProps> = ({ network, device, isOwner, canLoad, onFire }) => {
+  const queryClient = useQueryClient();
+
+  const { data: grid } = useQuery({
+    queryKey: ['deviceChannels', device.id],
+    queryFn: () => devicesApi.getChannels(device.id),
+    refetchInterval: 5000,
+  });
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ['deviceChannels', device.id] });
+
+  const channelMutation = useMutation({
+    mutationFn: ({ channel, data }: { channel: number; data: Parameters<typeof devicesApi.updateChannel>[2] }) =>
+      devicesApi.updateChannel(device.id, channel, data),
+    onSuccess,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to update channel')),
+  });
+
+  const countMutation = useMutation({
+    mutationFn: (channelCount: number) => devicesApi.update(device.id, { channelCount }),
+    onSuccess: () => {
+      onSuccess();
+      queryClient.invalidateQueries({ queryKey: ['devices', network.id] });
+    },
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to change channel count')),
+  });
+
+  const handleEdit = (channel: DeviceChannel) => {
+    const label = window.prompt(`Label for channel ${channel.number}:`, channel.label ?? '');
+    if (label === null) return;
+    const load = window.prompt(`What is loaded on channel ${channel.number}?`, channel.load ?? '');
+    if (load === null) return;
+    channelMutation.mutate({
+      channel: channel.number,
+      data: { label: label.trim() || null, load: load.trim() || null },
+    });
+  };
+
+  const handleReload = (channel: DeviceChannel) => {
+    const load = window.prompt(
+      `Mark channel ${channel.number} as reloaded. What is loaded now?`,
+      channel.load ?? ''
+    );
+    if (load === null) return;
+    channelMutation.mutate({
+      channel: channel.number,
+      data: { load: load.trim() || null, reloaded: true },
+    });
+  };
+
+  if (!grid) {
+    return <div className="text-xs text-gray-500">Loading channels…</div>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2 text-xs text-gray-600">
+        <span>Channels:</span>
+        {isOwner ? (
+          <select
+            value={grid.channelCount}
+            disabled={countMutation.isPending}
+            onChange={(e) => countMutation.mutate(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded"
+            aria-label="Channel count"
+          >
+            {Array.from({ length: MAX_CHANNELS }, (_, i) => i + 1).map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span>{grid.channelCount}</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 lg:grid-cols-8 gap-2">
+        {grid.channels.map((channel) => {
+          const spent = !!channel.firedAt;
+          return (
+            <div
+              key={channel.number}
+              className={`border rounded p-2 text-xs ${
+                spent ? 'bg-gray-100 border-gray-300 text-gray-500' : channel.load ? 'border-green-400' : 'border-gray-200'
+              }`}
+              title={spent ? `Fired ${new Date(channel.firedAt!).toLocaleString()}` : undefined}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-bold text-gray-900">CH{channel.number}</span>
+                <span className={spent ? 'text-gray-500' : channel.load ? 'text-green-700' : 'text-gray-400'}>
+                  {spent ? 'SPENT' : channel.load ? 'LOADED' : 'EMPTY'}
+                </span>
+              </div>
+              <div className="truncate">{channel.label || '-'}</div>
+              <div className="truncate text-gray-500">{channel.load || 'Nothing loaded'}</div>
+              {!spent && channel.continuityOk !== null && (
+                <div className={channel.continuityOk ? 'text-green-700' : 'text-red-700 font-medium'}>
+                  Continuity {channel.continuityOk ? 'OK' : 'FAILED'}
+                </div>
+              )}
+              <div className="flex flex-wrap gap-1 mt-1">
+                {!spent && (
+                  <>
+                    <button
+                      onClick={() => onFire(channel.number, false)}
+                      className="px-2 py-0.5 bg-red-600 text-white rounded hover:bg-red-700 font-medium"
+                    >
+                      Fire
+                    </button>
+                    <button
+                      onClick={() => onFire(channel.number, true)}
+                      className="px-2 py-0.5 bg-red-100 text-red-700 border border-red-300 rounded hover:bg-red-200 font-medium"
+                      title="Fire at a set time"
+                    >
+                      @
+                    </button>
+                  </>
+                )}
+                {canLoad && (
+                  <>
+                    <button onClick={() => handleEdit(channel)} className="text-gray-600 hover:text-gray-900">
+                      Edit
+                    </button>
+                    {spent && (
+                      <button onClick={() => handleReload(channel)} className="text-blue-600 hover:text-blue-800">
+                        Reload
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ChannelGrid;
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Command, CommandAudit, CommandPriority, CommandStatus, Network } from '../../types';
+import { commandsApi } from '../../api';
+import { useAuth } from '../../contexts/useAuth';
+import { formatErrorMessage } from '../../lib/errors';
+import CommandTimeline from './CommandTimeline';
+
+interface CommandQueueViewProps {
+  network: Network;
+}
+
+type StatusFilter = 'PENDING' | 'ALL';
+
+const PRIORITIES: CommandPriority[] = ['CRITICAL', 'HIGH', 'NORMAL', 'LOW'];
+
+const IGNITION_TYPES = ['MSG_TYPE_IGNITE', 'MSG_TYPE_SET_R'];
+
+const statusStyles: Record<CommandStatus, string> = {
+  AWAITING_COSIGN: 'bg-purple-100 text-purple-800',
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  PROCESSING: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  TIMEOUT: 'bg-orange-100 text-orange-800',
+  CANCELLED: 'bg-gray-100 text-gray-700',
+  ABORTED: 'bg-red-100 text-red-800',
+};
+
+const describeAudit = (audit: CommandAudit) => {
+  const who = audit.user?.name ?? 'Unknown user';
+  const when = new Date(audit.createdAt).toLocaleTimeString();
+  if (audit.action === 'CANCELLED') {
+    return `Cancelled by ${who} at ${when}${audit.reason ? ` (${audit.reason})` : ''}`;
+  }
+  return `${audit.fromValue} → ${audit.toValue} by ${who} at ${when}`;
+};
+
+const CommandQueueView: React.FC<CommandQueueViewProps> = ({ network }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [filter, setFilter] = useState<StatusFilter>('PENDING');
+  const [historyCommandId, setHistoryCommandId] = useState<string | null>(null);
+
+  const isOwner = user?.role === 'MEGA_ADMIN' || user?.id === network.ownerId;
+  const guestPermission = network.guests?.find(g => g.userId === user?.id)?.permission;
+  const canManageIgnition = isOwner || guestPermission === 'COMMANDER';
+
+  const { data: commands = [] } = useQuery({
+    queryKey: ['commands', network.id, filter],
+    queryFn: () => commandsApi.getByNetwork(network.id, filter === 'PENDING' ? 'PENDING' : undefined),
+    refetchInterval: 2000,
+  });
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ['commands', network.id] });
+
+  const cancelMutation = useMutation({
+    mutationFn: ({ commandId, reason }: { commandId: string; reason?: string }) =>
+      commandsApi.cancel(commandId, reason),
+    onSuccess,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to cancel command')),
+  });
+
+  const priorityMutation = useMutation({
+    mutationFn: ({ commandId, priority }: { commandId: string; priority: CommandPriority }) =>
+      commandsApi.reprioritise(commandId, priority),
+    onSuccess,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to change priority')),
+  });
+
+  const canManage = (command: Command) =>
+    !IGNITION_TYPES.includes(command.messageType) || canManageIgnition;
+
+  const handleCancel = (command: Command) => {
+    const label = command.targetDevice?.name || command.targetDevice?.boardId || 'broadcast';
+    const reason = window.prompt(`Cancel ${command.messageType} for ${label}? Optional reason:`, '');
+    if (reason === null) {
+      return;
+    }
+    cancelMutation.mutate({ commandId: command.id, reason: reason.trim() || undefined });
+  };
+
+  return (
+    <div className="h-full overflow-auto bg-white">
+      <div className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Command Queue</h2>
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as StatusFilter)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="PENDING">Pending only</option>
+            <option value="ALL">Last 100 commands</option>
+          </select>
+        </div>
+
+        {commands.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {filter === 'PENDING' ? 'No commands waiting for a base station.' : 'No commands yet.'}
+          </p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Command</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Priority</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {commands.map((command) => {
+                const pending = command.status === 'PENDING';
+                const editable = pending && canManage(command);
+                const isIgnition = IGNITION_TYPES.includes(command.messageType);
+
+                return (
+                  <React.Fragment key={command.id}>
+                    <tr className="align-top">
+                      <td className="px-4 py-3 text-xs text-gray-500 whitespace-nowrap">
+                        {new Date(command.createdAt).toLocaleTimeString()}
+                        <div>{command.creator?.name}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        <span className={isIgnition ? 'font-bold text-red-700' : ''}>
+                          {command.messageType.replace('MSG_TYPE_', '')}
+                        </span>
+                        {command.fireAt && (
+                          <div className="text-xs text-gray-500">
+                            Fires at {new Date(command.fireAt).toLocaleTimeString()}
+                          </div>
+                        )}
+                        {(command.audits ?? []).map((audit) => (
+                          <div key={audit.id} className="text-xs text-gray-500">
+                            {describeAudit(audit)}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500">
+                        {command.targetDevice?.name || command.targetDevice?.boardId || 'Broadcast'}
+                        {command.sourceDevice && (
+                          <div className="text-xs">via {command.sourceDevice.name || command.sourceDevice.boardId}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {editable && !isIgnition ? (
+                          <select
+                            value={command.priority}
+                            disabled={priorityMutation.isPending}
+                            onChange={(e) =>
+                              priorityMutation.mutate({
+                                commandId: command.id,
+                                priority: e.target.value as CommandPriority,
+                              })
+                            }
+                            className="px-2 py-1 border border-gray-300 rounded text-xs"
+                          >
+                            {PRIORITIES.map((priority) => (
+                              <option key={priority} value={priority}>
+                                {priority}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-xs text-gray-700">{command.priority}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[command.status]}`}>
+                          {command.status}
+                        </span>
+                        {command.errorMessage && !pending && (
+                          <div className="text-xs text-gray-500 mt-1">{command.errorMessage}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 space-x-2 whitespace-nowrap">
+                        {editable && (
+                          <button
+                            onClick={() => handleCancel(command)}
+                            disabled={cancelMutation.isPending}
+                            className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50 text-xs font-medium"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setHistoryCommandId(historyCommandId === command.id ? null : command.id)}
+                          className="text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          {historyCommandId === command.id ? 'Hide history' : 'History'}
+                        </button>
+                      </td>
+                    </tr>
+                    {historyCommandId === command.id && (
+                      <tr>
+                        <td colSpan={6} className="px-4 py-3 bg-gray-50">
+                          <CommandTimeline commandId={command.id} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommandQueueView;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { CommandEvent } from '../../types';
+import { commandsApi } from '../../api';
+import MessageDataView from './MessageDataView';
+
+interface CommandTimelineProps {
+  commandId: string;
+}
+
+const describeActor = (event: CommandEvent) => {
+  if (event.actor === 'USER') {
+    return event.user?.name ?? 'Unknown user';
+  }
+  if (event.actor === 'BASE_STATION') {
+    return event.baseStation?.name || event.baseStation?.boardId || 'Base station';
+  }
+  return 'System';
+};
+
+const describeTransition = (event: CommandEvent) => {
+  if (!event.fromStatus) {
+    return `Created as ${event.toStatus}`;
+  }
+  return event.fromStatus === event.toStatus ? event.toStatus : `${event.fromStatus} → ${event.toStatus}`;
+};
+
+// Every state change of one command, oldest first
+const CommandTimeline: React.FC<CommandTimelineProps> = ({ commandId }) => {
+  const { data: events, isLoading } = useQuery({
+    queryKey: ['commandEvents', commandId],
+    queryFn: () => commandsApi.getEvents(commandId),
+    refetchInterval: 2000,
+  });
+
+  if (isLoading) {
+    return <div className="text-xs text-gray-500">Loading history…</div>;
+  }
+
+  if (!events || events.length === 0) {
+    return <div className="text-xs text-gray-500">No history recorded for this command.</div>;
+  }
+
+  return (
+    <ol className="space-y-1 text-xs">
+      {events.map((event) => (
+        <li key={event.id} className="flex space-x-3">
+          <span className="w-24 shrink-0 text-gray-500">
+            {new Date(event.createdAt).toLocaleTimeString([], { hour12: false })}.
+            {String(new Date(event.createdAt).getMilliseconds()).padStart(3, '0')}
+          </span>
+          <span className="w-56 shrink-0 font-medium text-gray-900">{describeTransition(event)}</span>
+          <span className="w-32 shrink-0 text-gray-600">{describeActor(event)}</span>
+          <span className="text-gray-600">
+            {event.message}
+            {event.actor !== 'BASE_STATION' && event.baseStation && (
+              <span className="text-gray-400"> ({event.baseStation.name || event.baseStation.boardId})</span>
+            )}
+            {event.data && Object.keys(event.data).length > 0 && (
+              <div>
+                <MessageDataView data={event.data} />
+              </div>
+            )}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default CommandTimeline;
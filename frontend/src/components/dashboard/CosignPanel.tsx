@@ -0,0 +1,134 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { CosignRequest, Network } from '../../types';
+import { cosignApi } from '../../api';
+import { useAuth } from '../../contexts/useAuth';
+import { formatErrorMessage } from '../../lib/errors';
+
+interface CosignPanelProps {
+  network: Network;
+}
+
+const secondsUntil = (iso: string) => Math.max(0, Math.ceil((new Date(iso).getTime() - Date.now()) / 1000));
+
+const describeTargets = (request: CosignRequest) =>
+  (request.commands ?? [])
+    .map(c => c.targetDevice?.name || c.targetDevice?.boardId)
+    .filter(Boolean)
+    .join(', ');
+
+// Ignitions and show starts held until a second person approves them
+const CosignPanel: React.FC<CosignPanelProps> = ({ network }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const isOwner = user?.role === 'MEGA_ADMIN' || user?.id === network.ownerId;
+  const guestPermission = network.guests?.find(g => g.userId === user?.id)?.permission;
+  const canCosign = isOwner || guestPermission === 'COMMANDER';
+
+  const { data: requests = [] } = useQuery({
+    queryKey: ['cosignRequests', network.id],
+    queryFn: () => cosignApi.getByNetwork(network.id),
+    refetchInterval: 2000,
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ['cosignRequests', network.id] });
+    queryClient.invalidateQueries({ queryKey: ['armStatus', network.id] });
+    queryClient.invalidateQueries({ queryKey: ['commands', network.id] });
+    queryClient.invalidateQueries({ queryKey: ['shows', network.id] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: (requestId: string) => cosignApi.approve(requestId),
+    onSuccess,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to approve request')),
+  });
+
+  const denyMutation = useMutation({
+    mutationFn: ({ requestId, reason }: { requestId: string; reason?: string }) => cosignApi.deny(requestId, reason),
+    onSuccess,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to deny request')),
+  });
+
+  const handleApprove = (request: CosignRequest) => {
+    if (confirm(`Approve: ${request.summary}?`)) {
+      approveMutation.mutate(request.id);
+    }
+  };
+
+  const handleDeny = (request: CosignRequest) => {
+    const reason = window.prompt(`Deny "${request.summary}"? Reason (optional):`, '');
+    if (reason !== null) {
+      denyMutation.mutate({ requestId: request.id, reason: reason.trim() || undefined });
+    }
+  };
+
+  const handleWithdraw = (request: CosignRequest) => {
+    if (confirm(`Withdraw "${request.summary}"?`)) {
+      denyMutation.mutate({ requestId: request.id });
+    }
+  };
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  const busy = approveMutation.isPending || denyMutation.isPending;
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200 px-6 py-3">
+      <h2 className="text-sm font-semibold text-yellow-900 mb-2">Awaiting co-sign ({requests.length})</h2>
+      <div className="space-y-2">
+        {requests.map((request) => {
+          const isRequester = request.requestedById === user?.id;
+          const targets = describeTargets(request);
+          return (
+            <div key={request.id} className="bg-white rounded border border-yellow-100 p-3 text-sm">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium text-gray-900">{request.summary}</div>
+                  <div className="text-xs text-gray-500">
+                    Requested by {request.requestedBy?.name ?? 'Unknown user'}
+                    {targets && ` • ${targets}`}
+                    {` • expires in ${secondsUntil(request.expiresAt)}s`}
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  {canCosign && !isRequester && (
+                    <>
+                      <button
+                        onClick={() => handleApprove(request)}
+                        disabled={busy}
+                        className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 text-xs font-medium"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleDeny(request)}
+                        disabled={busy}
+                        className="px-3 py-1 bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50 text-xs font-medium"
+                      >
+                        Deny
+                      </button>
+                    </>
+                  )}
+                  {isRequester && (
+                    <button
+                      onClick={() => handleWithdraw(request)}
+                      disabled={busy}
+                      className="px-3 py-1 bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 disabled:opacity-50 text-xs font-medium"
+                    >
+                      Withdraw
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CosignPanel;
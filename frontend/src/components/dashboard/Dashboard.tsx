@@ -1,11 +1,18 @@
 import React, { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useParams } from 'react-router-dom';
-import { networksApi, devicesApi } from '../../api';
+import { networksApi, devicesApi, groupsApi } from '../../api';
 import MapView from './MapView';
 import ListView from './ListView';
+import DiscoveryInbox from './DiscoveryInbox';
+import ArmPanel from './ArmPanel';
+import CosignPanel from './CosignPanel';
+import EmergencyStopButton from './EmergencyStopButton';
+import ShowsView from './ShowsView';
+import CommandQueueView from './CommandQueueView';
+import ReadinessView from './ReadinessView';
 
-type ViewMode = 'map' | 'list';
+type ViewMode = 'map' | 'list' | 'shows' | 'readiness' | 'queue';
 
 const Dashboard: React.FC = () => {
   const { networkId } = useParams<{ networkId: string }>();
@@ -24,6 +31,12 @@ const Dashboard: React.FC = () => {
     refetchInterval: 5000, // Poll every 5 seconds for updates
   });
 
+  const { data: groups = [] } = useQuery({
+    queryKey: ['deviceGroups', networkId],
+    queryFn: () => groupsApi.getByNetwork(networkId!),
+    enabled: !!networkId,
+  });
+
   const isLoading = networkLoading || devicesLoading;
 
   if (isLoading) {
@@ -58,6 +71,8 @@ const Dashboard: React.FC = () => {
           </div>
 
           <div className="flex items-center space-x-4">
+            <EmergencyStopButton network={network} />
+
             {/* View Toggle */}
             <div className="inline-flex rounded-lg border border-gray-200 bg-white">
               <button
@@ -72,7 +87,7 @@ const Dashboard: React.FC = () => {
               </button>
               <button
                 onClick={() => setViewMode('list')}
-                className={`px-4 py-2 text-sm font-medium rounded-r-lg transition-colors ${
+                className={`px-4 py-2 text-sm font-medium transition-colors ${
                   viewMode === 'list'
                     ? 'bg-blue-600 text-white'
                     : 'text-gray-700 hover:bg-gray-50'
@@ -80,6 +95,36 @@ const Dashboard: React.FC = () => {
               >
                 List View
               </button>
+              <button
+                onClick={() => setViewMode('shows')}
+                className={`px-4 py-2 text-sm font-medium transition-colors ${
+                  viewMode === 'shows'
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                Shows
+              </button>
+              <button
+                onClick={() => setViewMode('readiness')}
+                className={`px-4 py-2 text-sm font-medium transition-colors ${
+                  viewMode === 'readiness'
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                Readiness
+              </button>
+              <button
+                onClick={() => setViewMode('queue')}
+                className={`px-4 py-2 text-sm font-medium rounded-r-lg transition-colors ${
+                  viewMode === 'queue'
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                Queue
+              </button>
             </div>
 
             <button
@@ -92,13 +137,19 @@ const Dashboard: React.FC = () => {
         </div>
       </header>
 
+      <ArmPanel network={network} />
+
+      <CosignPanel network={network} />
+
+      <DiscoveryInbox network={network} />
+
       {/* Content */}
       <div className="flex-1 overflow-hidden">
-        {viewMode === 'map' ? (
-          <MapView devices={devices} network={network} />
-        ) : (
-          <ListView devices={devices} network={network} />
-        )}
+        {viewMode === 'map' && <MapView devices={devices} network={network} groups={groups} />}
+        {viewMode === 'list' && <ListView devices={devices} network={network} groups={groups} />}
+        {viewMode === 'shows' && <ShowsView devices={devices} network={network} groups={groups} />}
+        {viewMode === 'readiness' && <ReadinessView network={network} />}
+        {viewMode === 'queue' && <CommandQueueView network={network} />}
       </div>
     </div>
   );
@@ -0,0 +1,50 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Device, DeviceGroup, Network } from '../../types';
+import { groupsApi } from '../../api';
+import { formatErrorMessage } from '../../lib/errors';
+
+interface DeviceGroupSelectProps {
+  network: Network;
+  device: Device;
+  groups: DeviceGroup[];
+}
+
+// Moves one device between groups; owners only
+const DeviceGroupSelect: React.FC<DeviceGroupSelectProps> = ({ network, device, groups }) => {
+  const queryClient = useQueryClient();
+
+  const assignMutation = useMutation({
+    mutationFn: (groupId: string) =>
+      groupId
+        ? groupsApi.updateMembers(network.id, groupId, { add: [device.id] })
+        : groupsApi.updateMembers(network.id, device.groupId!, { remove: [device.id] }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['devices', network.id] });
+      queryClient.invalidateQueries({ queryKey: ['deviceGroups', network.id] });
+    },
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to change group')),
+  });
+
+  const current = groups.find(g => g.id === device.groupId);
+
+  return (
+    <select
+      value={device.groupId ?? ''}
+      disabled={assignMutation.isPending}
+      onChange={(e) => assignMutation.mutate(e.target.value)}
+      className="px-2 py-1 border rounded text-xs"
+      style={{ borderColor: current?.color ?? '#d1d5db' }}
+      aria-label={`Group of ${device.name || device.boardId}`}
+    >
+      <option value="">No group</option>
+      {groups.map((group) => (
+        <option key={group.id} value={group.id}>
+          {group.name}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default DeviceGroupSelect;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { DeviceGroup, Network } from '../../types';
+import { groupsApi } from '../../api';
+import { formatErrorMessage } from '../../lib/errors';
+
+interface DeviceGroupsPanelProps {
+  network: Network;
+  groups: DeviceGroup[];
+  isOwner: boolean;
+  selectedDeviceIds: string[];
+}
+
+const DEFAULT_COLOR = '#2563eb';
+
+const DeviceGroupsPanel: React.FC<DeviceGroupsPanelProps> = ({ network, groups, isOwner, selectedDeviceIds }) => {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(DEFAULT_COLOR);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['deviceGroups', network.id] });
+    queryClient.invalidateQueries({ queryKey: ['devices', network.id] });
+    queryClient.invalidateQueries({ queryKey: ['diagnosticSchedules', network.id] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => groupsApi.create(network.id, { name: name.trim(), color }),
+    onSuccess: () => {
+      setName('');
+      refresh();
+    },
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to create group')),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ groupId, data }: { groupId: string; data: { name?: string; color?: string } }) =>
+      groupsApi.update(network.id, groupId, data),
+    onSuccess: refresh,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to update group')),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (groupId: string) => groupsApi.delete(network.id, groupId),
+    onSuccess: refresh,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to delete group')),
+  });
+
+  const addSelectedMutation = useMutation({
+    mutationFn: (groupId: string) => groupsApi.updateMembers(network.id, groupId, { add: selectedDeviceIds }),
+    onSuccess: refresh,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to add devices to group')),
+  });
+
+  const handleRename = (group: DeviceGroup) => {
+    const newName = window.prompt('Group name:', group.name);
+    if (newName?.trim() && newName.trim() !== group.name) {
+      updateMutation.mutate({ groupId: group.id, data: { name: newName.trim() } });
+    }
+  };
+
+  if (groups.length === 0 && !isOwner) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-lg p-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium text-gray-700">Groups:</span>
+        {groups.map((group) => (
+          <span
+            key={group.id}
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-full border text-xs"
+            style={{ borderColor: group.color }}
+          >
+            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: group.color }} />
+            <span className="text-gray-900">{group.name}</span>
+            <span className="text-gray-500">({group._count?.devices ?? 0})</span>
+            {isOwner && (
+              <>
+                {selectedDeviceIds.length > 0 && (
+                  <button
+                    onClick={() => addSelectedMutation.mutate(group.id)}
+                    disabled={addSelectedMutation.isPending}
+                    className="ml-1 text-blue-600 hover:text-blue-800"
+                    title="Move the selected devices into this group"
+                  >
+                    + selected
+                  </button>
+                )}
+                <input
+                  type="color"
+                  value={group.color}
+                  onChange={(e) => updateMutation.mutate({ groupId: group.id, data: { color: e.target.value } })}
+                  className="h-4 w-4 cursor-pointer border-0 p-0"
+                  aria-label={`Colour of ${group.name}`}
+                />
+                <button onClick={() => handleRename(group)} className="text-gray-500 hover:text-gray-900">
+                  Rename
+                </button>
+                <button
+                  onClick={() => confirm(`Delete group "${group.name}"? Its devices become ungrouped and its diagnostic schedules are removed.`) && deleteMutation.mutate(group.id)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  ×
+                </button>
+              </>
+            )}
+          </span>
+        ))}
+        {groups.length === 0 && <span className="text-xs text-gray-500">No groups yet</span>}
+
+        {isOwner && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+            className="ml-auto flex items-center gap-2"
+          >
+            <input
+              type="text"
+              required
+              maxLength={50}
+              placeholder="New group, e.g. Barge 1"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-xs"
+            />
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="h-6 w-6 cursor-pointer border-0 p-0"
+              aria-label="New group colour"
+            />
+            <button
+              type="submit"
+              disabled={createMutation.isPending}
+              className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 text-xs font-medium"
+            >
+              Add group
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeviceGroupsPanel;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { CommandPriority, DeviceGroup, DiagnosticSchedule, MessageType, Network } from '../../types';
+import { diagnosticsApi } from '../../api';
+import { formatErrorMessage } from '../../lib/errors';
+
+interface DiagnosticsPanelProps {
+  network: Network;
+  groups: DeviceGroup[];
+  isOwner: boolean;
+}
+
+const DIAGNOSTIC_TYPES: { messageType: MessageType; label: string }[] = [
+  { messageType: 'MSG_TYPE_PING', label: 'Ping roll-call' },
+  { messageType: 'MSG_TYPE_BATT', label: 'Battery check' },
+  { messageType: 'MSG_TYPE_GPS', label: 'GPS fix' },
+  { messageType: 'MSG_TYPE_CONT', label: 'Continuity test' },
+];
+
+const describeInterval = (seconds: number) =>
+  seconds % 60 === 0 ? `every ${seconds / 60} min` : `every ${seconds}s`;
+
+// Recurring PING/BATT/GPS/CONT rounds queued by the server, paused while armed or during a show
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ network, groups, isOwner }) => {
+  const queryClient = useQueryClient();
+  const [messageType, setMessageType] = useState<MessageType>('MSG_TYPE_BATT');
+  const [minutes, setMinutes] = useState('10');
+  const [groupId, setGroupId] = useState('');
+  const [priority, setPriority] = useState<CommandPriority>('LOW');
+
+  const { data: schedules = [] } = useQuery({
+    queryKey: ['diagnosticSchedules', network.id],
+    queryFn: () => diagnosticsApi.getByNetwork(network.id),
+    refetchInterval: 10000,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['diagnosticSchedules', network.id] });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      diagnosticsApi.create(network.id, {
+        messageType,
+        intervalSeconds: Math.round(Number(minutes) * 60),
+        priority,
+        groupId: groupId || null,
+      }),
+    onSuccess: refresh,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to create schedule')),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ scheduleId, enabled }: { scheduleId: string; enabled: boolean }) =>
+      diagnosticsApi.update(network.id, scheduleId, { enabled }),
+    onSuccess: refresh,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to update schedule')),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (scheduleId: string) => diagnosticsApi.delete(network.id, scheduleId),
+    onSuccess: refresh,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to delete schedule')),
+  });
+
+  const labelOf = (schedule: DiagnosticSchedule) =>
+    DIAGNOSTIC_TYPES.find((t) => t.messageType === schedule.messageType)?.label ?? schedule.messageType;
+
+  if (schedules.length === 0 && !isOwner) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 border border-gray-200 rounded-lg p-3">
+      <div className="text-sm font-medium text-gray-700 mb-2">
+        Automatic diagnostics
+        <span className="ml-2 text-xs font-normal text-gray-500">Skipped while the network is armed or a show is running</span>
+      </div>
+
+      {schedules.length === 0 && <div className="text-xs text-gray-500 mb-2">No schedules yet</div>}
+      <ul className="space-y-1 text-xs mb-2">
+        {schedules.map((schedule) => (
+          <li key={schedule.id} className="flex flex-wrap items-center gap-2">
+            <span className={schedule.enabled ? 'font-medium text-gray-900' : 'text-gray-400 line-through'}>
+              {labelOf(schedule)} {describeInterval(schedule.intervalSeconds)}
+            </span>
+            <span className="text-gray-500">
+              {schedule.group ? `group ${schedule.group.name}` : 'all field units'} • {schedule.priority}
+            </span>
+            {schedule.lastRunAt && (
+              <span className="text-gray-500" title={new Date(schedule.lastRunAt).toLocaleString()}>
+                • last run {new Date(schedule.lastRunAt).toLocaleTimeString()}: {schedule.lastResult ?? '…'}
+              </span>
+            )}
+            {isOwner && (
+              <>
+                <button
+                  onClick={() => updateMutation.mutate({ scheduleId: schedule.id, enabled: !schedule.enabled })}
+                  disabled={updateMutation.isPending}
+                  className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  {schedule.enabled ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() =>
+                    confirm(`Delete the ${labelOf(schedule).toLowerCase()} schedule?`) && deleteMutation.mutate(schedule.id)
+                  }
+                  className="text-red-600 hover:text-red-800"
+                >
+                  ×
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {isOwner && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+          className="flex flex-wrap items-center gap-2 text-xs"
+        >
+          <select
+            value={messageType}
+            onChange={(e) => setMessageType(e.target.value as MessageType)}
+            className="px-2 py-1 border border-gray-300 rounded"
+            aria-label="Diagnostic"
+          >
+            {DIAGNOSTIC_TYPES.map((t) => (
+              <option key={t.messageType} value={t.messageType}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+          <span className="text-gray-600">every</span>
+          <input
+            type="number"
+            required
+            min={0.5}
+            max={1440}
+            step={0.5}
+            value={minutes}
+            onChange={(e) => setMinutes(e.target.value)}
+            className="w-16 px-2 py-1 border border-gray-300 rounded"
+            aria-label="Interval in minutes"
+          />
+          <span className="text-gray-600">min for</span>
+          <select
+            value={groupId}
+            onChange={(e) => setGroupId(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded"
+            aria-label="Target"
+          >
+            <option value="">All field units</option>
+            {groups.map((group) => (
+              <option key={group.id} value={group.id}>
+                {group.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as CommandPriority)}
+            className="px-2 py-1 border border-gray-300 rounded"
+            aria-label="Priority"
+          >
+            <option value="LOW">LOW</option>
+            <option value="NORMAL">NORMAL</option>
+          </select>
+          <button
+            type="submit"
+            disabled={createMutation.isPending}
+            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 font-medium"
+          >
+            Add schedule
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
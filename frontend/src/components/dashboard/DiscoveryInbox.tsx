@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Discovery, Network } from '../../types';
+import { devicesApi } from '../../api';
+import { useAuth } from '../../contexts/useAuth';
+import { formatErrorMessage } from '../../lib/errors';
+
+interface DiscoveryInboxProps {
+  network: Network;
+}
+
+type ApproveFormData = {
+  name: string;
+  latitude: string;
+  longitude: string;
+};
+
+const toOptionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const DiscoveryInbox: React.FC<DiscoveryInboxProps> = ({ network }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const isOwner = user?.role === 'MEGA_ADMIN' || user?.id === network.ownerId;
+  const [approvingId, setApprovingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<ApproveFormData>({ name: '', latitude: '', longitude: '' });
+
+  const { data: discoveries = [] } = useQuery({
+    queryKey: ['discoveries', network.id],
+    queryFn: () => devicesApi.getDiscoveries(network.id),
+    refetchInterval: 5000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['discoveries', network.id] });
+    queryClient.invalidateQueries({ queryKey: ['devices', network.id] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: ({ deviceId, data }: { deviceId: string; data: ApproveFormData }) =>
+      devicesApi.approve(deviceId, {
+        name: data.name,
+        latitude: toOptionalNumber(data.latitude),
+        longitude: toOptionalNumber(data.longitude),
+      }),
+    onSuccess: () => {
+      setApprovingId(null);
+      invalidate();
+    },
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to approve device')),
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ deviceId, block }: { deviceId: string; block: boolean }) =>
+      devicesApi.reject(deviceId, { block }),
+    onSuccess: invalidate,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to reject device')),
+  });
+
+  const startApprove = (discovery: Discovery) => {
+    setApprovingId(discovery.id);
+    setFormData({
+      name: discovery.name || '',
+      latitude: discovery.latitude != null ? String(discovery.latitude) : '',
+      longitude: discovery.longitude != null ? String(discovery.longitude) : '',
+    });
+  };
+
+  const handleReject = (discovery: Discovery, block: boolean) => {
+    const action = block ? 'Block' : 'Reject';
+    if (confirm(`${action} ${discovery.boardId}?${block ? ' It will not be discovered again.' : ''}`)) {
+      rejectMutation.mutate({ deviceId: discovery.id, block });
+    }
+  };
+
+  if (discoveries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-blue-50 border-b border-blue-200 px-6 py-3">
+      <h2 className="text-sm font-semibold text-blue-900 mb-2">
+        Discovered devices awaiting approval ({discoveries.length})
+      </h2>
+      <div className="space-y-2">
+        {discoveries.map((discovery) => (
+          <div key={discovery.id} className="bg-white rounded border border-blue-100 p-3 text-sm">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium text-gray-900">{discovery.boardId}</div>
+                <div className="text-xs text-gray-500">
+                  First seen {new Date(discovery.createdAt).toLocaleString()}
+                  {discovery.firstTelemetry && (
+                    <>
+                      {' • '}
+                      {discovery.firstTelemetry.messageType}
+                      {discovery.firstTelemetry.batteryVoltage != null &&
+                        ` • ${discovery.firstTelemetry.batteryVoltage}V`}
+                      {discovery.firstTelemetry.rssi != null && ` • RSSI ${discovery.firstTelemetry.rssi}`}
+                    </>
+                  )}
+                  {discovery.heardByStations && discovery.heardByStations.length > 0 && (
+                    <>
+                      {' • heard by '}
+                      {discovery.heardByStations
+                        .map(link => link.baseStation?.name || link.baseStation?.boardId)
+                        .join(', ')}
+                    </>
+                  )}
+                </div>
+              </div>
+              {isOwner && approvingId !== discovery.id && (
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => startApprove(discovery)}
+                    className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 text-xs font-medium"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => handleReject(discovery, false)}
+                    className="px-3 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 text-xs font-medium"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => handleReject(discovery, true)}
+                    className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 text-xs font-medium"
+                  >
+                    Block
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {approvingId === discovery.id && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  approveMutation.mutate({ deviceId: discovery.id, data: formData });
+                }}
+                className="mt-3 flex items-center space-x-2"
+              >
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                  placeholder="Name"
+                />
+                <input
+                  type="number"
+                  step="any"
+                  value={formData.latitude}
+                  onChange={(e) => setFormData({ ...formData, latitude: e.target.value })}
+                  className="w-32 px-2 py-1 border border-gray-300 rounded text-sm"
+                  placeholder="Latitude"
+                />
+                <input
+                  type="number"
+                  step="any"
+                  value={formData.longitude}
+                  onChange={(e) => setFormData({ ...formData, longitude: e.target.value })}
+                  className="w-32 px-2 py-1 border border-gray-300 rounded text-sm"
+                  placeholder="Longitude"
+                />
+                <button
+                  type="submit"
+                  disabled={approveMutation.isPending}
+                  className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 text-xs font-medium disabled:opacity-50"
+                >
+                  Confirm
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setApprovingId(null)}
+                  className="px-3 py-1 bg-gray-300 text-gray-700 rounded hover:bg-gray-400 text-xs font-medium"
+                >
+                  Cancel
+                </button>
+              </form>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DiscoveryInbox;
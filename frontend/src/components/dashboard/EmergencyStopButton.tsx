@@ -0,0 +1,52 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Network } from '../../types';
+import { networksApi } from '../../api';
+import { useAuth } from '../../contexts/useAuth';
+import { formatErrorMessage } from '../../lib/errors';
+
+interface EmergencyStopButtonProps {
+  network: Network;
+}
+
+const EmergencyStopButton: React.FC<EmergencyStopButtonProps> = ({ network }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const isOwner = user?.role === 'MEGA_ADMIN' || user?.id === network.ownerId;
+  const guestPermission = network.guests?.find(g => g.userId === user?.id)?.permission;
+  const canStop = isOwner || guestPermission === 'COMMANDER' || guestPermission === 'SAFETY_OFFICER';
+
+  const stopMutation = useMutation({
+    mutationFn: () => networksApi.emergencyStop(network.id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['armStatus', network.id] });
+      queryClient.invalidateQueries({ queryKey: ['devices', network.id] });
+      alert(
+        `EMERGENCY STOP issued.\n` +
+          `${result.cancelledCommands} queued command(s) cancelled, ` +
+          `${result.abortedCommands} in-flight command(s) aborted, ` +
+          `${result.baseStationsNotified} base station(s) told to stop, ` +
+          `${result.abortedShows} show(s) aborted.`
+      );
+    },
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'EMERGENCY STOP FAILED - act manually')),
+  });
+
+  if (!canStop) {
+    return null;
+  }
+
+  // No confirmation dialog: stopping must be a single click
+  return (
+    <button
+      onClick={() => stopMutation.mutate()}
+      disabled={stopMutation.isPending}
+      className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 text-lg font-extrabold tracking-wide shadow-lg border-2 border-red-800"
+    >
+      {stopMutation.isPending ? 'STOPPING…' : 'E-STOP'}
+    </button>
+  );
+};
+
+export default EmergencyStopButton;
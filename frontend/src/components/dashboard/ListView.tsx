@@ -1,40 +1,51 @@
-import React from 'react';
-import type { Device, Network, MessageType, CommandPriority } from '../../types';
-import { commandsApi } from '../../api';
+import React, { useState } from 'react';
+import type { Device, DeviceGroup, Network, MessageType, CommandPriority, InterlockFailure } from '../../types';
+import { commandsApi, devicesApi } from '../../api';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../../contexts/useAuth';
+import { formatErrorMessage, getInterlockFailures } from '../../lib/errors';
+import BatchCommandBar from './BatchCommandBar';
+import DeviceGroupsPanel from './DeviceGroupsPanel';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import DeviceGroupSelect from './DeviceGroupSelect';
+import ChannelGrid from './ChannelGrid';
 
 interface ListViewProps {
   devices: Device[];
   network: Network;
+  groups: DeviceGroup[];
 }
 
-type ApiError = {
-  response?: {
-    data?: {
-      error?: unknown;
-    };
-  };
-};
+const GroupBadge: React.FC<{ group?: DeviceGroup }> = ({ group }) =>
+  group ? (
+    <span className="inline-flex items-center gap-1 text-xs">
+      <span className="h-3 w-3 rounded-full" style={{ backgroundColor: group.color }} />
+      {group.name}
+    </span>
+  ) : (
+    <span className="text-xs text-gray-400">-</span>
+  );
 
-const isApiError = (error: unknown): error is ApiError => {
-  return typeof error === 'object' && error !== null && 'response' in error;
-};
+const ListView: React.FC<ListViewProps> = ({ devices, network, groups }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const isOwner = user?.role === 'MEGA_ADMIN' || user?.id === network.ownerId;
+  const guestPermission = network.guests?.find(g => g.userId === user?.id)?.permission;
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [channelsDeviceId, setChannelsDeviceId] = useState<string | null>(null);
 
-const formatErrorMessage = (error: unknown, fallback: string) => {
-  if (isApiError(error)) {
-    const message = error.response?.data?.error;
-    return typeof message === 'string' ? message : fallback;
-  }
-  return fallback;
-};
+  const selectableUnits = devices.filter(d => d.deviceType === 'FIELD_UNIT' && d.approval !== 'PENDING');
+  const allSelected = selectableUnits.length > 0 && selectableUnits.every(d => selectedIds.includes(d.id));
 
-const ListView: React.FC<ListViewProps> = ({ devices, network }) => {
-  const queryClient = useQueryClient();
+  const toggleSelected = (deviceId: string) => {
+    setSelectedIds(ids => (ids.includes(deviceId) ? ids.filter(id => id !== deviceId) : [...ids, deviceId]));
+  };
 
   const sendCommandMutation = useMutation({
     mutationFn: commandsApi.create,
-    onSuccess: () => {
+    onSuccess: (command) => {
       queryClient.invalidateQueries({ queryKey: ['devices', network.id] });
+      queryClient.invalidateQueries({ queryKey: ['deviceChannels', command.targetDeviceId] });
     },
   });
 
@@ -56,10 +67,89 @@ const ListView: React.FC<ListViewProps> = ({ devices, network }) => {
     }
   };
 
-  const handleIgnite = async (device: Device) => {
-    if (confirm(`Are you sure you want to IGNITE ${device.name || device.boardId}?`)) {
-      await sendDeviceCommand(device, 'MSG_TYPE_IGNITE', 'CRITICAL', 'Ignition command sent!');
+  // Owners may fire past overridable interlocks, but only with a written justification
+  const promptInterlockOverride = (device: Device, failures: InterlockFailure[]) => {
+    const summary = failures.map(f => `- ${f.message}`).join('\n');
+    const label = device.name || device.boardId;
+
+    if (!isOwner || failures.some(f => !f.overridable)) {
+      alert(`Ignition blocked for ${label}:\n${summary}`);
+      return null;
+    }
+
+    const justification = window.prompt(
+      `Ignition blocked for ${label}:\n${summary}\n\nTo override, enter a justification (logged):`
+    );
+    if (!justification?.trim()) {
+      return null;
+    }
+    return failures.map(f => ({ check: f.check, justification: justification.trim() }));
+  };
+
+  const handleIgnite = async (device: Device, fireAt?: string, channel = 1) => {
+    const label = (device.channelCount ?? 1) > 1 ? `${device.name || device.boardId} channel ${channel}` : device.name || device.boardId;
+    const question = fireAt
+      ? `Are you sure you want to IGNITE ${label} at ${new Date(fireAt).toLocaleTimeString()}?`
+      : `Are you sure you want to IGNITE ${label}?`;
+    if (!confirm(question)) {
+      return;
+    }
+
+    try {
+      const command = await sendCommandMutation.mutateAsync({
+        targetDeviceId: device.id,
+        messageType: 'MSG_TYPE_IGNITE',
+        priority: 'CRITICAL',
+        payload: { channel },
+        fireAt,
+      });
+      if (command.status === 'AWAITING_COSIGN') {
+        alert('Ignition is waiting for a second person to approve it');
+      } else {
+        alert(fireAt ? 'Ignition scheduled!' : 'Ignition command sent!');
+      }
+    } catch (error: unknown) {
+      const failures = getInterlockFailures(error);
+      if (!failures) {
+        alert(formatErrorMessage(error, 'Failed to send command'));
+        return;
+      }
+
+      const overrides = promptInterlockOverride(device, failures);
+      if (!overrides) {
+        return;
+      }
+      try {
+        const command = await sendCommandMutation.mutateAsync({
+          targetDeviceId: device.id,
+          messageType: 'MSG_TYPE_IGNITE',
+          priority: 'CRITICAL',
+          payload: { channel },
+          fireAt,
+          overrides,
+        });
+        alert(
+          command.status === 'AWAITING_COSIGN'
+            ? 'Ignition (with interlock override) is waiting for a second person to approve it'
+            : 'Ignition command sent with interlock override!'
+        );
+      } catch (retryError: unknown) {
+        alert(formatErrorMessage(retryError, 'Failed to send command'));
+      }
+    }
+  };
+
+  const handleScheduledIgnite = async (device: Device, channel?: number) => {
+    const input = window.prompt('Fire in how many seconds?', '10');
+    if (input === null) {
+      return;
+    }
+    const seconds = Number(input);
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      alert('Enter a positive number of seconds');
+      return;
     }
+    await handleIgnite(device, new Date(Date.now() + seconds * 1000).toISOString(), channel);
   };
 
   const handleBatteryCheck = async (device: Device) => {
@@ -74,6 +164,37 @@ const ListView: React.FC<ListViewProps> = ({ devices, network }) => {
     await sendDeviceCommand(device, 'MSG_TYPE_PING', 'NORMAL', 'Ping sent');
   };
 
+  const handleRotateKey = async (device: Device) => {
+    if (!confirm(`Issue a new gateway secret for ${device.name || device.boardId}? The old secret stops working immediately.`)) {
+      return;
+    }
+    try {
+      const credential = await devicesApi.rotateCredentials(device.id);
+      window.prompt('New gateway secret. Copy it now - it will not be shown again:', credential.gatewaySecret);
+      queryClient.invalidateQueries({ queryKey: ['devices', network.id] });
+    } catch (error: unknown) {
+      alert(formatErrorMessage(error, 'Failed to rotate gateway secret'));
+    }
+  };
+
+  const handleRevokeKey = async (device: Device) => {
+    if (!confirm(`Revoke gateway access for ${device.name || device.boardId}?`)) {
+      return;
+    }
+    try {
+      await devicesApi.revokeCredentials(device.id);
+      queryClient.invalidateQueries({ queryKey: ['devices', network.id] });
+    } catch (error: unknown) {
+      alert(formatErrorMessage(error, 'Failed to revoke gateway secret'));
+    }
+  };
+
+  const getKeyStatus = (device: Device) => {
+    if (!device.gatewayCredential) return 'No key issued';
+    if (device.gatewayCredential.revokedAt) return 'Key revoked';
+    return `Key issued ${new Date(device.gatewayCredential.issuedAt).toLocaleDateString()}`;
+  };
+
   const getStatusBadge = (status: Device['status']) => {
     const styles: Record<Device['status'], string> = {
       ONLINE: 'bg-green-100 text-green-800',
@@ -91,16 +212,36 @@ const ListView: React.FC<ListViewProps> = ({ devices, network }) => {
   return (
     <div className="h-full overflow-auto bg-white">
       <div className="p-6">
+        <DeviceGroupsPanel network={network} groups={groups} isOwner={isOwner} selectedDeviceIds={selectedIds} />
+        <BatchCommandBar
+          network={network}
+          groups={groups}
+          selectedDeviceIds={selectedIds}
+          onClearSelection={() => setSelectedIds([])}
+        />
+        <DiagnosticsPanel network={network} groups={groups} isOwner={isOwner} />
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                <th className="pl-6 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    disabled={selectableUnits.length === 0}
+                    onChange={() => setSelectedIds(allSelected ? [] : selectableUnits.map(d => d.id))}
+                    aria-label="Select all field units"
+                  />
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Device
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Type
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Group
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Battery
                 </th>
@@ -120,83 +261,170 @@ const ListView: React.FC<ListViewProps> = ({ devices, network }) => {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {devices.map((device: Device) => (
-                <tr key={device.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">
-                      {device.name || device.boardId}
-                    </div>
-                    <div className="text-xs text-gray-500">{device.boardId}</div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {device.deviceType === 'BASE_STATION' ? 'Base Station' : 'Field Unit'}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {device.batteryPercent !== null && device.batteryPercent !== undefined ? (
-                      <div className="flex items-center">
-                        <div className="w-16 bg-gray-200 rounded-full h-2 mr-2">
-                          <div
-                            className={`h-2 rounded-full ${
-                              device.batteryPercent > 50
-                                ? 'bg-green-500'
-                                : device.batteryPercent > 20
-                                ? 'bg-yellow-500'
-                                : 'bg-red-500'
-                            }`}
-                            style={{ width: `${device.batteryPercent}%` }}
-                          />
-                        </div>
-                        <span>{device.batteryPercent}%</span>
+                <React.Fragment key={device.id}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="pl-6 py-4">
+                      {device.deviceType === 'FIELD_UNIT' && device.approval !== 'PENDING' && (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(device.id)}
+                          onChange={() => toggleSelected(device.id)}
+                          aria-label={`Select ${device.name || device.boardId}`}
+                        />
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {device.name || device.boardId}
                       </div>
-                    ) : (
-                      'N/A'
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {device.latitude && device.longitude ? (
-                      <span className="text-xs">
-                        {device.latitude.toFixed(4)}, {device.longitude.toFixed(4)}
-                      </span>
-                    ) : (
-                      'N/A'
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {device.lastSeen ? new Date(device.lastSeen).toLocaleString() : 'Never'}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    {getStatusBadge(device.status)}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm">
-                    {device.deviceType === 'FIELD_UNIT' && (
-                      <div className="flex space-x-2">
-                        <button
-                          onClick={() => handleIgnite(device)}
-                          className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 text-xs font-medium"
-                        >
-                          IGNITE
-                        </button>
-                        <button
-                          onClick={() => handleBatteryCheck(device)}
-                          className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-xs font-medium"
-                        >
-                          Battery
-                        </button>
-                        <button
-                          onClick={() => handleGPSUpdate(device)}
-                          className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 text-xs font-medium"
-                        >
-                          GPS
-                        </button>
-                        <button
-                          onClick={() => handlePing(device)}
-                          className="px-3 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 text-xs font-medium"
+                      <div className="text-xs text-gray-500">{device.boardId}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {device.deviceType === 'BASE_STATION' ? 'Base Station' : 'Field Unit'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {isOwner ? (
+                        <DeviceGroupSelect network={network} device={device} groups={groups} />
+                      ) : (
+                        <GroupBadge group={groups.find(g => g.id === device.groupId)} />
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {device.batteryPercent !== null && device.batteryPercent !== undefined ? (
+                        <div className="flex items-center">
+                          <div className="w-16 bg-gray-200 rounded-full h-2 mr-2">
+                            <div
+                              className={`h-2 rounded-full ${
+                                device.batteryPercent > 50
+                                  ? 'bg-green-500'
+                                  : device.batteryPercent > 20
+                                  ? 'bg-yellow-500'
+                                  : 'bg-red-500'
+                              }`}
+                              style={{ width: `${device.batteryPercent}%` }}
+                            />
+                          </div>
+                          <span>{device.batteryPercent}%</span>
+                        </div>
+                      ) : (
+                        'N/A'
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {device.latitude && device.longitude ? (
+                        <span className="text-xs">
+                          {device.latitude.toFixed(4)}, {device.longitude.toFixed(4)}
+                        </span>
+                      ) : (
+                        'N/A'
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {device.lastSeen ? new Date(device.lastSeen).toLocaleString() : 'Never'}
+                      {device.clockOffsetMs !== null && device.clockOffsetMs !== undefined && (
+                        <div
+                          className={`text-xs ${Math.abs(device.clockOffsetMs) > 50 ? 'text-orange-600' : 'text-gray-400'}`}
+                          title="Device clock minus server clock"
                         >
-                          Ping
-                        </button>
-                      </div>
-                    )}
-                  </td>
-                </tr>
+                          Clock {device.clockOffsetMs >= 0 ? '+' : ''}
+                          {device.clockOffsetMs} ms
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {getStatusBadge(device.status)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {device.deviceType === 'FIELD_UNIT' && device.approval === 'PENDING' && (
+                        <span className="text-xs text-blue-700">Awaiting approval</span>
+                      )}
+                      {device.deviceType === 'FIELD_UNIT' && device.approval !== 'PENDING' && (
+                        <div className="flex space-x-2">
+                          {/* Multi-channel units fire from the channel grid */}
+                          {(device.channelCount ?? 1) === 1 && (
+                            <>
+                              <button
+                                onClick={() => handleIgnite(device)}
+                                className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 text-xs font-medium"
+                              >
+                                IGNITE
+                              </button>
+                              <button
+                                onClick={() => handleScheduledIgnite(device)}
+                                className="px-3 py-1 bg-red-100 text-red-700 border border-red-300 rounded hover:bg-red-200 text-xs font-medium"
+                                title="Fire at a set time, in sync with other units"
+                              >
+                                IGNITE @
+                              </button>
+                            </>
+                          )}
+                          <button
+                            onClick={() => setChannelsDeviceId(channelsDeviceId === device.id ? null : device.id)}
+                            className="px-3 py-1 bg-white border border-red-300 text-red-700 rounded hover:bg-red-50 text-xs font-medium"
+                          >
+                            Channels ({device.channelCount ?? 1})
+                          </button>
+                          <button
+                            onClick={() => handleBatteryCheck(device)}
+                            className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-xs font-medium"
+                          >
+                            Battery
+                          </button>
+                          <button
+                            onClick={() => handleGPSUpdate(device)}
+                            className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 text-xs font-medium"
+                          >
+                            GPS
+                          </button>
+                          <button
+                            onClick={() => handlePing(device)}
+                            className="px-3 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 text-xs font-medium"
+                          >
+                            Ping
+                          </button>
+                        </div>
+                      )}
+                      {device.deviceType === 'BASE_STATION' && (
+                        <div className="flex items-center space-x-2">
+                          <span className="text-xs text-gray-500">{getKeyStatus(device)}</span>
+                          {isOwner && (
+                            <>
+                              <button
+                                onClick={() => handleRotateKey(device)}
+                                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-xs font-medium"
+                              >
+                                Rotate Key
+                              </button>
+                              {device.gatewayCredential && !device.gatewayCredential.revokedAt && (
+                                <button
+                                  onClick={() => handleRevokeKey(device)}
+                                  className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 text-xs font-medium"
+                                >
+                                  Revoke Key
+                                </button>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                  {channelsDeviceId === device.id && (
+                    <tr>
+                      <td colSpan={9} className="px-6 py-4 bg-gray-50">
+                        <ChannelGrid
+                          network={network}
+                          device={device}
+                          isOwner={isOwner}
+                          canLoad={isOwner || guestPermission === 'COMMANDER'}
+                          onFire={(channel, scheduled) =>
+                            scheduled ? handleScheduledIgnite(device, channel) : handleIgnite(device, undefined, channel)
+                          }
+                        />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
               ))}
             </tbody>
           </table>
@@ -1,13 +1,21 @@
 import React, { useEffect, useRef } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import type { Device, Network } from '../../types';
+import type { Device, DeviceGroup, Network } from '../../types';
+import { useAuth } from '../../contexts/useAuth';
+import DeviceGroupSelect from './DeviceGroupSelect';
 
 interface MapViewProps {
   devices: Device[];
   network: Network;
+  groups: DeviceGroup[];
 }
 
+type ColorMode = 'status' | 'group';
+
+// Marker colour for devices without a group when colouring by group
+const UNGROUPED_COLOR = '#94a3b8';
+
 const statusColorMap: Record<Device['status'], string> = {
   ONLINE: '#16a34a',
   OFFLINE: '#ef4444',
@@ -83,7 +91,14 @@ const TypeLegendIcon: React.FC<{ type: Device['deviceType'] }> = ({ type }) => {
   );
 };
 
-const MapView: React.FC<MapViewProps> = ({ devices }) => {
+const MapView: React.FC<MapViewProps> = ({ devices, network, groups }) => {
+  const { user } = useAuth();
+  const isOwner = user?.role === 'MEGA_ADMIN' || user?.id === network.ownerId;
+  const [colorMode, setColorMode] = React.useState<ColorMode>('status');
+  const [groupFilter, setGroupFilter] = React.useState(''); // '' = all, 'none' = ungrouped, else a group ID
+  const [selectedDeviceId, setSelectedDeviceId] = React.useState<string | null>(null);
+  const selectedDevice = devices.find(d => d.id === selectedDeviceId);
+
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const markersLayerRef = useRef<L.LayerGroup | null>(null);
@@ -185,13 +200,18 @@ const MapView: React.FC<MapViewProps> = ({ devices }) => {
     markersLayer.clearLayers();
 
     const devicesWithCoords = devices.filter(
-      d => d.latitude != null && d.longitude != null
+      d =>
+        d.latitude != null &&
+        d.longitude != null &&
+        (groupFilter === '' || (groupFilter === 'none' ? !d.groupId : d.groupId === groupFilter))
     );
 
     console.log('📍 Adding markers for devices:', devicesWithCoords);
 
     devicesWithCoords.forEach(device => {
-      const color = statusColorMap[device.status] ?? '#94a3b8';
+      const group = groups.find(g => g.id === device.groupId);
+      const statusColor = statusColorMap[device.status] ?? '#94a3b8';
+      const color = colorMode === 'group' ? group?.color ?? UNGROUPED_COLOR : statusColor;
       const isBase = device.deviceType === 'BASE_STATION';
       const size = isBase ? 56 : 44;
       const label = isBase ? 'BASE' : 'ATMG';
@@ -260,8 +280,13 @@ const MapView: React.FC<MapViewProps> = ({ devices }) => {
               <strong>Type:</strong> ${device.deviceType === 'BASE_STATION' ? 'Base Station' : 'Field Unit'}
             </div>
             <div style="font-size: 12px; color: #6b7280; margin-bottom: 4px;">
-              <strong>Status:</strong> <span style="color: ${color}; font-weight: 600;">${device.status}</span>
+              <strong>Status:</strong> <span style="color: ${statusColor}; font-weight: 600;">${device.status}</span>
             </div>
+            ${group ? `
+              <div style="font-size: 12px; color: #6b7280; margin-bottom: 4px;">
+                <strong>Group:</strong> <span style="color: ${group.color}; font-weight: 600;">${group.name}</span>
+              </div>
+            ` : ''}
             ${device.batteryPercent != null ? `
               <div style="font-size: 12px; color: #6b7280;">
                 <strong>Battery:</strong> ${device.batteryPercent}%
@@ -270,6 +295,7 @@ const MapView: React.FC<MapViewProps> = ({ devices }) => {
           </div>
         `);
 
+      marker.on('click', () => setSelectedDeviceId(device.id));
       markersLayer.addLayer(marker);
       console.log(`✅ Added marker for ${device.name} at [${device.latitude}, ${device.longitude}]`);
     });
@@ -282,7 +308,7 @@ const MapView: React.FC<MapViewProps> = ({ devices }) => {
       map.fitBounds(bounds, { padding: [100, 100], maxZoom: 16 });
       console.log('🎯 Fitted bounds to markers');
     }
-  }, [devices]);
+  }, [devices, groups, colorMode, groupFilter]);
 
   return (
     <div className="relative h-full w-full">
@@ -325,6 +351,52 @@ const MapView: React.FC<MapViewProps> = ({ devices }) => {
         </button>
       </div>
 
+      {/* Group colouring and filter */}
+      <div className="absolute top-16 right-4 flex gap-2 z-[1000]">
+        <select
+          value={colorMode}
+          onChange={(e) => setColorMode(e.target.value as ColorMode)}
+          className="px-2 py-2 text-xs font-semibold rounded-lg shadow-lg bg-white/95 text-gray-700"
+          aria-label="Colour markers by"
+        >
+          <option value="status">Colour by status</option>
+          <option value="group">Colour by group</option>
+        </select>
+        <select
+          value={groupFilter}
+          onChange={(e) => setGroupFilter(e.target.value)}
+          className="px-2 py-2 text-xs font-semibold rounded-lg shadow-lg bg-white/95 text-gray-700"
+          aria-label="Show group"
+        >
+          <option value="">All groups</option>
+          {groups.map(group => (
+            <option key={group.id} value={group.id}>
+              {group.name}
+            </option>
+          ))}
+          <option value="none">Ungrouped</option>
+        </select>
+      </div>
+
+      {selectedDevice && (
+        <div className="absolute bottom-4 right-4 w-64 rounded-xl bg-white/95 p-4 shadow-2xl ring-1 ring-black/5 z-[1000]">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-gray-800">{selectedDevice.name || selectedDevice.boardId}</h4>
+            <button onClick={() => setSelectedDeviceId(null)} className="text-xs text-gray-500 hover:text-gray-900">
+              Close
+            </button>
+          </div>
+          <div className="mt-2 flex items-center gap-2 text-xs text-gray-700">
+            <span>Group:</span>
+            {isOwner ? (
+              <DeviceGroupSelect network={network} device={selectedDevice} groups={groups} />
+            ) : (
+              <span>{groups.find(g => g.id === selectedDevice.groupId)?.name ?? 'None'}</span>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="absolute bottom-4 left-4 w-64 rounded-xl bg-white/95 p-4 shadow-2xl ring-1 ring-black/5 z-[1000]">
         <h4 className="text-sm font-semibold text-gray-800">Map Legend</h4>
         <div className="mt-3 space-y-4 text-xs text-gray-700">
@@ -349,9 +421,14 @@ const MapView: React.FC<MapViewProps> = ({ devices }) => {
           </div>
 
           <div>
-            <p className="text-[0.7rem] font-semibold uppercase tracking-wide text-gray-500">Status Colors</p>
+            <p className="text-[0.7rem] font-semibold uppercase tracking-wide text-gray-500">
+              {colorMode === 'group' ? 'Group Colors' : 'Status Colors'}
+            </p>
             <div className="mt-2 grid grid-cols-2 gap-2">
-              {statusLegendItems.map(item => (
+              {(colorMode === 'group'
+                ? [...groups.map(g => ({ label: g.name, color: g.color })), { label: 'Ungrouped', color: UNGROUPED_COLOR }]
+                : statusLegendItems
+              ).map(item => (
                 <div key={item.label} className="flex items-center">
                   <StatusLegendDot color={item.color} />
                   <span>{item.label}</span>
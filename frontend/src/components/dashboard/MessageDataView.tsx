@@ -0,0 +1,40 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { MessageType } from '../../types';
+import { commandsApi } from '../../api';
+import { formatFieldValue } from '../../lib/messageFields';
+
+interface MessageDataViewProps {
+  data: Record<string, unknown>;
+}
+
+// Telemetry a field unit answered with, labelled from the server's message definitions
+const MessageDataView: React.FC<MessageDataViewProps> = ({ data }) => {
+  const { data: definitions } = useQuery({
+    queryKey: ['messageTypes'],
+    queryFn: commandsApi.getMessageTypes,
+    staleTime: Infinity,
+  });
+
+  const { messageType, ...values } = data;
+  const fields = definitions?.[messageType as MessageType]?.data ?? [];
+  const known = fields.filter((field) => values[field.name] !== undefined);
+  const other = Object.keys(values).filter((key) => !fields.some((field) => field.name === key));
+
+  return (
+    <span className="text-gray-500">
+      {known.map((field) => (
+        <span key={field.name} className="mr-2">
+          {field.label}: <span className="text-gray-900">{formatFieldValue(field, values[field.name])}</span>
+        </span>
+      ))}
+      {other.map((key) => (
+        <span key={key} className="mr-2">
+          {key}: <span className="text-gray-900">{JSON.stringify(values[key])}</span>
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default MessageDataView;
@@ -0,0 +1,81 @@
+import React from 'react';
+import type { MessageField } from '../../types';
+
+interface MessageFieldsFormProps {
+  fields: MessageField[];
+  values: Record<string, unknown>;
+  onChange: (values: Record<string, unknown>) => void;
+  disabled?: boolean;
+}
+
+// Inputs for a command payload, generated from the server's message definitions
+const MessageFieldsForm: React.FC<MessageFieldsFormProps> = ({ fields, values, onChange, disabled }) => {
+  const setValue = (name: string, value: unknown) => {
+    const next = { ...values };
+    if (value === undefined) {
+      delete next[name];
+    } else {
+      next[name] = value;
+    }
+    onChange(next);
+  };
+
+  return (
+    <>
+      {fields.map((field) => {
+        const label = `${field.label}${field.unit ? ` (${field.unit})` : ''}${field.required ? ' *' : ''}`;
+
+        switch (field.type) {
+          case 'integer':
+          case 'number':
+            return (
+              <input
+                key={field.name}
+                type="number"
+                value={values[field.name] === undefined ? '' : String(values[field.name])}
+                onChange={(e) => setValue(field.name, e.target.value === '' ? undefined : Number(e.target.value))}
+                min={field.min}
+                max={field.max}
+                step={field.type === 'integer' ? 1 : 'any'}
+                placeholder={label}
+                aria-label={label}
+                disabled={disabled}
+                className="w-28 px-2 py-1 border border-gray-300 rounded text-xs"
+              />
+            );
+          case 'string':
+            return (
+              <input
+                key={field.name}
+                type="text"
+                value={typeof values[field.name] === 'string' ? (values[field.name] as string) : ''}
+                onChange={(e) => setValue(field.name, e.target.value === '' ? undefined : e.target.value)}
+                maxLength={field.maxLength}
+                placeholder={label}
+                aria-label={label}
+                disabled={disabled}
+                className="w-48 px-2 py-1 border border-gray-300 rounded text-xs"
+              />
+            );
+          case 'boolean':
+            return (
+              <label key={field.name} className="flex items-center gap-1 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={values[field.name] === true}
+                  onChange={(e) => setValue(field.name, e.target.checked || undefined)}
+                  disabled={disabled}
+                />
+                {label}
+              </label>
+            );
+          default:
+            // Lists only occur in telemetry data, which is never entered by hand
+            return null;
+        }
+      })}
+    </>
+  );
+};
+
+export default MessageFieldsForm;
@@ -39,7 +39,13 @@ const NetworksList: React.FC = () => {
   const registerDeviceMutation = useMutation({
     mutationFn: ({ networkId, data }: { networkId: string; data: DeviceFormData }) =>
       devicesApi.register(networkId, data),
-    onSuccess: () => {
+    onSuccess: (device) => {
+      if (device.gatewaySecret) {
+        window.prompt(
+          'Gateway secret for this base station. Copy it now - it will not be shown again:',
+          device.gatewaySecret
+        );
+      }
       queryClient.invalidateQueries({ queryKey: ['devices'] });
       setShowRegisterDevice(null);
       setDeviceData({ boardId: '', deviceType: 'BASE_STATION', name: '' });
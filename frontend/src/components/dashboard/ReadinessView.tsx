@@ -0,0 +1,141 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { DeviceChannel, Network } from '../../types';
+import { commandsApi, networksApi } from '../../api';
+import { formatErrorMessage } from '../../lib/errors';
+
+interface ReadinessViewProps {
+  network: Network;
+}
+
+const describeChannel = (channel: DeviceChannel) => {
+  const tested = channel.continuityTestedAt
+    ? `tested ${new Date(channel.continuityTestedAt).toLocaleTimeString()}`
+    : 'not tested';
+  return `CH${channel.number} ${channel.label ?? ''} • ${channel.load ?? 'Nothing loaded'} • ${tested}`;
+};
+
+const cellStyle = (channel: DeviceChannel) => {
+  if (channel.firedAt) return { className: 'bg-gray-200 text-gray-500', text: 'S' };
+  if (channel.continuityOk === false) {
+    return channel.load
+      ? { className: 'bg-red-600 text-white font-bold', text: '✗' }
+      : { className: 'bg-red-100 text-red-700', text: '✗' };
+  }
+  if (channel.continuityOk) return { className: 'bg-green-100 text-green-800', text: '✓' };
+  if (channel.load) return { className: 'bg-yellow-100 text-yellow-800', text: '?' };
+  return { className: 'bg-white text-gray-300', text: '–' };
+};
+
+// Pre-show matrix of continuity results per unit and channel
+const ReadinessView: React.FC<ReadinessViewProps> = ({ network }) => {
+  const queryClient = useQueryClient();
+
+  const { data: readiness } = useQuery({
+    queryKey: ['armReadiness', network.id],
+    queryFn: () => networksApi.getArmReadiness(network.id),
+    refetchInterval: 5000,
+  });
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ['commands', network.id] });
+
+  const testAllMutation = useMutation({
+    mutationFn: () =>
+      commandsApi.createBatch({ networkId: network.id, target: { type: 'ALL' }, messageType: 'MSG_TYPE_CONT' }),
+    onSuccess,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to start continuity test')),
+  });
+
+  const testUnitMutation = useMutation({
+    mutationFn: (deviceId: string) => commandsApi.create({ targetDeviceId: deviceId, messageType: 'MSG_TYPE_CONT' }),
+    onSuccess,
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to start continuity test')),
+  });
+
+  if (!readiness) {
+    return <div className="p-6 text-sm text-gray-500">Loading readiness…</div>;
+  }
+
+  const maxChannels = Math.max(1, ...readiness.units.map(u => u.channelCount));
+
+  return (
+    <div className="h-full overflow-auto p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <span
+            className={`px-3 py-1 rounded border text-sm font-bold ${
+              readiness.ready ? 'bg-green-100 text-green-800 border-green-300' : 'bg-red-100 text-red-800 border-red-300'
+            }`}
+          >
+            {readiness.ready ? 'READY' : `BLOCKED: ${readiness.failures.length} failed channel(s)`}
+          </span>
+          {readiness.untested > 0 && (
+            <span className="text-sm text-yellow-700">{readiness.untested} loaded channel(s) not tested</span>
+          )}
+        </div>
+        <button
+          onClick={() => testAllMutation.mutate()}
+          disabled={testAllMutation.isPending || readiness.units.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+        >
+          Test all units
+        </button>
+      </div>
+
+      {readiness.units.length === 0 ? (
+        <p className="text-sm text-gray-500">No approved field units in this network.</p>
+      ) : (
+        <table className="bg-white border border-gray-200 text-xs">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Unit</th>
+              {Array.from({ length: maxChannels }, (_, i) => (
+                <th key={i} className="w-8 px-1 py-2 text-center font-medium text-gray-500">
+                  {i + 1}
+                </th>
+              ))}
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {readiness.units.map((unit) => (
+              <tr key={unit.deviceId}>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  <div className="font-medium text-gray-900">{unit.name || unit.boardId}</div>
+                  <div className="text-gray-500">{unit.status}</div>
+                </td>
+                {Array.from({ length: maxChannels }, (_, i) => {
+                  const channel = unit.channels[i];
+                  if (!channel) {
+                    return <td key={i} className="bg-gray-50" />;
+                  }
+                  const { className, text } = cellStyle(channel);
+                  return (
+                    <td key={i} className={`w-8 px-1 py-2 text-center ${className}`} title={describeChannel(channel)}>
+                      {text}
+                    </td>
+                  );
+                })}
+                <td className="px-3 py-2">
+                  <button
+                    onClick={() => testUnitMutation.mutate(unit.deviceId)}
+                    disabled={testUnitMutation.isPending}
+                    className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    Test
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <p className="mt-3 text-xs text-gray-500">
+        ✓ passed • ✗ failed (red blocks arming when loaded) • ? loaded, not tested • S spent • – empty
+      </p>
+    </div>
+  );
+};
+
+export default ReadinessView;
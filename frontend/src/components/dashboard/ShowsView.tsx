@@ -0,0 +1,484 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Device, DeviceGroup, Network, Show, ShowCue, ShowCueInput, ShowStatus } from '../../types';
+import { showsApi } from '../../api';
+import { useAuth } from '../../contexts/useAuth';
+import { formatErrorMessage } from '../../lib/errors';
+
+interface ShowsViewProps {
+  network: Network;
+  devices: Device[];
+  groups: DeviceGroup[];
+}
+
+// Prefix for group targets in the cue target select; plain values are device IDs
+const GROUP_TARGET = 'group:';
+
+type CueRow = {
+  target: string;
+  channel: string;
+  offsetSeconds: string;
+  notes: string;
+};
+
+type EditorState = {
+  showId: string | null; // null when creating
+  name: string;
+  description: string;
+  cues: CueRow[];
+};
+
+const statusStyles: Record<ShowStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-800',
+  AWAITING_COSIGN: 'bg-yellow-100 text-yellow-800',
+  RUNNING: 'bg-red-600 text-white',
+  PAUSED: 'bg-yellow-100 text-yellow-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  ABORTED: 'bg-red-100 text-red-800',
+};
+
+const formatClock = (ms: number) => {
+  const totalSeconds = ms / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+  return `T+${minutes}:${seconds}`;
+};
+
+const emptyCue = (devices: Device[]): CueRow => ({
+  target: devices[0]?.id ?? '',
+  channel: '1',
+  offsetSeconds: '0',
+  notes: '',
+});
+
+const toCueInputs = (rows: CueRow[]): ShowCueInput[] =>
+  rows.map((row) => ({
+    ...(row.target.startsWith(GROUP_TARGET)
+      ? { groupId: row.target.slice(GROUP_TARGET.length) }
+      : { targetDeviceId: row.target }),
+    channel: Number(row.channel),
+    offsetMs: Math.round(Number(row.offsetSeconds) * 1000),
+    notes: row.notes.trim() || undefined,
+  }));
+
+/**
+ * Turn saved cues back into editor rows. The server expands a group cue into
+ * one cue per unit, so adjacent cues from the same group with the same timing
+ * collapse into one group row again.
+ */
+const toCueRows = (cues: ShowCue[]): CueRow[] =>
+  cues
+    .filter((cue, index) => {
+      const previous = cues[index - 1];
+      const sameGroupCue =
+        !!cue.groupId &&
+        previous?.groupId === cue.groupId &&
+        previous.offsetMs === cue.offsetMs &&
+        previous.channel === cue.channel &&
+        previous.notes === cue.notes;
+      return !sameGroupCue;
+    })
+    .map((cue) => ({
+      target: cue.groupId ? `${GROUP_TARGET}${cue.groupId}` : cue.targetDeviceId,
+      channel: String(cue.channel),
+      offsetSeconds: String(cue.offsetMs / 1000),
+      notes: cue.notes ?? '',
+    }));
+
+const getCueStatus = (cue: ShowCue) => {
+  if (cue.errorMessage) return { label: 'Failed to queue', className: 'text-red-700' };
+  if (cue.command) return { label: cue.command.status, className: 'text-gray-900 font-medium' };
+  if (cue.queuedAt) return { label: 'Queuing', className: 'text-yellow-700' };
+  return { label: 'Waiting', className: 'text-gray-500' };
+};
+
+const ShowsView: React.FC<ShowsViewProps> = ({ network, devices, groups }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [selectedShowId, setSelectedShowId] = useState<string | null>(null);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+
+  const isOwner = user?.role === 'MEGA_ADMIN' || user?.id === network.ownerId;
+  const guestPermission = network.guests?.find(g => g.userId === user?.id)?.permission;
+  const canRun = isOwner || guestPermission === 'COMMANDER';
+  const canAbort = canRun || guestPermission === 'SAFETY_OFFICER';
+
+  const fieldUnits = devices.filter(d => d.deviceType === 'FIELD_UNIT' && d.approval !== 'PENDING');
+
+  const { data: shows = [] } = useQuery({
+    queryKey: ['shows', network.id],
+    queryFn: () => showsApi.getByNetwork(network.id),
+    refetchInterval: 5000,
+  });
+
+  const { data: selectedShow } = useQuery({
+    queryKey: ['show', selectedShowId],
+    queryFn: () => showsApi.getById(selectedShowId!),
+    enabled: !!selectedShowId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'RUNNING' || status === 'PAUSED' ? 500 : 5000;
+    },
+  });
+
+  const refresh = (show?: Show) => {
+    queryClient.invalidateQueries({ queryKey: ['shows', network.id] });
+    if (show) {
+      queryClient.setQueryData(['show', show.id], show);
+    }
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (state: EditorState) => {
+      const data = {
+        name: state.name,
+        description: state.description.trim() || undefined,
+        cues: toCueInputs(state.cues),
+      };
+      return state.showId ? showsApi.update(state.showId, data) : showsApi.create(network.id, data);
+    },
+    onSuccess: (show) => {
+      setEditor(null);
+      setSelectedShowId(show.id);
+      refresh(show);
+    },
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to save show')),
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ showId, action }: { showId: string; action: 'start' | 'pause' | 'resume' | 'abort' }) =>
+      showsApi[action](showId),
+    onSuccess: (show) => {
+      refresh(show);
+      queryClient.invalidateQueries({ queryKey: ['cosignRequests', network.id] });
+    },
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Show action failed')),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: showsApi.delete,
+    onSuccess: () => {
+      setSelectedShowId(null);
+      refresh();
+    },
+    onError: (error: unknown) => alert(formatErrorMessage(error, 'Failed to delete show')),
+  });
+
+  const startEditing = (show?: Show) => {
+    setEditor({
+      showId: show?.id ?? null,
+      name: show?.name ?? '',
+      description: show?.description ?? '',
+      cues: show?.cues ? toCueRows(show.cues) : [emptyCue(fieldUnits)],
+    });
+  };
+
+  const updateCue = (index: number, changes: Partial<CueRow>) => {
+    if (!editor) return;
+    setEditor({
+      ...editor,
+      cues: editor.cues.map((cue, i) => (i === index ? { ...cue, ...changes } : cue)),
+    });
+  };
+
+  const handleStart = (show: Show) => {
+    if (confirm(`Start "${show.name}"? Cues will fire automatically from T+0.`)) {
+      actionMutation.mutate({ showId: show.id, action: 'start' });
+    }
+  };
+
+  const renderEditor = (state: EditorState) => (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        saveMutation.mutate(state);
+      }}
+      className="space-y-4"
+    >
+      <div className="grid grid-cols-2 gap-4">
+        <input
+          type="text"
+          required
+          placeholder="Show name"
+          value={state.name}
+          onChange={(e) => setEditor({ ...state, name: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <input
+          type="text"
+          placeholder="Description (optional)"
+          value={state.description}
+          onChange={(e) => setEditor({ ...state, description: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+      </div>
+
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 uppercase">
+            <th className="py-2">#</th>
+            <th className="py-2">Field unit / group</th>
+            <th className="py-2">Channel</th>
+            <th className="py-2">Offset (s)</th>
+            <th className="py-2">Notes</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {state.cues.map((cue, index) => (
+            <tr key={index}>
+              <td className="py-1 pr-2 text-gray-500">{index + 1}</td>
+              <td className="py-1 pr-2">
+                <select
+                  value={cue.target}
+                  onChange={(e) => updateCue(index, { target: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded"
+                >
+                  <optgroup label="Field units">
+                    {fieldUnits.map((device) => (
+                      <option key={device.id} value={device.id}>
+                        {device.name || device.boardId}
+                      </option>
+                    ))}
+                  </optgroup>
+                  {groups.length > 0 && (
+                    <optgroup label="Groups (every unit)">
+                      {groups.map((group) => (
+                        <option key={group.id} value={`${GROUP_TARGET}${group.id}`}>
+                          {group.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  min={1}
+                  max={fieldUnits.find(d => d.id === cue.target)?.channelCount ?? 16}
+                  required
+                  value={cue.channel}
+                  onChange={(e) => updateCue(index, { channel: e.target.value })}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded"
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  required
+                  value={cue.offsetSeconds}
+                  onChange={(e) => updateCue(index, { offsetSeconds: e.target.value })}
+                  className="w-24 px-2 py-1 border border-gray-300 rounded"
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="text"
+                  value={cue.notes}
+                  onChange={(e) => updateCue(index, { notes: e.target.value })}
+                  className="w-full px-2 py-1 border border-gray-300 rounded"
+                />
+              </td>
+              <td className="py-1">
+                <button
+                  type="button"
+                  onClick={() => setEditor({ ...state, cues: state.cues.filter((_, i) => i !== index) })}
+                  className="text-red-600 hover:text-red-800 text-xs"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setEditor({ ...state, cues: [...state.cues, emptyCue(fieldUnits)] })}
+          className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+        >
+          Add cue
+        </button>
+        <div className="space-x-2">
+          <button
+            type="button"
+            onClick={() => setEditor(null)}
+            className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+          >
+            Save show
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+
+  const renderShow = (show: Show) => {
+    const isActive = show.status === 'RUNNING' || show.status === 'PAUSED';
+    const awaitingCosign = show.status === 'AWAITING_COSIGN';
+    const nextCue = show.cues?.find((cue) => !cue.queuedAt);
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{show.name}</h2>
+            {show.description && <p className="text-sm text-gray-600">{show.description}</p>}
+          </div>
+          <div className="flex items-center space-x-3">
+            <span className="font-mono text-2xl text-gray-900">{formatClock(show.elapsedMs)}</span>
+            <span className={`px-3 py-1 rounded text-sm font-bold ${statusStyles[show.status]}`}>{show.status}</span>
+          </div>
+        </div>
+
+        {show.abortReason && <div className="text-sm text-red-700">Aborted: {show.abortReason}</div>}
+        {awaitingCosign && (
+          <div className="text-sm text-yellow-800">Waiting for a second person to approve the start</div>
+        )}
+
+        <div className="flex space-x-2">
+          {canRun && !isActive && !awaitingCosign && (
+            <button
+              onClick={() => handleStart(show)}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm font-medium"
+            >
+              {show.status === 'DRAFT' ? 'Start' : 'Restart'}
+            </button>
+          )}
+          {canAbort && show.status === 'RUNNING' && (
+            <button
+              onClick={() => actionMutation.mutate({ showId: show.id, action: 'pause' })}
+              className="px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 text-sm font-medium"
+            >
+              Pause
+            </button>
+          )}
+          {canRun && show.status === 'PAUSED' && (
+            <button
+              onClick={() => actionMutation.mutate({ showId: show.id, action: 'resume' })}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm font-medium"
+            >
+              Resume
+            </button>
+          )}
+          {canAbort && isActive && (
+            <button
+              onClick={() => actionMutation.mutate({ showId: show.id, action: 'abort' })}
+              className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 text-sm font-medium"
+            >
+              Abort
+            </button>
+          )}
+          {canRun && !isActive && !awaitingCosign && (
+            <>
+              <button
+                onClick={() => startEditing(show)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => confirm(`Delete "${show.name}"?`) && deleteMutation.mutate(show.id)}
+                className="px-4 py-2 text-sm text-red-600 hover:text-red-800"
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-xs text-gray-500 uppercase">
+              <th className="px-3 py-2">#</th>
+              <th className="px-3 py-2">Offset</th>
+              <th className="px-3 py-2">Field unit</th>
+              <th className="px-3 py-2">Channel</th>
+              <th className="px-3 py-2">Notes</th>
+              <th className="px-3 py-2">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {show.cues?.map((cue) => {
+              const status = getCueStatus(cue);
+              return (
+                <tr key={cue.id} className={isActive && cue.id === nextCue?.id ? 'bg-yellow-50' : ''}>
+                  <td className="px-3 py-2 text-gray-500">{cue.position + 1}</td>
+                  <td className="px-3 py-2 font-mono">{formatClock(cue.offsetMs)}</td>
+                  <td className="px-3 py-2">
+                    {cue.targetDevice?.name || cue.targetDevice?.boardId}
+                    {cue.group && (
+                      <span className="ml-2 text-xs" style={{ color: cue.group.color }}>
+                        {cue.group.name}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">{cue.channel}</td>
+                  <td className="px-3 py-2 text-gray-600">{cue.notes}</td>
+                  <td className={`px-3 py-2 ${status.className}`} title={cue.errorMessage ?? cue.command?.errorMessage ?? ''}>
+                    {status.label}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex bg-white">
+      <div className="w-64 border-r border-gray-200 overflow-y-auto p-4 space-y-2">
+        {canRun && (
+          <button
+            onClick={() => startEditing()}
+            disabled={fieldUnits.length === 0}
+            className="w-full px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+          >
+            New show
+          </button>
+        )}
+        {shows.map((show) => (
+          <button
+            key={show.id}
+            onClick={() => {
+              setEditor(null);
+              setSelectedShowId(show.id);
+            }}
+            className={`w-full text-left px-3 py-2 rounded-lg text-sm ${
+              show.id === selectedShowId ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50'
+            }`}
+          >
+            <div className="font-medium text-gray-900">{show.name}</div>
+            <div className="text-xs text-gray-500">
+              {show._count?.cues ?? 0} cue(s) • {show.status}
+            </div>
+          </button>
+        ))}
+        {shows.length === 0 && <div className="text-sm text-gray-500">No shows yet</div>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        {editor
+          ? renderEditor(editor)
+          : selectedShow
+            ? renderShow(selectedShow)
+            : <div className="text-gray-500 text-sm">Select a show</div>}
+      </div>
+    </div>
+  );
+};
+
+export default ShowsView;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import type { User, AuthResponse } from '../types';
 import { authApi } from '../api';
+import { clearStepUpToken } from '../lib/api';
 import { AuthContext } from './AuthContextBase';
 
 const getInitialToken = () => {
@@ -55,6 +56,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const logout = () => {
+    clearStepUpToken();
     setUser(null);
     setToken(null);
     localStorage.removeItem('authToken');
@@ -1,4 +1,5 @@
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import type { StepUpResult } from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 
@@ -9,6 +10,34 @@ const apiClient = axios.create({
   },
 });
 
+// Step-up proof for critical actions, kept in memory only
+let stepUp: { token: string; expiresAt: number } | null = null;
+
+export const clearStepUpToken = () => {
+  stepUp = null;
+};
+
+export type StepUpProof = { pin: string } | { password: string };
+
+// Asks for the firing PIN or the password; resolves null if cancelled
+export type StepUpPrompt = (methods: string[]) => Promise<StepUpProof | null>;
+
+let promptStepUp: StepUpPrompt = async () => null;
+let pendingProof: Promise<StepUpProof | null> | null = null;
+
+// Called by the step-up dialog once it is mounted
+export const setStepUpPrompt = (prompt: StepUpPrompt) => {
+  promptStepUp = prompt;
+};
+
+// Requests refused at the same time share one prompt
+const askForStepUp = (methods: unknown) => {
+  pendingProof ??= promptStepUp(Array.isArray(methods) ? methods : []).finally(() => {
+    pendingProof = null;
+  });
+  return pendingProof;
+};
+
 // Request interceptor to add auth token
 apiClient.interceptors.request.use(
   (config) => {
@@ -16,6 +45,9 @@ apiClient.interceptors.request.use(
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    if (stepUp && stepUp.expiresAt > Date.now()) {
+      config.headers['X-Step-Up-Token'] = stepUp.token;
+    }
     return config;
   },
   (error) => {
@@ -26,12 +58,25 @@ apiClient.interceptors.request.use(
 // Response interceptor to handle errors
 apiClient.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
     if (error.response?.status === 401) {
       // Token expired or invalid
       localStorage.removeItem('authToken');
       window.location.href = '/login';
     }
+
+    // Critical action without a fresh step-up: ask once, then retry the request
+    const config = error.config as (InternalAxiosRequestConfig & { stepUpRetried?: boolean }) | undefined;
+    if (error.response?.status === 403 && error.response.data?.code === 'STEP_UP_REQUIRED' && config && !config.stepUpRetried) {
+      const proof = await askForStepUp(error.response.data.methods);
+      if (proof) {
+        const { data } = await apiClient.post<StepUpResult>('/auth/step-up', proof);
+        stepUp = { token: data.stepUpToken, expiresAt: new Date(data.expiresAt).getTime() };
+        config.stepUpRetried = true;
+        return apiClient(config);
+      }
+    }
+
     return Promise.reject(error);
   }
 );
@@ -0,0 +1,55 @@
+import type { ContinuityFailure, InterlockFailure } from '../types';
+
+type ApiError = {
+  response?: {
+    data?: {
+      error?: unknown;
+      code?: unknown;
+      failures?: unknown;
+      details?: unknown;
+    };
+  };
+};
+
+const isApiError = (error: unknown): error is ApiError => {
+  return typeof error === 'object' && error !== null && 'response' in error;
+};
+
+export const formatErrorMessage = (error: unknown, fallback: string) => {
+  if (isApiError(error)) {
+    const message = error.response?.data?.error;
+    if (typeof message !== 'string') {
+      return fallback;
+    }
+    // Name the first field a 400 Invalid input response refused, e.g. payload.channel
+    const details = error.response?.data?.details;
+    const issue = Array.isArray(details) ? (details[0] as { path?: unknown; message?: unknown }) : undefined;
+    if (issue && Array.isArray(issue.path) && typeof issue.message === 'string') {
+      return `${message} (${issue.path.join('.')}: ${issue.message})`;
+    }
+    return message;
+  }
+  return fallback;
+};
+
+/**
+ * Failed pre-ignition interlocks from a 409 INTERLOCK_FAILED response, or null for any other error
+ */
+export const getInterlockFailures = (error: unknown): InterlockFailure[] | null => {
+  if (isApiError(error) && error.response?.data?.code === 'INTERLOCK_FAILED') {
+    const failures = error.response.data.failures;
+    return Array.isArray(failures) ? (failures as InterlockFailure[]) : [];
+  }
+  return null;
+};
+
+/**
+ * Loaded channels that failed continuity from a 409 CONTINUITY_FAILED arming response, or null for any other error
+ */
+export const getContinuityFailures = (error: unknown): ContinuityFailure[] | null => {
+  if (isApiError(error) && error.response?.data?.code === 'CONTINUITY_FAILED') {
+    const failures = error.response.data.failures;
+    return Array.isArray(failures) ? (failures as ContinuityFailure[]) : [];
+  }
+  return null;
+};
@@ -0,0 +1,28 @@
+import type { MessageField } from '../types';
+
+/**
+ * Human-readable value of a command payload or telemetry data field
+ */
+export const formatFieldValue = (field: MessageField, value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '-';
+  }
+  if (field.type === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (field.type === 'list' && Array.isArray(value)) {
+    return value
+      .map((item: Record<string, unknown>) =>
+        field.fields.map((itemField) => `${itemField.label} ${formatFieldValue(itemField, item[itemField.name])}`).join(', ')
+      )
+      .join('; ');
+  }
+  return field.unit ? `${String(value)} ${field.unit}` : String(value);
+};
+
+/**
+ * Required payload fields that have no value yet
+ */
+export const getMissingFields = (fields: MessageField[], values: Record<string, unknown>) => {
+  return fields.filter((field) => field.required && (values[field.name] === undefined || values[field.name] === ''));
+};
@@ -10,6 +10,7 @@ export interface User {
   name: string;
   role: UserRole;
   isActive?: boolean;
+  hasFiringPin?: boolean;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -32,8 +33,14 @@ export interface RegisterData {
   role?: 'USER' | 'GUEST';
 }
 
+// Proof of a fresh PIN or password entry, sent with critical actions
+export interface StepUpResult {
+  stepUpToken: string;
+  expiresAt: string;
+}
+
 // Network types
-export type GuestPermission = 'VIEW_ONLY' | 'COMMANDER';
+export type GuestPermission = 'VIEW_ONLY' | 'COMMANDER' | 'SAFETY_OFFICER';
 
 export interface Network {
   id: string;
@@ -52,6 +59,122 @@ export interface Network {
     devices: number;
   };
   guestPermission?: GuestPermission;
+  armState?: ArmState;
+  requireSecondArmer?: boolean;
+  requireCosign?: boolean;
+  emergencyStopAt?: string | null;
+  guests?: NetworkGuest[];
+  deviceGroups?: DeviceGroup[];
+}
+
+export interface EmergencyStopResult {
+  success: boolean;
+  stoppedAt: string;
+  cancelledCommands: number;
+  abortedCommands: number;
+  baseStationsNotified: number;
+  abortedShows: number;
+}
+
+export type ArmState = 'SAFE' | 'ARMING' | 'ARMED' | 'FIRING';
+
+export interface ArmTransition {
+  id: string;
+  networkId: string;
+  fromState: ArmState;
+  toState: ArmState;
+  userId: string | null;
+  reason: string | null;
+  createdAt: string;
+  user?: Pick<User, 'id' | 'name' | 'email'> | null;
+}
+
+export interface ArmStatus {
+  id: string;
+  armState: ArmState;
+  armStateChangedAt: string | null;
+  armRequestedById: string | null;
+  armExpiresAt: string | null;
+  requireSecondArmer: boolean;
+  requireCosign: boolean; // IGNITE and show start need a second person's approval
+  emergencyStopAt: string | null;
+  transitions?: ArmTransition[];
+}
+
+export type InterlockCheck =
+  | 'EMERGENCY_STOP_ACTIVE'
+  | 'TARGET_OFFLINE'
+  | 'TARGET_LOW_BATTERY'
+  | 'TARGET_STALE'
+  | 'GPS_STALE'
+  | 'POSITION_UNKNOWN'
+  | 'IN_AUDIENCE_ZONE'
+  | 'CONTINUITY_FAILED'; // Logged when the owner arms past failed continuity tests
+
+export interface ContinuityFailure {
+  deviceId: string;
+  deviceName: string;
+  channel: number;
+  load: string;
+}
+
+// Pre-show continuity matrix of every approved field unit
+export interface ArmReadiness {
+  ready: boolean; // No loaded, unfired channel failed its last test
+  failures: ContinuityFailure[];
+  untested: number;
+  units: (Pick<Device, 'name' | 'boardId' | 'status'> & {
+    deviceId: string;
+    channelCount: number;
+    channels: DeviceChannel[];
+  })[];
+}
+
+export interface InterlockFailure {
+  check: InterlockCheck;
+  message: string;
+  overridable: boolean;
+  details?: Record<string, unknown>;
+}
+
+export interface InterlockOverrideInput {
+  check: InterlockCheck;
+  justification: string;
+}
+
+export interface AudienceZone {
+  id: string;
+  networkId: string;
+  name: string;
+  polygon: [number, number][];
+  createdAt: string;
+}
+
+export interface InterlockSettings {
+  maxLastSeenSeconds: number | null;
+  maxGpsAgeSeconds: number | null;
+  emergencyStopAt: string | null;
+  audienceZones: AudienceZone[];
+}
+
+export interface InterlockCheckResult {
+  deviceId: string;
+  passed: boolean;
+  failures: InterlockFailure[];
+}
+
+export interface InterlockOverride {
+  id: string;
+  networkId: string;
+  deviceId: string;
+  commandId: string | null;
+  check: InterlockCheck;
+  message: string;
+  justification: string;
+  userId: string;
+  createdAt: string;
+  user?: Pick<User, 'id' | 'name' | 'email'>;
+  device?: Pick<Device, 'id' | 'boardId' | 'name'>;
 }
 
 export interface NetworkGuest {
@@ -60,32 +183,116 @@ export interface NetworkGuest {
   userId: string;
   permission: GuestPermission;
   user?: User;
+  groups?: { guestId: string; groupId: string }[]; // If any, ignition is limited to these device groups
+}
+
+// Named set of devices within a network (firing zone)
+export interface DeviceGroup {
+  id: string;
+  networkId: string;
+  name: string;
+  color: string; // #rrggbb
+  createdAt: string;
+  updatedAt: string;
+  _count?: {
+    devices: number;
+  };
 }
 
 // Device types
 export type DeviceType = 'BASE_STATION' | 'FIELD_UNIT';
 export type DeviceStatus = 'ONLINE' | 'OFFLINE' | 'DISCOVERED' | 'LOW_BATTERY';
+export type DeviceApproval = 'PENDING' | 'APPROVED';
+
+export interface GatewayCredentialStatus {
+  issuedAt: string;
+  revokedAt?: string | null;
+  lastUsedAt?: string | null;
+}
 
 export interface Device {
   id: string;
   boardId: string;
   deviceType: DeviceType;
   networkId: string;
+  groupId?: string | null;
   status: DeviceStatus;
+  approval: DeviceApproval;
+  approvedAt?: string | null;
   name?: string;
   latitude?: number;
   longitude?: number;
   altitude?: number;
+  gpsUpdatedAt?: string | null;
   batteryVoltage?: number;
   batteryPercent?: number;
   lastSeen?: string;
   lastPolled?: string;
+  clockOffsetMs?: number | null; // Device clock minus server clock
+  clockOffsetAt?: string | null;
+  channelCount?: number; // Relay outputs on a field unit
   firmwareVersion?: string;
   metadata?: JsonObject;
+  gatewayCredential?: GatewayCredentialStatus | null;
+  heardByStations?: DeviceLink[];
+  heardFieldUnits?: DeviceLink[];
   createdAt: string;
   updatedAt: string;
 }
 
+// One relay output of a field unit
+export interface DeviceChannel {
+  number: number;
+  label: string | null;
+  load: string | null; // What is wired to it
+  firedAt: string | null; // Spent until reloaded
+  firedCommandId: string | null;
+  continuityOk: boolean | null; // Last continuity test, null until tested and after a reload
+  continuityTestedAt: string | null;
+}
+
+export interface DeviceChannelGrid {
+  deviceId: string;
+  channelCount: number;
+  channels: DeviceChannel[];
+}
+
+// Auto-discovered device waiting in the network's approval inbox
+export interface Discovery extends Device {
+  firstTelemetry: Telemetry | null;
+}
+
+export interface BlockedBoard {
+  id: string;
+  networkId: string;
+  boardId: string;
+  reason?: string | null;
+  blockedById: string;
+  createdAt: string;
+  blockedBy?: Pick<User, 'id' | 'name' | 'email'>;
+}
+
+type LinkedDeviceSummary = Pick<Device, 'id' | 'boardId' | 'name' | 'status'>;
+
+// A base station that has heard a field unit, with the latest link quality
+export interface DeviceLink {
+  id: string;
+  baseStationId: string;
+  fieldUnitId: string;
+  rssi?: number | null;
+  snr?: number | null;
+  messageCount: number;
+  firstHeardAt: string;
+  lastHeardAt: string;
+  baseStation?: LinkedDeviceSummary;
+  fieldUnit?: LinkedDeviceSummary;
+}
+
+// Returned once when a base station secret is issued (registration or rotation)
+export interface IssuedGatewaySecret {
+  gatewaySecret?: string;
+}
+
 // Message/Command types
 export type MessageType =
   | 'MSG_TYPE_POSA'
@@ -97,9 +304,43 @@ export type MessageType =
   | 'MSG_TYPE_SET_R'
   | 'MSG_TYPE_RES_ID'
   | 'MSG_TYPE_MSG'
-  | 'MSG_TYPE_IGNITE';
+  | 'MSG_TYPE_IGNITE'
+  | 'MSG_TYPE_CONT';
 
-export type CommandStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'TIMEOUT';
+interface BaseMessageField {
+  name: string;
+  label: string;
+  required?: boolean;
+  unit?: string;
+}
+
+// One field of a command payload or telemetry data object, as defined by the server
+export type MessageField = BaseMessageField &
+  (
+    | { type: 'integer' | 'number'; min?: number; max?: number }
+    | { type: 'string'; maxLength?: number }
+    | { type: 'boolean' }
+    | { type: 'list'; fields: MessageField[]; maxItems?: number }
+  );
+
+export interface MessageDefinition {
+  description: string;
+  sendable: boolean; // Whether users may send it as a command
+  payload: MessageField[];
+  data: MessageField[];
+}
+
+export type MessageDefinitions = Record<MessageType, MessageDefinition>;
+
+export type CommandStatus =
+  | 'AWAITING_COSIGN' // Held until a second person approves it
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'COMPLETED'
+  | 'FAILED'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'ABORTED';
 export type CommandPriority = 'CRITICAL' | 'HIGH' | 'NORMAL' | 'LOW';
 
 export interface Command {
@@ -112,6 +353,9 @@ export interface Command {
   status: CommandStatus;
   payload?: JsonObject;
   messageId?: string;
+  routeReason?: string | null;
+  routedAt?: string | null;
+  fireAt?: string | null;
   createdBy: string;
   createdAt: string;
   updatedAt: string;
@@ -121,9 +365,186 @@ export interface Command {
   errorMessage?: string;
   retryCount: number;
   maxRetries: number;
+  latencyMs?: number | null;
+  responseTelemetryId?: string | null;
+  cosignRequestId?: string | null;
   targetDevice?: Device;
   sourceDevice?: Device;
   creator?: User;
+  audits?: CommandAudit[];
+}
+
+export type CosignKind = 'IGNITE' | 'SHOW_START';
+
+export type CosignStatus = 'PENDING' | 'APPROVED' | 'DENIED' | 'EXPIRED' | 'CANCELLED';
+
+// An ignition or show start held for two-person approval
+export interface CosignRequest {
+  id: string;
+  networkId: string;
+  kind: CosignKind;
+  status: CosignStatus;
+  summary: string;
+  showId: string | null;
+  requestedById: string;
+  expiresAt: string;
+  decidedById: string | null;
+  decidedAt: string | null;
+  reason: string | null;
+  createdAt: string;
+  requestedBy?: Pick<User, 'id' | 'name' | 'email'>;
+  decidedBy?: Pick<User, 'id' | 'name' | 'email'> | null;
+  show?: Pick<Show, 'id' | 'name' | 'status'> | null;
+  commands?: (Pick<Command, 'id' | 'messageType' | 'payload' | 'fireAt' | 'status'> & {
+    targetDevice: Pick<Device, 'id' | 'boardId' | 'name' | 'groupId'> | null;
+  })[];
+}
+
+export type CommandTargetType = 'ALL' | 'DEVICES' | 'GROUP';
+
+export type CommandBatchMode = 'FANOUT' | 'BROADCAST';
+
+export type CommandBatchTarget =
+  | { type: 'ALL' }
+  | { type: 'DEVICES'; deviceIds: string[] }
+  | { type: 'GROUP'; groupId: string };
+
+// Per-target status: a command status, or REJECTED / RESPONDED / AWAITING_RESPONSE / NO_RESPONSE
+export interface CommandBatchTargetResult {
+  deviceId: string;
+  boardId: string;
+  name: string | null;
+  commandId: string | null;
+  status: string;
+  respondedAt: string | null;
+  error: string | null;
+}
+
+export interface CommandBatch {
+  id: string;
+  networkId: string;
+  messageType: MessageType;
+  priority: CommandPriority;
+  targetType: CommandTargetType;
+  targetGroupId: string | null;
+  mode: CommandBatchMode;
+  messageId: string | null;
+  createdBy: string;
+  createdAt: string;
+  targets: CommandBatchTargetResult[];
+  summary: Record<string, number>;
+  broadcasts: {
+    commandId: string;
+    baseStation: Pick<Device, 'id' | 'boardId' | 'name'> | null;
+    status: CommandStatus;
+  }[];
+}
+
+export type CommandAuditAction = 'CANCELLED' | 'REPRIORITISED';
+
+export interface CommandAudit {
+  id: string;
+  commandId: string;
+  networkId: string;
+  userId: string;
+  action: CommandAuditAction;
+  fromValue: string | null;
+  toValue: string | null;
+  reason: string | null;
+  createdAt: string;
+  user?: Pick<User, 'id' | 'name' | 'email'>;
+}
+
+export type CommandEventActor = 'USER' | 'BASE_STATION' | 'SYSTEM';
+
+// One state change in a command's lifecycle; fromStatus is null on creation
+export interface CommandEvent {
+  id: string;
+  commandId: string;
+  fromStatus: CommandStatus | null;
+  toStatus: CommandStatus;
+  actor: CommandEventActor;
+  userId: string | null;
+  baseStationId: string | null;
+  message: string | null;
+  data: Record<string, unknown> | null;
+  createdAt: string;
+  user: Pick<User, 'id' | 'name' | 'email'> | null;
+  baseStation: Pick<Device, 'id' | 'boardId' | 'name'> | null;
+}
+
+// Recurring request to the field units of a network; skipped while not SAFE or during a show
+export interface DiagnosticSchedule {
+  id: string;
+  networkId: string;
+  messageType: MessageType;
+  priority: CommandPriority;
+  intervalSeconds: number;
+  groupId: string | null; // null targets every approved field unit
+  enabled: boolean;
+  createdById: string;
+  lastRunAt: string | null;
+  lastResult: string | null;
+  lastBatchId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  group: Pick<DeviceGroup, 'id' | 'name' | 'color'> | null;
+  createdBy: Pick<User, 'id' | 'name' | 'email'>;
+}
+
+export interface DiagnosticScheduleInput {
+  messageType: MessageType;
+  intervalSeconds: number;
+  priority?: CommandPriority;
+  groupId?: string | null;
+  enabled?: boolean;
+}
+
+// Show script types
+export type ShowStatus = 'DRAFT' | 'AWAITING_COSIGN' | 'RUNNING' | 'PAUSED' | 'COMPLETED' | 'ABORTED';
+
+// Exactly one of targetDeviceId / groupId; a group cue is expanded into one cue per unit on save
+export interface ShowCueInput {
+  targetDeviceId?: string;
+  groupId?: string;
+  channel: number;
+  offsetMs: number;
+  notes?: string;
+}
+
+export interface ShowCue extends Omit<ShowCueInput, 'targetDeviceId' | 'groupId'> {
+  id: string;
+  showId: string;
+  targetDeviceId: string;
+  groupId?: string | null;
+  position: number;
+  queuedAt: string | null;
+  commandId: string | null;
+  errorMessage: string | null;
+  targetDevice?: Pick<Device, 'id' | 'boardId' | 'name' | 'status' | 'groupId'>;
+  group?: Pick<DeviceGroup, 'id' | 'name' | 'color'> | null;
+  command?: Pick<Command, 'id' | 'status' | 'dispatchedAt' | 'completedAt' | 'errorMessage'> | null;
+}
+
+export interface Show {
+  id: string;
+  networkId: string;
+  name: string;
+  description?: string | null;
+  status: ShowStatus;
+  startedAt: string | null;
+  pausedAt: string | null;
+  pausedMs: number;
+  completedAt: string | null;
+  abortReason: string | null;
+  elapsedMs: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  cues?: ShowCue[];
+  _count?: {
+    cues: number;
+  };
 }
 
 export interface Telemetry {
@@ -139,6 +560,19 @@ export interface Telemetry {
   batteryVoltage?: number;
   rssi?: number;
   snr?: number;
+  receivedById?: string | null;
   receivedAt: string;
   createdAt: string;
+  observations?: TelemetryObservation[];
+}
+
+// One base station's reception of a de-duplicated telemetry message
+export interface TelemetryObservation {
+  id: string;
+  telemetryId: string;
+  baseStationId: string;
+  rssi?: number | null;
+  snr?: number | null;
+  receivedAt: string;
+  baseStation?: Pick<Device, 'id' | 'boardId' | 'name'>;
 }